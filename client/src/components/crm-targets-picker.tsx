@@ -0,0 +1,146 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SimulationConfig } from '@shared/schema';
+
+type CrmTargets = NonNullable<SimulationConfig['crmTargets']>;
+
+interface CrmPipelineOption {
+  id: string;
+  label: string;
+  stages: Array<{ id: string; label: string; isClosed: boolean }>;
+}
+
+interface CrmOptions {
+  dealPipelines: CrmPipelineOption[];
+  ticketPipelines: CrmPipelineOption[];
+  owners: Array<{ id: string; email: string | null; firstName: string | null; lastName: string | null }>;
+}
+
+interface CrmTargetsPickerProps {
+  userId: number;
+  value: CrmTargets | undefined;
+  onChange: (targets: CrmTargets | undefined) => void;
+}
+
+const MAX_OWNER_WEIGHT = 10;
+
+/**
+ * Choose the deal and ticket pipelines and the weighted owners a simulation writes to
+ */
+export default function CrmTargetsPicker({ userId, value, onChange }: CrmTargetsPickerProps) {
+  const { data: options, isLoading } = useQuery<CrmOptions>({
+    queryKey: [`/api/user/${userId}/hubspot/crm-options`],
+    enabled: !!userId,
+  });
+
+  // Drop empty fields so an untouched picker sends no targets at all
+  const update = (changes: Partial<CrmTargets>) => {
+    const next: CrmTargets = { ...value, ...changes };
+    if (!next.dealPipelineId) delete next.dealPipelineId;
+    if (!next.ticketPipelineId) delete next.ticketPipelineId;
+    if (!next.owners?.length) delete next.owners;
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const owners = value?.owners || [];
+  const ownerWeight = (ownerId: string) => owners.find(owner => owner.id === ownerId)?.weight;
+
+  const toggleOwner = (ownerId: string) => {
+    update({
+      owners: ownerWeight(ownerId) !== undefined
+        ? owners.filter(owner => owner.id !== ownerId)
+        : [...owners, { id: ownerId, weight: 1 }]
+    });
+  };
+
+  const setOwnerWeight = (ownerId: string, weight: number) => {
+    const clamped = Math.min(MAX_OWNER_WEIGHT, Math.max(1, Math.round(weight) || 1));
+    update({ owners: owners.map(owner => owner.id === ownerId ? { ...owner, weight: clamped } : owner) });
+  };
+
+  const totalWeight = owners.reduce((sum, owner) => sum + owner.weight, 0);
+  const describeStages = (pipeline: CrmPipelineOption | undefined) =>
+    pipeline ? pipeline.stages.map(stage => stage.label).join(' → ') : '';
+
+  return (
+    <div className="additional-options">
+      <div className="options-title text-[18px]">Pipelines & Owners</div>
+      <div style={{ padding: '15px', background: '#9fb89f', border: '1px solid #2d3748', color: '#2d3e2d', fontSize: '12px' }}>
+        {isLoading && <div>Loading pipelines and owners…</div>}
+
+        {options && (
+          <>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '6px' }}>
+              <span style={{ width: '110px', fontWeight: 'bold' }}>Deal pipeline</span>
+              <select
+                className="timespan-dropdown"
+                value={value?.dealPipelineId || ''}
+                onChange={(e) => update({ dealPipelineId: e.target.value })}
+                data-testid="select-deal-pipeline"
+              >
+                <option value="">Default</option>
+                {options.dealPipelines.map(pipeline => (
+                  <option key={pipeline.id} value={pipeline.id}>{pipeline.label}</option>
+                ))}
+              </select>
+            </div>
+            {value?.dealPipelineId && (
+              <div style={{ marginBottom: '10px' }} data-testid="deal-pipeline-stages">
+                {describeStages(options.dealPipelines.find(pipeline => pipeline.id === value.dealPipelineId))}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px' }}>
+              <span style={{ width: '110px', fontWeight: 'bold' }}>Ticket pipeline</span>
+              <select
+                className="timespan-dropdown"
+                value={value?.ticketPipelineId || ''}
+                onChange={(e) => update({ ticketPipelineId: e.target.value })}
+                disabled={options.ticketPipelines.length === 0}
+                data-testid="select-ticket-pipeline"
+              >
+                <option value="">Default</option>
+                {options.ticketPipelines.map(pipeline => (
+                  <option key={pipeline.id} value={pipeline.id}>{pipeline.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
+              Owners {owners.length === 0 ? '(any)' : `(${owners.length} selected)`}
+            </div>
+            {options.owners.length === 0 && <div>No owners found in the connected portal</div>}
+            {options.owners.map(owner => {
+              const weight = ownerWeight(owner.id);
+              const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ') || owner.email || owner.id;
+              return (
+                <div key={owner.id} style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '4px' }}>
+                  <input
+                    type="checkbox"
+                    checked={weight !== undefined}
+                    onChange={() => toggleOwner(owner.id)}
+                    data-testid={`checkbox-owner-${owner.id}`}
+                  />
+                  <span style={{ flex: 1 }}>{name}</span>
+                  {weight !== undefined && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_OWNER_WEIGHT}
+                        value={weight}
+                        onChange={(e) => setOwnerWeight(owner.id, Number(e.target.value))}
+                        style={{ width: '50px', padding: '2px 4px', background: '#2d3748', color: '#e8e8e8', border: '1px solid #e8e8e8' }}
+                        data-testid={`input-owner-weight-${owner.id}`}
+                      />
+                      <span style={{ width: '40px', textAlign: 'right' }}>{Math.round(weight / totalWeight * 100)}%</span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
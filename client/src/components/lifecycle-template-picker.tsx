@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface LifecycleTemplateSummary {
+  id: number;
+  name: string;
+  outcome: 'won' | 'lost';
+  version: number;
+  industry: string | null;
+  rowCount: number;
+  baseCycleDays: number;
+  createdAt: string | null;
+}
+
+interface TemplateIssue {
+  line?: number;
+  column?: string;
+  message: string;
+}
+
+interface TimelinePreview {
+  valid: boolean;
+  errors: TemplateIssue[];
+  targetCycleDays: number;
+  timeline: Array<{ templateDay: number; scaledDay: number; typeOfAction: string; recordType: string; recordIdTpl: string }>;
+}
+
+interface LifecycleTemplatePickerProps {
+  userId: number;
+  industry: string;
+  value: string;
+  onChange: (templateName: string) => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+/**
+ * Select, upload and delete user lifecycle templates for the record frequency setup
+ */
+export default function LifecycleTemplatePicker({ userId, industry, value, onChange }: LifecycleTemplatePickerProps) {
+  const { toast } = useToast();
+  const [uploadName, setUploadName] = useState('');
+  const [uploadOutcome, setUploadOutcome] = useState<'won' | 'lost'>('won');
+  const [uploadContent, setUploadContent] = useState('');
+  const [preview, setPreview] = useState<TimelinePreview | null>(null);
+
+  const templatesQueryKey = [`/api/user/${userId}/templates`];
+  const { data: templates = [] } = useQuery<LifecycleTemplateSummary[]>({
+    queryKey: templatesQueryKey,
+    enabled: !!userId,
+  });
+
+  // Latest version of each outcome, grouped by template name
+  const templatesByName = templates.reduce<Record<string, Partial<Record<'won' | 'lost', LifecycleTemplateSummary>>>>((groups, template) => {
+    const group = groups[template.name] || (groups[template.name] = {});
+    if (!group[template.outcome] || group[template.outcome]!.version < template.version) {
+      group[template.outcome] = template;
+    }
+    return groups;
+  }, {});
+  const templateNames = Object.keys(templatesByName).sort();
+  const selected = value ? templatesByName[value] : undefined;
+
+  const previewMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', `/api/user/${userId}/templates/preview`, { content });
+      return response.json() as Promise<TimelinePreview>;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Preview Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/user/${userId}/templates`, {
+        name: uploadName,
+        outcome: uploadOutcome,
+        industry,
+        content: uploadContent
+      });
+      return response.json() as Promise<LifecycleTemplateSummary>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: templatesQueryKey });
+      toast({ title: "Template Uploaded", description: `${template.name} v${template.version} (${template.outcome})` });
+      onChange(template.name);
+      setUploadContent('');
+      setPreview(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      return apiRequest('DELETE', `/api/user/${userId}/templates/${templateId}?allVersions=true`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesQueryKey });
+      onChange('');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setUploadContent(content);
+    if (!uploadName) {
+      setUploadName(file.name.replace(/\.csv$/i, ''));
+    }
+    previewMutation.mutate(content);
+  };
+
+  const describeVariants = (name: string) => {
+    const group = templatesByName[name];
+    return (['won', 'lost'] as const)
+      .filter(outcome => group[outcome])
+      .map(outcome => `${outcome} v${group[outcome]!.version}`)
+      .join(', ');
+  };
+
+  return (
+    <div className="additional-options">
+      <div className="options-title text-[18px]">Lifecycle Template</div>
+      <div style={{ padding: '15px', background: '#9fb89f', border: '1px solid #2d3748', color: '#2d3e2d', fontSize: '12px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px' }}>
+          <select
+            className="timespan-dropdown"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            data-testid="select-lifecycle-template"
+          >
+            <option value="">Built-in ({industry})</option>
+            {templateNames.map(name => (
+              <option key={name} value={name}>{name} ({describeVariants(name)})</option>
+            ))}
+          </select>
+          {selected && (
+            <button
+              onClick={() => deleteMutation.mutate((selected.won || selected.lost)!.id)}
+              disabled={deleteMutation.isPending}
+              style={{ color: '#8b0000', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', fontWeight: 'bold' }}
+              data-testid="button-delete-template"
+            >
+              Delete all versions
+            </button>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap' }}>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            data-testid="input-template-file"
+          />
+          <input
+            type="text"
+            placeholder="Template name"
+            value={uploadName}
+            onChange={(e) => setUploadName(e.target.value)}
+            style={{ padding: '4px 8px', background: '#2d3748', color: '#e8e8e8', border: '1px solid #e8e8e8' }}
+            data-testid="input-template-name"
+          />
+          <select
+            className="timespan-dropdown"
+            value={uploadOutcome}
+            onChange={(e) => setUploadOutcome(e.target.value as 'won' | 'lost')}
+            data-testid="select-template-outcome"
+          >
+            <option value="won">Closed Won</option>
+            <option value="lost">Closed Lost</option>
+          </select>
+          <button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!uploadName.trim() || !preview?.valid || uploadMutation.isPending}
+            style={{
+              padding: '6px 12px',
+              background: preview?.valid && uploadName.trim() ? '#8b0000' : '#4a5568',
+              color: '#e8e8e8',
+              border: 'none',
+              fontWeight: 'bold',
+              cursor: preview?.valid && uploadName.trim() ? 'pointer' : 'not-allowed'
+            }}
+            data-testid="button-upload-template"
+          >
+            Upload
+          </button>
+        </div>
+
+        {/* Validation errors or the scaled timeline of the chosen file */}
+        {preview && !preview.valid && (
+          <ul style={{ marginTop: '10px', color: '#8b0000' }} data-testid="template-errors">
+            {preview.errors.map((issue, index) => (
+              <li key={index}>{issue.line !== undefined ? `Line ${issue.line}: ` : ''}{issue.message}</li>
+            ))}
+          </ul>
+        )}
+        {preview?.valid && (
+          <div style={{ marginTop: '10px' }} data-testid="template-preview">
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
+              {preview.timeline.length} steps over {preview.targetCycleDays} days
+            </div>
+            {preview.timeline.slice(0, PREVIEW_ROWS).map((step, index) => (
+              <div key={index}>
+                Day {step.templateDay} → Day {step.scaledDay}: {step.typeOfAction} {step.recordType} {step.recordIdTpl}
+              </div>
+            ))}
+            {preview.timeline.length > PREVIEW_ROWS && (
+              <div>… {preview.timeline.length - PREVIEW_ROWS} more</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -39,12 +39,20 @@ export const industries = [
 ];
 
 export const frequencies = [
-  { id: '1h', name: '1 HOUR', enabled: true },
-  { id: '4h', name: '4 HOURS', enabled: true },
-  { id: '1d', name: '1 DAY', enabled: true },
-  { id: '1w', name: '1 WEEK', enabled: true },
-  { id: '1m', name: '1 MONTH', enabled: true },
-  { id: 'custom', name: 'CUSTOM', enabled: false },
+  { id: '1h', name: '1 HOUR', enabled: true, durationDays: 1 / 24 },
+  { id: '4h', name: '4 HOURS', enabled: true, durationDays: 4 / 24 },
+  { id: '1d', name: '1 DAY', enabled: true, durationDays: 1 },
+  { id: '1w', name: '1 WEEK', enabled: true, durationDays: 7 },
+  { id: '1m', name: '1 MONTH', enabled: true, durationDays: 30 },
+  { id: 'custom', name: 'CUSTOM', enabled: true, durationDays: null },
+];
+
+// Units for custom durations, in days
+export const customDurationUnits = [
+  { id: 'minutes', name: 'MINUTES', days: 1 / (24 * 60) },
+  { id: 'hours', name: 'HOURS', days: 1 / 24 },
+  { id: 'days', name: 'DAYS', days: 1 },
+  { id: 'months', name: 'MONTHS', days: 30 },
 ];
 
 export const hubspotObjects = [
@@ -53,8 +61,10 @@ export const hubspotObjects = [
   { id: 'deals', name: 'DEALS', enabled: true, defaultValue: 10 },
   { id: 'tickets', name: 'TICKETS', enabled: true, defaultValue: 5 },
   { id: 'notes', name: 'NOTES', enabled: true, defaultValue: 20 },
-  { id: 'tasks', name: 'TASKS', enabled: false, defaultValue: 0 },
-  { id: 'calls', name: 'CALLS', enabled: false, defaultValue: 0 },
+  { id: 'tasks', name: 'TASKS', enabled: true, defaultValue: 10 },
+  { id: 'calls', name: 'CALLS', enabled: true, defaultValue: 10 },
+  { id: 'meetings', name: 'MEETINGS', enabled: true, defaultValue: 5 },
+  { id: 'emails', name: 'EMAILS', enabled: true, defaultValue: 10 },
 ];
 
 export const saasConnections = [
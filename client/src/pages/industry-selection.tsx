@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useSession } from '@/hooks/use-session';
 import { useToast } from '@/hooks/use-toast';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 
 export default function IndustrySelection() {
@@ -11,7 +11,12 @@ export default function IndustrySelection() {
   const { toast } = useToast();
   const { user, session } = useSession();
 
-  const industries = [
+  // Industries with registered won/lost lifecycle templates on the server
+  const { data: templateRegistry } = useQuery<{ industries: string[] }>({
+    queryKey: ['/api/templates'],
+  });
+
+  const industryOptions = [
     { id: 'demo', name: 'Demo Mode', icon: '🎮', enabled: true, description: '1 hour quick demo' },
     { id: 'ecommerce', name: 'E-commerce', icon: '🛒', enabled: true, description: '90 day simulation' },
     { id: 'saas', name: 'SaaS', icon: '💻', enabled: false },
@@ -26,6 +31,10 @@ export default function IndustrySelection() {
     { id: 'salon', name: 'Salon/Spa', icon: '💇', enabled: false },
   ];
 
+  const industries = templateRegistry
+    ? industryOptions.map(industry => ({ ...industry, enabled: templateRegistry.industries.includes(industry.id) }))
+    : industryOptions;
+
   const updateSessionMutation = useMutation({
     mutationFn: async (industry: string) => {
       if (!user?.id) throw new Error('No user ID');
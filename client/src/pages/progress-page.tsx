@@ -8,6 +8,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { ChevronDown, ChevronUp, Trash2, Info, Clock, Timer, Target, Pause, Play, Square } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import type { SimulationWarning } from '@shared/schema';
 
 interface Simulation {
   id: number;
@@ -20,6 +21,8 @@ interface Simulation {
   completedAt?: string;
   creditsUsed: number;
   config: any;
+  results?: any;
+  warnings?: SimulationWarning[] | null;
 }
 
 // Live Timer Component
@@ -147,14 +150,16 @@ export default function ProgressPage() {
   });
 
   const resumeMutation = useMutation({
-    mutationFn: async (simulationId: number) => {
-      return apiRequest('POST', `/api/simulation/${simulationId}/resume`);
+    mutationFn: async ({ simulationId, mode }: { simulationId: number; mode: 'shift' | 'compress' }) => {
+      return apiRequest('POST', `/api/simulation/${simulationId}/resume`, { mode });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { mode }) => {
       queryClient.invalidateQueries({ queryKey: [`/api/user/${user?.id}/simulations`] });
       toast({
         title: "Simulation resumed",
-        description: "The simulation has been resumed.",
+        description: mode === 'compress'
+          ? "The remaining steps were compressed to finish on the original schedule."
+          : "The remaining steps were shifted by the paused time.",
       });
     },
     onError: () => {
@@ -255,6 +260,7 @@ export default function ProgressPage() {
                           <div className="flex items-center space-x-4">
                             <div className={`w-3 h-3 rounded-full ${
                               simulation.status === 'completed' ? 'bg-green-500' : 
+                              simulation.status === 'partially_failed' ? 'bg-orange-500' :
                               simulation.status === 'processing' ? 'bg-yellow-500' :
                               simulation.status === 'failed' ? 'bg-red-500' : 'bg-gray-500'
                             }`} />
@@ -270,12 +276,14 @@ export default function ProgressPage() {
                           <div className="flex items-center space-x-4">
                             <Badge variant="secondary" className={`font-mono border-2 ${
                               simulation.status === 'completed' ? 'bg-green-100 text-green-800 border-green-300' : 
+                              simulation.status === 'partially_failed' ? 'bg-orange-100 text-orange-800 border-orange-300' :
                               simulation.status === 'processing' ? 'bg-yellow-100 text-yellow-800 border-yellow-300' :
                               simulation.status === 'paused' ? 'bg-orange-100 text-orange-800 border-orange-300' :
                               simulation.status === 'stopped' ? 'bg-gray-100 text-gray-800 border-gray-300' :
                               simulation.status === 'failed' ? 'bg-red-100 text-red-800 border-red-300' : 'bg-gray-100 text-gray-800 border-gray-300'
                             }`}>
                               {simulation.status === 'completed' ? 'COMPLETE' :
+                               simulation.status === 'partially_failed' ? 'PARTIAL' :
                                simulation.status === 'processing' ? 'PROCESSING' :
                                simulation.status === 'paused' ? 'PAUSED' :
                                simulation.status === 'stopped' ? 'STOPPED' :
@@ -310,7 +318,7 @@ export default function ProgressPage() {
                                     size="sm"
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      resumeMutation.mutate(simulation.id);
+                                      resumeMutation.mutate({ simulationId: simulation.id, mode: 'shift' });
                                     }}
                                     disabled={resumeMutation.isPending}
                                     className="bg-green-100 hover:bg-green-200 text-green-700 border-green-300 font-mono text-xs px-2 py-1 h-6"
@@ -320,6 +328,23 @@ export default function ProgressPage() {
                                     RESUME
                                   </Button>
                                 )}
+                                {simulation.status === 'paused' && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      resumeMutation.mutate({ simulationId: simulation.id, mode: 'compress' });
+                                    }}
+                                    disabled={resumeMutation.isPending}
+                                    title="Resume and fit the remaining steps into the original end time"
+                                    className="bg-green-100 hover:bg-green-200 text-green-700 border-green-300 font-mono text-xs px-2 py-1 h-6"
+                                    data-testid={`button-resume-compress-${simulation.id}`}
+                                  >
+                                    <Play className="w-3 h-3 mr-1" />
+                                    COMPRESS
+                                  </Button>
+                                )}
                                 <Button
                                   variant="destructive"
                                   size="sm"
@@ -337,7 +362,7 @@ export default function ProgressPage() {
                               </div>
                             )}
                             {/* Log Button for Active Simulations */}
-                            {(simulation.status === 'processing' || simulation.status === 'paused' || simulation.status === 'completed' || simulation.status === 'failed') && (
+                            {(simulation.status === 'processing' || simulation.status === 'paused' || simulation.status === 'completed' || simulation.status === 'partially_failed' || simulation.status === 'failed') && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -425,7 +450,7 @@ export default function ProgressPage() {
                                     <span className="font-mono text-green-600">IN PROGRESS</span>
                                   </div>
                                 )}
-                                {simulation.status === 'completed' && (
+                                {(simulation.status === 'completed' || simulation.status === 'partially_failed') && (
                                   <div className="flex justify-between">
                                     <span>Completed:</span>
                                     <span className="font-mono">{simulation.completedAt ? new Date(simulation.completedAt).toLocaleDateString() : 'Unknown'}</span>
@@ -517,6 +542,67 @@ export default function ProgressPage() {
                             </div>
                           )}
 
+                          {/* HubSpot pipelines or owners changed while the simulation ran */}
+                          {simulation.warnings && simulation.warnings.length > 0 && (
+                            <div className="p-3 text-xs text-orange-800 bg-orange-50 border border-orange-200 rounded space-y-1" data-testid={`simulation-warnings-${simulation.id}`}>
+                              {simulation.warnings.map((warning, index) => (
+                                <div key={index}>
+                                  <span className="font-mono text-gray-600">{new Date(warning.detectedAt).toLocaleString()}</span> {warning.message}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
+                          {/* Final results summary - written when the last job step finishes */}
+                          {simulation.results?.summary && (
+                            <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 border border-gray-200 rounded">
+                              <div>
+                                <div className="text-sm mb-2 font-gameboy text-blue-900 font-bold">
+                                  RECORDS CREATED
+                                </div>
+                                <div className="space-y-1 text-xs text-gray-800">
+                                  {Object.entries(simulation.results.summary.recordsCreated).map(([type, count]) => (
+                                    <div key={type} className="flex justify-between">
+                                      <span className="capitalize">{type}:</span>
+                                      <span className="font-mono">{count as number}</span>
+                                    </div>
+                                  ))}
+                                  <div className="flex justify-between">
+                                    <span>Credits Used:</span>
+                                    <span className="font-mono">{simulation.results.summary.creditsUsed}</span>
+                                  </div>
+                                </div>
+                              </div>
+                              <div>
+                                <div className="text-sm mb-2 font-gameboy text-blue-900 font-bold">
+                                  RUN SUMMARY
+                                </div>
+                                <div className="space-y-1 text-xs text-gray-800">
+                                  <div className="flex justify-between">
+                                    <span>Steps Completed:</span>
+                                    <span className="font-mono">{simulation.results.summary.steps.completed}/{simulation.results.summary.steps.total}</span>
+                                  </div>
+                                  {Object.entries(simulation.results.summary.failures.byCategory).map(([category, count]) => (
+                                    <div key={category} className="flex justify-between text-red-700">
+                                      <span className="capitalize">{category.replace(/_/g, ' ')}:</span>
+                                      <span className="font-mono">{count as number}</span>
+                                    </div>
+                                  ))}
+                                  <div className="flex justify-between">
+                                    <span>Actual Duration:</span>
+                                    <span className="font-mono">{(simulation.results.summary.duration.actualMs / 3600000).toFixed(1)}h</span>
+                                  </div>
+                                  {simulation.results.summary.duration.plannedMs !== null && (
+                                    <div className="flex justify-between">
+                                      <span>Planned Duration:</span>
+                                      <span className="font-mono">{(simulation.results.summary.duration.plannedMs / 3600000).toFixed(1)}h</span>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
                           {/* AI Strategy Results - Only show for completed simulations */}
                           {simulation.status === 'completed' && simulation.config?.aiStrategy && (
                             <div className="p-4 bg-blue-50 border-2 border-blue-200 rounded">
@@ -2,7 +2,33 @@ import React, { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { useSession } from '@/hooks/use-session';
+import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { frequencies, customDurationUnits } from '@/lib/game-state';
+import LifecycleTemplatePicker from '@/components/lifecycle-template-picker';
+import CrmTargetsPicker from '@/components/crm-targets-picker';
+import type { SimulationConfig } from '@shared/schema';
+
+interface SimulationEstimate {
+  totalSteps: number;
+  totalHubSpotCalls: number;
+  spanHours: number;
+  stepsPerHour: number;
+  callsPerMinute: number;
+  peakCallsPer10Seconds: number;
+  burstLimitPer10Seconds: number;
+  exceedsBurstLimit: boolean;
+}
+
+// Human readable duration for a number of days
+function formatDuration(days: number): string {
+  const minutes = Math.round(days * 24 * 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60 * 10) / 10;
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const wholeDays = Math.round(days * 10) / 10;
+  return `${wholeDays} days`;
+}
 
 export default function RecordFrequency() {
   const [, setLocation] = useLocation();
@@ -12,28 +38,59 @@ export default function RecordFrequency() {
   const [autoMode, setAutoMode] = useState(true); // Always auto mode for free tier
   const [totalSets, setTotalSets] = useState(36); // Total sets (1-36)
   const [recordsPerSet, setRecordsPerSet] = useState(1); // Records per set
-  const [values, setValues] = useState([1, 1, 1, 1, 5]); // Individual records per set
+  const [values, setValues] = useState([1, 1, 1, 1, 5, 1, 1, 1, 1]); // Individual records per set
   const [customObjects, setCustomObjects] = useState(false);
   const [customFields, setCustomFields] = useState(false);
-  const [specificOwnership, setSpecificOwnership] = useState(false);
   const [distributionWeights, setDistributionWeights] = useState(false);
+  const [customTemplateName, setCustomTemplateName] = useState(''); // Empty = built-in template
+  const [frequencyId, setFrequencyId] = useState('template'); // 'template' = the template's own cycle
+  const [customAmount, setCustomAmount] = useState(30);
+  const [customUnit, setCustomUnit] = useState('minutes');
+  const [backfill, setBackfill] = useState(false); // Write the whole schedule in the past right away
+  const [productCatalog, setProductCatalog] = useState<'' | 'generated' | 'portal'>(''); // Line items on deals
+  const [crmTargets, setCrmTargets] = useState<SimulationConfig['crmTargets']>(); // Undefined = default pipelines, any owner
   
-  const labels = ['Contacts', 'Companies', 'Deals', 'Tickets', 'Notes'];
-  const disabledLabels = ['Tasks', 'Calls'];
+  const labels = ['Contacts', 'Companies', 'Deals', 'Tickets', 'Notes', 'Tasks', 'Calls', 'Meetings', 'Emails'];
   
   // Calculate duration based on industry
   const industry = session?.selectedIndustry || 'demo';
-  const duration = industry === 'ecommerce' ? '90 days' : '1 hour';
-  const durationDays = industry === 'ecommerce' ? 90 : 0.042; // 1 hour = 0.042 days
+  // Lifecycle templates default to a 90 day cycle and the demo template to 1 hour; any template can be rescaled
+  const lifecycleMode = industry !== 'demo' || !!customTemplateName;
+  const templateDurationDays = lifecycleMode ? 90 : 1 / 24;
+  const selectedFrequency = frequencies.find(frequency => frequency.id === frequencyId);
+  const customUnitDays = customDurationUnits.find(unit => unit.id === customUnit)?.days || 1;
+  const durationDays = frequencyId === 'custom'
+    ? Math.min(Math.max(customAmount * customUnitDays, 1 / (24 * 60)), 365)
+    : selectedFrequency?.durationDays || templateDurationDays;
+  const duration = formatDuration(durationDays);
   
   // Calculate total records
   const totalRecords = totalSets * values.reduce((a, b) => a + b, 0);
   const maxTotal = industry === 'demo' ? 600 : 450; // Demo mode allows more records
   const recordsDisplay = `${totalRecords} / ${maxTotal} total`;
 
+  // Step density and HubSpot call rate for the current settings
+  const { data: estimate } = useQuery<SimulationEstimate>({
+    queryKey: ['/api/simulation/estimate', industry, durationDays, totalSets, customTemplateName],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/simulation/estimate', {
+        userId: user?.id,
+        settings: {
+          theme: session?.selectedTheme,
+          industry,
+          duration_days: durationDays,
+          totalSets,
+          ...(customTemplateName ? { customTemplate: { name: customTemplateName } } : {})
+        }
+      });
+      return response.json();
+    },
+    enabled: !!user?.id,
+  });
+
   useEffect(() => {
     if (autoMode) {
-      const newValues = Array(5).fill(recordsPerSet);
+      const newValues = Array(labels.length).fill(recordsPerSet);
       setValues(newValues);
     }
   }, [recordsPerSet, autoMode]);
@@ -43,7 +100,7 @@ export default function RecordFrequency() {
     
     const val = parseInt(newValue.toString());
     const newValues = [...values];
-    const otherIndices = [0, 1, 2, 3, 4].filter(i => i !== index);
+    const otherIndices = labels.map((_, i) => i).filter(i => i !== index);
     const currentOthersSum = otherIndices.reduce((sum, i) => sum + newValues[i], 0);
     
     if (val + currentOthersSum <= maxTotal) {
@@ -63,7 +120,7 @@ export default function RecordFrequency() {
   
   const handleRecordsPerSetChange = (newValue: number) => {
     const val = parseInt(newValue.toString());
-    const maxPerRecord = Math.floor(maxTotal / (totalSets * 5)); // Distribute evenly
+    const maxPerRecord = Math.floor(maxTotal / (totalSets * labels.length)); // Distribute evenly
     const limitedValue = Math.min(val, maxPerRecord);
     setRecordsPerSet(limitedValue);
   };
@@ -111,15 +168,24 @@ export default function RecordFrequency() {
       industry: session.selectedIndustry, 
       duration_days: durationDays,
       timeSpan: duration,
+      frequency: frequencyId,
       record_distribution: {
         contacts: totalSets * values[0],
         companies: totalSets * values[1],
         deals: totalSets * values[2],
         tickets: totalSets * values[3],
-        notes: totalSets * values[4]
+        notes: totalSets * values[4],
+        tasks: totalSets * values[5],
+        calls: totalSets * values[6],
+        meetings: totalSets * values[7],
+        emails: totalSets * values[8]
       },
       totalSets,
-      recordsPerSet: values
+      recordsPerSet: values,
+      backfill,
+      ...(productCatalog ? { productCatalog: { source: productCatalog } } : {}),
+      ...(crmTargets ? { crmTargets } : {}),
+      ...(customTemplateName ? { customTemplate: { name: customTemplateName } } : {})
     };
 
     console.log('Simulation settings being sent:', simulationSettings);
@@ -197,7 +263,7 @@ export default function RecordFrequency() {
 
           .sliders-grid {
             display: grid;
-            grid-template-columns: repeat(8, 1fr);
+            grid-template-columns: repeat(10, 1fr);
             gap: 15px;
             margin-bottom: 30px;
             padding: 20px;
@@ -572,6 +638,50 @@ export default function RecordFrequency() {
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <div style={{ flex: 1 }}>
               <label className="timespan-label text-[16px]">Duration:</label>
+              <select
+                className="timespan-dropdown"
+                value={frequencyId}
+                onChange={(e) => setFrequencyId(e.target.value)}
+                style={{ marginLeft: '10px' }}
+                data-testid="select-duration"
+              >
+                <option value="template">TEMPLATE ({formatDuration(templateDurationDays).toUpperCase()})</option>
+                {frequencies.map(frequency => (
+                  <option key={frequency.id} value={frequency.id} disabled={!frequency.enabled}>{frequency.name}</option>
+                ))}
+              </select>
+              {frequencyId === 'custom' && (
+                <span style={{ marginLeft: '10px' }}>
+                  <input
+                    type="number"
+                    min="1"
+                    value={customAmount}
+                    onChange={(e) => setCustomAmount(Math.max(1, parseInt(e.target.value) || 1))}
+                    style={{
+                      padding: '8px',
+                      border: '2px solid #e8e8e8',
+                      background: '#2d3748',
+                      color: '#e8e8e8',
+                      fontSize: '16px',
+                      fontWeight: 'bold',
+                      width: '70px',
+                      textAlign: 'center'
+                    }}
+                    data-testid="input-custom-duration"
+                  />
+                  <select
+                    className="timespan-dropdown"
+                    value={customUnit}
+                    onChange={(e) => setCustomUnit(e.target.value)}
+                    style={{ marginLeft: '6px', minWidth: '90px' }}
+                    data-testid="select-custom-duration-unit"
+                  >
+                    {customDurationUnits.map(unit => (
+                      <option key={unit.id} value={unit.id}>{unit.name}</option>
+                    ))}
+                  </select>
+                </span>
+              )}
               <div style={{
                 display: 'inline-block',
                 marginLeft: '10px',
@@ -632,14 +742,26 @@ export default function RecordFrequency() {
               color: '#e8e8e8',
               border: '1px solid #e8e8e8'
             }}>
-              {industry === 'demo' 
-                ? 'Demo Mode: Creates records in rapid succession over 1 hour. Great for testing!'
-                : 'E-commerce Mode: Spreads records over 90 days following realistic business patterns.'}
+              {lifecycleMode
+                ? `Lifecycle Mode: Spreads records over ${duration} following realistic business patterns.`
+                : `Demo Mode: Creates records in rapid succession over ${duration}. Great for testing!`}
               Adjust Total Sets to control how many batches of records are created.
             </div>
           </div>
         </div>
 
+        {/* Step density and expected HubSpot call rate */}
+        {estimate && (
+          <div
+            style={{ textAlign: 'center', marginBottom: '20px', color: estimate.exceedsBurstLimit ? '#fbbf24' : '#e8e8e8', fontSize: '14px', fontWeight: 'bold' }}
+            data-testid="text-simulation-estimate"
+          >
+            {estimate.totalSteps} steps over {formatDuration(estimate.spanHours / 24)} · {estimate.stepsPerHour.toFixed(1)} steps/hour ·
+            ~{estimate.callsPerMinute.toFixed(1)} HubSpot calls/min (peak {estimate.peakCallsPer10Seconds} per 10s)
+            {estimate.exceedsBurstLimit && ` · exceeds HubSpot's ${estimate.burstLimitPer10Seconds} per 10s limit, calls will be throttled`}
+          </div>
+        )}
+
         <div className="sliders-grid bg-[#9fb89f]">
           {/* Total Sets Slider - # of Leads */}
           <div className="slider-column">
@@ -709,20 +831,27 @@ export default function RecordFrequency() {
               <div className="tooltip">Manual adjustment available with Level 2 subscription</div>
             </div>
           ))}
-
-          {/* Disabled Sliders */}
-          {disabledLabels.map((label, index) => (
-            <div key={`disabled-${index}`} className="slider-column disabled">
-              <div className="slider-value">0</div>
-              <div className="slider-container">
-                <div className="slider-track disabled-track"></div>
-                <div className="slider-thumb disabled-thumb" style={{ bottom: '0%' }} />
-              </div>
-              <div className="slider-label">{label}</div>
-            </div>
-          ))}
         </div>
 
+        {/* Lifecycle Template */}
+        {user && (
+          <LifecycleTemplatePicker
+            userId={user.id}
+            industry={industry}
+            value={customTemplateName}
+            onChange={setCustomTemplateName}
+          />
+        )}
+
+        {/* Pipelines & Owners */}
+        {user && (
+          <CrmTargetsPicker
+            userId={user.id}
+            value={crmTargets}
+            onChange={setCrmTargets}
+          />
+        )}
+
         {/* Additional Options */}
         <div className="additional-options">
           <div className="options-title text-[18px]">Additional Options</div>
@@ -747,24 +876,44 @@ export default function RecordFrequency() {
               <div className="tooltip">Custom Fields available with Level 2 subscription</div>
             </div>
             
-            <div className="option-item tooltip-container" title="Specific Ownership requires Level 2 subscription">
+            <div className="option-item tooltip-container" title="Distribution Weights requires Level 2 subscription">
               <div 
                 className="option-checkbox"
                 style={{ opacity: 0.5, cursor: 'not-allowed' }}
               />
-              <div className="option-label">Specific Ownership</div>
+              <div className="option-label">Distribution Weights</div>
               <div className="locked-indicator">Requires Level 2</div>
-              <div className="tooltip">Specific Ownership available with Level 2 subscription</div>
+              <div className="tooltip">Distribution Weights available with Level 2 subscription</div>
             </div>
             
-            <div className="option-item tooltip-container" title="Distribution Weights requires Level 2 subscription">
+            <div className="option-item tooltip-container" title="Create the full history now, dated in the past">
               <div 
-                className="option-checkbox"
-                style={{ opacity: 0.5, cursor: 'not-allowed' }}
+                className={`option-checkbox ${backfill ? 'checked' : ''}`}
+                onClick={() => setBackfill(!backfill)}
+                data-testid="checkbox-backfill"
               />
-              <div className="option-label">Distribution Weights</div>
-              <div className="locked-indicator">Requires Level 2</div>
-              <div className="tooltip">Distribution Weights available with Level 2 subscription</div>
+              <div className="option-label">Historical Backfill</div>
+              <div className="tooltip">Runs every step immediately with record dates spread over the past {duration}</div>
+            </div>
+            
+            <div className="option-item tooltip-container" title="Price deals with line items from a generated product catalog">
+              <div 
+                className={`option-checkbox ${productCatalog === 'generated' ? 'checked' : ''}`}
+                onClick={() => setProductCatalog(productCatalog === 'generated' ? '' : 'generated')}
+                data-testid="checkbox-generated-products"
+              />
+              <div className="option-label">Generated Products</div>
+              <div className="tooltip">Creates a product catalog for this theme once and adds line items to every deal</div>
+            </div>
+            
+            <div className="option-item tooltip-container" title="Price deals with line items from your HubSpot products">
+              <div 
+                className={`option-checkbox ${productCatalog === 'portal' ? 'checked' : ''}`}
+                onClick={() => setProductCatalog(productCatalog === 'portal' ? '' : 'portal')}
+                data-testid="checkbox-portal-products"
+              />
+              <div className="option-label">Portal Products</div>
+              <div className="tooltip">Adds line items to every deal from the products already in your portal</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateCrmTargets, normalizeCrmTargets, pickWeightedOwner } from './crm-targets';
+
+const known = { dealPipelineIds: ['default', 'enterprise'], ticketPipelineIds: ['0'], ownerIds: ['101', '102'] };
+
+test('valid targets pass and missing targets are allowed', () => {
+  assert.deepEqual(validateCrmTargets(undefined, known), []);
+  assert.deepEqual(validateCrmTargets({ dealPipelineId: 'enterprise', ticketPipelineId: '0', owners: [{ id: '101', weight: 3 }, { id: 102, weight: 1 }] }, known), []);
+});
+
+test('pipelines and owners are checked against the portal once its cache is filled', () => {
+  assert.deepEqual(validateCrmTargets({ dealPipelineId: 'missing', owners: [{ id: '999', weight: 1 }] }, known), [
+    "dealPipelineId 'missing' is not a pipeline in the connected portal",
+    'Owner 999 is not an active owner in the connected portal'
+  ]);
+  assert.deepEqual(validateCrmTargets({ dealPipelineId: 'missing', owners: [{ id: '999', weight: 1 }] }, { dealPipelineIds: [], ticketPipelineIds: [], ownerIds: [] }), []);
+});
+
+test('malformed, duplicate and out of range owners are reported', () => {
+  assert.deepEqual(validateCrmTargets([], known), ['crmTargets must be an object']);
+  assert.deepEqual(validateCrmTargets({ owners: 'everyone' }, known), ['owners must be a list of { id, weight }']);
+  assert.deepEqual(validateCrmTargets({ owners: [{ id: 'alice', weight: 1 }, { id: '101', weight: 0 }, { id: '101', weight: 11 }] }, known), [
+    "Owner 'alice' is not a HubSpot owner ID",
+    'Owner 101 weight must be a number above 0 and at most 10',
+    'Owner 101 is listed more than once',
+    'Owner 101 weight must be a number above 0 and at most 10'
+  ]);
+});
+
+test('normalized targets keep only what was set, with owner IDs as strings', () => {
+  assert.equal(normalizeCrmTargets({ dealPipelineId: '', owners: [] }), undefined);
+  assert.deepEqual(normalizeCrmTargets({ ticketPipelineId: '0', owners: [{ id: 101, weight: 2 }] }), { ticketPipelineId: '0', owners: [{ id: '101', weight: 2 }] });
+});
+
+test('owners are picked in proportion to their weights', () => {
+  const owners = [{ id: '101', weight: 3 }, { id: '102', weight: 1 }];
+  assert.equal(pickWeightedOwner(owners, () => 0), '101');
+  assert.equal(pickWeightedOwner(owners, () => 0.74), '101');
+  assert.equal(pickWeightedOwner(owners, () => 0.75), '102');
+  assert.equal(pickWeightedOwner(owners, () => 0.999), '102');
+  assert.equal(pickWeightedOwner([], () => 0.5), null);
+  assert.equal(pickWeightedOwner(undefined, () => 0.5), null);
+
+  const counts: Record<string, number> = { '101': 0, '102': 0 };
+  for (let i = 0; i < 1000; i++) {
+    counts[pickWeightedOwner(owners, () => i / 1000)!]++;
+  }
+  assert.deepEqual(counts, { '101': 750, '102': 250 });
+});
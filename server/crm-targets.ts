@@ -0,0 +1,99 @@
+/**
+ * CRM Targets
+ * The deal and ticket pipelines a simulation creates records in and the HubSpot owners
+ * its records are assigned to, chosen during setup and saved on the simulation config
+ */
+
+import type { SimulationConfig } from '../shared/schema';
+
+export type CrmTargets = NonNullable<SimulationConfig['crmTargets']>;
+export type OwnerWeight = NonNullable<CrmTargets['owners']>[number];
+
+// Highest weight an owner can be given; weights are relative, so 1-10 is plenty of range
+export const MAX_OWNER_WEIGHT = 10;
+
+/**
+ * Validate user supplied CRM targets, returning a list of problems (empty when valid).
+ * `known` holds the portal's cached pipeline and owner IDs; IDs are only checked against
+ * lists that are not empty, so a portal whose cache is not filled yet is not rejected.
+ */
+export function validateCrmTargets(
+  targets: any,
+  known: { dealPipelineIds: string[]; ticketPipelineIds: string[]; ownerIds: string[] }
+): string[] {
+  const problems: string[] = [];
+  if (targets === undefined || targets === null) return problems;
+
+  if (typeof targets !== 'object' || Array.isArray(targets)) {
+    return ['crmTargets must be an object'];
+  }
+
+  const checkPipeline = (field: 'dealPipelineId' | 'ticketPipelineId', knownIds: string[]) => {
+    const pipelineId = targets[field];
+    if (pipelineId === undefined || pipelineId === null || pipelineId === '') return;
+    if (typeof pipelineId !== 'string') {
+      problems.push(`${field} must be a HubSpot pipeline ID`);
+    } else if (knownIds.length > 0 && !knownIds.includes(pipelineId)) {
+      problems.push(`${field} '${pipelineId}' is not a pipeline in the connected portal`);
+    }
+  };
+  checkPipeline('dealPipelineId', known.dealPipelineIds);
+  checkPipeline('ticketPipelineId', known.ticketPipelineIds);
+
+  if (targets.owners !== undefined && targets.owners !== null) {
+    if (!Array.isArray(targets.owners)) {
+      problems.push('owners must be a list of { id, weight }');
+    } else {
+      const seen = new Set<string>();
+      for (const owner of targets.owners) {
+        const id = String(owner?.id ?? '');
+        const weight = owner?.weight;
+        if (!/^\d+$/.test(id)) {
+          problems.push(`Owner '${owner?.id}' is not a HubSpot owner ID`);
+        } else if (known.ownerIds.length > 0 && !known.ownerIds.includes(id)) {
+          problems.push(`Owner ${id} is not an active owner in the connected portal`);
+        } else if (seen.has(id)) {
+          problems.push(`Owner ${id} is listed more than once`);
+        }
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0 || weight > MAX_OWNER_WEIGHT) {
+          problems.push(`Owner ${id} weight must be a number above 0 and at most ${MAX_OWNER_WEIGHT}`);
+        }
+        seen.add(id);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Keep only the targets that were set, with owner IDs as strings
+ */
+export function normalizeCrmTargets(targets: any): CrmTargets | undefined {
+  if (!targets) return undefined;
+
+  const normalized: CrmTargets = {};
+  if (targets.dealPipelineId) normalized.dealPipelineId = targets.dealPipelineId;
+  if (targets.ticketPipelineId) normalized.ticketPipelineId = targets.ticketPipelineId;
+  if (Array.isArray(targets.owners) && targets.owners.length > 0) {
+    normalized.owners = targets.owners.map((owner: any) => ({ id: String(owner.id), weight: owner.weight }));
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Pick an owner with probability proportional to its weight
+ */
+export function pickWeightedOwner(owners: OwnerWeight[] | undefined, random: () => number): string | null {
+  if (!owners || owners.length === 0) return null;
+
+  const totalWeight = owners.reduce((sum, owner) => sum + owner.weight, 0);
+  let remaining = random() * totalWeight;
+  for (const owner of owners) {
+    remaining -= owner.weight;
+    if (remaining < 0) {
+      return owner.id;
+    }
+  }
+  return owners[owners.length - 1].id;
+}
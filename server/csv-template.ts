@@ -0,0 +1,277 @@
+/**
+ * CSV Template Loader
+ * RFC 4180 parsing for lifecycle and demo mode templates. Header columns are
+ * mapped to typed rows and every problem is reported with its source line.
+ */
+
+import { parse } from 'csv-parse/sync';
+
+// Lifecycle template structure
+export interface CsvRow {
+  templateDay: number;
+  typeOfAction: string;
+  recordType: string;
+  recordIdTpl: string;
+  associationsTpl: string;
+  originalSource: string;
+  actionTpl: string;
+  reasonTpl: string;
+}
+
+// Demo mode template structure
+export interface DemoCsvRow {
+  simulationId: string;
+  setId: string;
+  timeToCreate: number;
+  actionId: number;
+  typeOfAction: string;
+  recordType: string;
+  recordId: string;
+  associationType: string;
+  associationTypeId: string;
+  associatedRecordId: string;
+  payload: string;
+  details: string;
+}
+
+export type TemplateKind = 'lifecycle' | 'demo';
+
+// Steps that write a new record: create_<type>, log_<engagement>, or a lifecycle "Create" naming its record type
+const CREATE_ACTION_PATTERN = /^(create|log)(_|$)/i;
+
+/**
+ * Whether a step's action creates a record
+ */
+export function isCreateAction(typeOfAction: string | null | undefined): boolean {
+  return CREATE_ACTION_PATTERN.test(typeOfAction || '');
+}
+
+/**
+ * Lower case record type a create step makes, e.g. create_company -> company, log_call -> call,
+ * Create/Deal -> deal
+ */
+export function getCreatedRecordType(typeOfAction: string | null | undefined, recordType: string | null | undefined): string {
+  return ((typeOfAction || '').replace(CREATE_ACTION_PATTERN, '') || recordType || '').toLowerCase();
+}
+
+// A problem found in a template; line is omitted for template-level problems
+export interface TemplateIssue {
+  line?: number;
+  column?: string;
+  message: string;
+}
+
+export interface TemplateParseResult<T> {
+  rows: T[];
+  // Source line of each row, parallel to rows
+  lines: number[];
+  errors: TemplateIssue[];
+}
+
+interface ColumnSpec<T> {
+  key: keyof T;
+  // Normalized header text (lowercase, parenthetical hints removed)
+  header: string;
+  required?: boolean;
+  integer?: boolean;
+  json?: boolean;
+}
+
+const LIFECYCLE_COLUMNS: ColumnSpec<CsvRow>[] = [
+  { key: 'templateDay', header: 'day #', required: true, integer: true },
+  { key: 'typeOfAction', header: 'type of action', required: true },
+  { key: 'recordType', header: 'record type', required: true },
+  { key: 'recordIdTpl', header: 'record #' },
+  { key: 'associationsTpl', header: 'associations' },
+  { key: 'originalSource', header: 'original source' },
+  { key: 'actionTpl', header: 'action' },
+  { key: 'reasonTpl', header: 'reason' }
+];
+
+const DEMO_COLUMNS: ColumnSpec<DemoCsvRow>[] = [
+  { key: 'simulationId', header: 'simulationid' },
+  { key: 'setId', header: 'setid', required: true },
+  { key: 'timeToCreate', header: 'timetocreate', required: true, integer: true },
+  { key: 'actionId', header: 'actionid', integer: true },
+  { key: 'typeOfAction', header: 'typeofaction', required: true },
+  { key: 'recordType', header: 'recordtype', required: true },
+  { key: 'recordId', header: 'recordid', required: true },
+  { key: 'associationType', header: 'associationtype' },
+  { key: 'associationTypeId', header: 'associationtypeid' },
+  { key: 'associatedRecordId', header: 'associatedrecordid' },
+  { key: 'payload', header: 'payload', json: true },
+  { key: 'details', header: 'details' }
+];
+
+function normalizeHeader(header: string): string {
+  return header.replace(/\([^)]*\)/g, '').trim().toLowerCase();
+}
+
+/**
+ * Split CSV content into records, keeping the line each record starts on
+ */
+function readRecords(csvContent: string): { records: Array<{ line: number; values: string[] }>; error?: TemplateIssue } {
+  try {
+    // Line each record ends on; quoted fields may span lines
+    const endLines: number[] = [];
+    const parsed = parse(csvContent, {
+      bom: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+      record_delimiter: ['\r\n', '\n'],
+      on_record: (record, context) => {
+        endLines.push(context.lines);
+        return record;
+      }
+    });
+
+    return {
+      records: parsed.map((record, index) => {
+        const embeddedNewlines = record.reduce((count, value) => count + (value.match(/\n/g)?.length || 0), 0);
+        return { line: endLines[index] - embeddedNewlines, values: record };
+      })
+    };
+  } catch (error: any) {
+    return {
+      records: [],
+      error: { line: typeof error.lines === 'number' ? error.lines : undefined, message: error.message }
+    };
+  }
+}
+
+/**
+ * Parse CSV content against a column spec. Rows with problems are left out of
+ * the result and reported in errors instead.
+ */
+function parseTemplate<T>(csvContent: string, columns: ColumnSpec<T>[]): TemplateParseResult<T> {
+  const result: TemplateParseResult<T> = { rows: [], lines: [], errors: [] };
+  const { records, error } = readRecords(csvContent);
+
+  if (error) {
+    result.errors.push(error);
+    return result;
+  }
+
+  if (records.length === 0) {
+    result.errors.push({ message: 'Template is empty' });
+    return result;
+  }
+
+  // Map spec columns to header positions
+  const [header, ...dataRecords] = records;
+  const headers = header.values.map(normalizeHeader);
+  const positions = new Map<keyof T, number>();
+
+  for (const column of columns) {
+    const index = headers.indexOf(column.header);
+    if (index === -1) {
+      if (column.required) {
+        result.errors.push({ line: header.line, column: column.header, message: `Missing required column '${column.header}'` });
+      }
+      continue;
+    }
+    positions.set(column.key, index);
+  }
+
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  for (const { line, values } of dataRecords) {
+    if (values.length !== headers.length) {
+      result.errors.push({ line, message: `Expected ${headers.length} columns but found ${values.length}` });
+      continue;
+    }
+
+    const row = {} as Record<keyof T, string | number>;
+    let rowValid = true;
+
+    for (const column of columns) {
+      const index = positions.get(column.key);
+      const value = index === undefined ? '' : values[index].trim();
+
+      if (column.required && !value) {
+        result.errors.push({ line, column: column.header, message: `Missing value for '${column.header}'` });
+        rowValid = false;
+        continue;
+      }
+
+      if (column.integer) {
+        if (value && !/^-?\d+$/.test(value)) {
+          result.errors.push({ line, column: column.header, message: `'${column.header}' must be a whole number, got '${value}'` });
+          rowValid = false;
+          continue;
+        }
+        row[column.key] = value ? parseInt(value, 10) : 0;
+        continue;
+      }
+
+      if (column.json && value) {
+        try {
+          JSON.parse(value);
+        } catch (jsonError: any) {
+          result.errors.push({ line, column: column.header, message: `'${column.header}' is not valid JSON: ${jsonError.message}` });
+          rowValid = false;
+          continue;
+        }
+      }
+
+      row[column.key] = value;
+    }
+
+    if (rowValid) {
+      result.rows.push(row as T);
+      result.lines.push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a lifecycle (won/lost cycle) template
+ */
+export function parseLifecycleTemplate(csvContent: string): TemplateParseResult<CsvRow> {
+  const result = parseTemplate(csvContent, LIFECYCLE_COLUMNS);
+
+  result.rows.forEach((row, index) => {
+    if (row.templateDay < 0) {
+      result.errors.push({ line: result.lines[index], column: 'day #', message: `Negative template day ${row.templateDay}` });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Parse a demo mode (timed sets) template
+ */
+export function parseDemoTemplate(csvContent: string): TemplateParseResult<DemoCsvRow> {
+  const result = parseTemplate(csvContent, DEMO_COLUMNS);
+
+  result.rows.forEach((row, index) => {
+    if (row.timeToCreate < 0) {
+      result.errors.push({ line: result.lines[index], column: 'timetocreate', message: `Negative timeToCreate ${row.timeToCreate}` });
+    }
+    if (!row.payload) {
+      row.payload = '{}';
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Guess the template kind from its header row
+ */
+export function detectTemplateKind(csvContent: string): TemplateKind {
+  const firstLine = csvContent.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || '';
+  return firstLine.toLowerCase().includes('timetocreate') ? 'demo' : 'lifecycle';
+}
+
+/**
+ * Render issues as human readable strings
+ */
+export function formatTemplateIssues(issues: TemplateIssue[]): string[] {
+  return issues.map(issue => issue.line !== undefined ? `Line ${issue.line}: ${issue.message}` : issue.message);
+}
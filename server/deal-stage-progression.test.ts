@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { orderPipelineStages, parseDealMilestone, progressDealStage, PipelineStageInput } from './deal-stage-progression';
+
+// HubSpot's default sales pipeline as the pipelines API returns it: metadata values are strings
+const salesPipeline: PipelineStageInput[] = [
+  { id: 'closedlost', label: 'Closed Lost', displayOrder: 6, metadata: { isClosed: 'true', probability: '0.0' } },
+  { id: 'appointmentscheduled', label: 'Appointment Scheduled', displayOrder: 0, metadata: { isClosed: 'false', probability: '0.2' } },
+  { id: 'qualifiedtobuy', label: 'Qualified To Buy', displayOrder: 1, metadata: { isClosed: 'false', probability: '0.4' } },
+  { id: 'presentationscheduled', label: 'Presentation Scheduled', displayOrder: 2, metadata: { isClosed: 'false', probability: '0.6' } },
+  { id: 'decisionmakerboughtin', label: 'Decision Maker Bought-In', displayOrder: 3, metadata: { isClosed: 'false', probability: '0.8' } },
+  { id: 'contractsent', label: 'Contract Sent', displayOrder: 4, metadata: { isClosed: 'false', probability: '0.9' } },
+  { id: 'closedwon', label: 'Closed Won', displayOrder: 5, metadata: { isClosed: 'true', probability: '1.0' } }
+];
+
+test('pipeline stages are ordered and closed stages read from string metadata', () => {
+  const stages = orderPipelineStages(salesPipeline);
+  assert.deepEqual(stages.open.map(stage => stage.id), ['appointmentscheduled', 'qualifiedtobuy', 'presentationscheduled', 'decisionmakerboughtin', 'contractsent']);
+  assert.equal(stages.won?.id, 'closedwon');
+  assert.equal(stages.lost?.id, 'closedlost');
+  assert.equal(stages.open[0].probability, 0.2);
+  assert.equal(stages.open[0].isClosed, false);
+});
+
+test('closed stages are found by probability before their labels', () => {
+  const stages = orderPipelineStages([
+    { id: 'open', label: 'Open', displayOrder: 0, metadata: { isClosed: false, probability: 0.5 } },
+    { id: 'signed', label: 'Signed', displayOrder: 1, metadata: { isClosed: true, probability: 1 } },
+    { id: 'gone', label: 'Gone', displayOrder: 2, metadata: { isClosed: 'true', probability: '0' } }
+  ]);
+  assert.equal(stages.won?.id, 'signed');
+  assert.equal(stages.lost?.id, 'gone');
+});
+
+test('"Qualified Lead" is read as qualified, not as a new lead', () => {
+  const stages = orderPipelineStages(salesPipeline);
+  assert.deepEqual(parseDealMilestone('Qualified Lead', stages), { kind: 'open', index: 1 });
+  assert.deepEqual(parseDealMilestone('New lead', stages), { kind: 'open', index: 0 });
+  assert.deepEqual(parseDealMilestone('contractsent', stages), { kind: 'open', index: 4 });
+  assert.deepEqual(parseDealMilestone('Closed Lost', stages), { kind: 'closed', outcome: 'lost' });
+  assert.equal(parseDealMilestone('Send a thank you card', stages), null);
+});
+
+test('deals only move forward along the open stages', () => {
+  const stages = orderPipelineStages(salesPipeline);
+
+  const forward = progressDealStage(stages, 'qualifiedtobuy', 'proposal');
+  assert.equal(forward.stageId, 'decisionmakerboughtin');
+  assert.equal(forward.changed, true);
+
+  const backward = progressDealStage(stages, 'presentationscheduled', 'Qualified Lead');
+  assert.equal(backward.stageId, 'presentationscheduled');
+  assert.equal(backward.changed, false);
+
+  const closed = progressDealStage(stages, 'closedwon', 'Contract Sent');
+  assert.equal(closed.stageId, 'closedwon');
+  assert.equal(closed.changed, false);
+});
+
+test('new deals start on an open stage even when a close is asked for', () => {
+  const stages = orderPipelineStages(salesPipeline);
+  assert.equal(progressDealStage(stages, undefined, 'demo').stageId, 'presentationscheduled');
+  assert.equal(progressDealStage(stages, undefined, 'Closed Won').stageId, 'appointmentscheduled');
+});
+
+test('a close follows the job outcome rather than the close the template names', () => {
+  const stages = orderPipelineStages(salesPipeline);
+
+  const lost = progressDealStage(stages, 'contractsent', 'Closed Won', 'lost');
+  assert.equal(lost.stageId, 'closedlost');
+  assert.equal(lost.closed, true);
+
+  const won = progressDealStage(stages, 'contractsent', 'closedlost', 'won');
+  assert.equal(won.stageId, 'closedwon');
+
+  // Without an outcome the template's close stands
+  assert.equal(progressDealStage(stages, 'contractsent', 'Closed Lost').stageId, 'closedlost');
+});
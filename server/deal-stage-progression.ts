@@ -0,0 +1,177 @@
+/**
+ * Deal Stage Progression
+ * Maps the stage milestones templates ask for ("qualified", "proposal", "closed won") onto
+ * the ordered stages of the deal's actual pipeline. Deals only ever move forward, and a
+ * close lands in the closed stage that matches the job's outcome.
+ */
+
+export interface PipelineStageInput {
+  id: string;
+  label: string;
+  displayOrder: number;
+  // HubSpot returns stage metadata values as strings ("true", "0.2")
+  metadata?: { isClosed?: boolean | string; probability?: number | string };
+}
+
+export interface ProgressionStage {
+  id: string;
+  label: string;
+  displayOrder: number;
+  isClosed: boolean;
+  probability: number | null;
+}
+
+export interface OrderedPipelineStages {
+  // Open stages in displayOrder, the path a deal moves along
+  open: ProgressionStage[];
+  won?: ProgressionStage;
+  lost?: ProgressionStage;
+  all: ProgressionStage[];
+}
+
+export type DealMilestone =
+  | { kind: 'open'; index: number }
+  | { kind: 'closed'; outcome: 'won' | 'lost' };
+
+export interface StageProgression {
+  stageId: string | null;
+  changed: boolean;
+  closed: boolean;
+  reason: string;
+}
+
+// Where each milestone sits along a pipeline's open stages, from first (0) to last (1).
+// Checked from the latest milestone back so "Qualified Lead" is not read as a new lead.
+const OPEN_MILESTONES: Array<{ pattern: RegExp; position: number }> = [
+  { pattern: /contract|negotiat/i, position: 1 },
+  { pattern: /proposal|quote/i, position: 0.75 },
+  { pattern: /decision|bought.?in/i, position: 0.75 },
+  { pattern: /presentation|demo/i, position: 0.5 },
+  { pattern: /qualif/i, position: 0.25 },
+  { pattern: /appointment|opportunit|discovery|\bnew\b|lead/i, position: 0 }
+];
+
+const WON_PATTERN = /closed.?won|\bwon\b/i;
+const LOST_PATTERN = /closed.?lost|\blost\b/i;
+
+function normalizeStage(stage: PipelineStageInput): ProgressionStage {
+  const probability = parseFloat(String(stage.metadata?.probability ?? ''));
+  return {
+    id: String(stage.id),
+    label: stage.label,
+    displayOrder: Number(stage.displayOrder) || 0,
+    isClosed: String(stage.metadata?.isClosed) === 'true',
+    probability: Number.isFinite(probability) ? probability : null
+  };
+}
+
+/**
+ * Split a pipeline's stages into the ordered open path and its closed won and lost stages
+ */
+export function orderPipelineStages(stages: PipelineStageInput[]): OrderedPipelineStages {
+  const all = stages.map(normalizeStage).sort((a, b) => a.displayOrder - b.displayOrder);
+  const closed = all.filter(stage => stage.isClosed);
+
+  return {
+    open: all.filter(stage => !stage.isClosed),
+    won: closed.find(stage => stage.probability === 1) || closed.find(stage => WON_PATTERN.test(stage.label)),
+    lost: closed.find(stage => stage.probability === 0) || closed.find(stage => LOST_PATTERN.test(stage.label)),
+    all
+  };
+}
+
+/**
+ * Read the milestone a stage request names: a stage ID or label of the pipeline itself,
+ * or a milestone keyword placed proportionally along the pipeline's open stages
+ */
+export function parseDealMilestone(requested: string | undefined, stages: OrderedPipelineStages): DealMilestone | null {
+  const text = String(requested || '').trim();
+  if (!text) {
+    return null;
+  }
+
+  const exact = stages.all.find(stage => stage.id === text || stage.label.toLowerCase() === text.toLowerCase());
+  if (exact && !exact.isClosed) {
+    return { kind: 'open', index: stages.open.indexOf(exact) };
+  }
+  if (exact) {
+    return { kind: 'closed', outcome: exact === stages.lost || (exact !== stages.won && LOST_PATTERN.test(exact.label)) ? 'lost' : 'won' };
+  }
+
+  if (LOST_PATTERN.test(text)) {
+    return { kind: 'closed', outcome: 'lost' };
+  }
+  if (WON_PATTERN.test(text)) {
+    return { kind: 'closed', outcome: 'won' };
+  }
+
+  const rule = OPEN_MILESTONES.find(candidate => candidate.pattern.test(text));
+  if (!rule || stages.open.length === 0) {
+    return null;
+  }
+  return { kind: 'open', index: Math.round(rule.position * (stages.open.length - 1)) };
+}
+
+/**
+ * Stage request a template step carries: the dealstage of a CSV payload, or the stage a
+ * lifecycle action sets, e.g. "Update Deal: set stage='Closed Won'."
+ */
+export function getRequestedDealStage(actionTpl: any): string | undefined {
+  if (actionTpl?.properties?.dealstage) {
+    return String(actionTpl.properties.dealstage);
+  }
+  const match = String(actionTpl?.original || '').match(/stage\s*=\s*'([^']+)'/i);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Work out the stage a deal moves to. A deal without a current stage is being created and
+ * starts on an open stage; an existing deal only moves forward, a close goes to the closed
+ * stage for `outcome` whichever close was asked for, and a closed deal stays where it is.
+ */
+export function progressDealStage(
+  stages: OrderedPipelineStages,
+  currentStageId: string | null | undefined,
+  requested: string | undefined,
+  outcome?: 'won' | 'lost'
+): StageProgression {
+  const current = stages.all.find(stage => stage.id === currentStageId);
+  const isCreate = !currentStageId;
+
+  if (current?.isClosed) {
+    return { stageId: current.id, changed: false, closed: true, reason: `Deal is already closed in "${current.label}"` };
+  }
+  if (stages.open.length === 0) {
+    return { stageId: current?.id || null, changed: false, closed: false, reason: 'Pipeline has no open stages' };
+  }
+
+  const milestone = parseDealMilestone(requested, stages);
+
+  if (isCreate) {
+    // New deals always start on the open path; closing is left to later steps
+    const index = milestone?.kind === 'open' ? milestone.index : 0;
+    const stage = stages.open[index];
+    return { stageId: stage.id, changed: true, closed: false, reason: `Created in "${stage.label}"` };
+  }
+
+  if (!milestone) {
+    return { stageId: current?.id || null, changed: false, closed: false, reason: `No stage milestone in "${requested || ''}"` };
+  }
+
+  if (milestone.kind === 'closed') {
+    const closeAs = outcome || milestone.outcome;
+    const target = closeAs === 'won' ? stages.won : stages.lost;
+    if (!target) {
+      return { stageId: current?.id || null, changed: false, closed: false, reason: `Pipeline has no closed ${closeAs} stage` };
+    }
+    const note = closeAs !== milestone.outcome ? ` (template asked for closed ${milestone.outcome})` : '';
+    return { stageId: target.id, changed: true, closed: true, reason: `Closed ${closeAs} in "${target.label}"${note}` };
+  }
+
+  const currentIndex = current ? stages.open.indexOf(current) : -1;
+  if (milestone.index <= currentIndex) {
+    return { stageId: current!.id, changed: false, closed: false, reason: `Deal is already at or past "${stages.open[milestone.index].label}"` };
+  }
+  const stage = stages.open[milestone.index];
+  return { stageId: stage.id, changed: true, closed: false, reason: `Moved forward to "${stage.label}"` };
+}
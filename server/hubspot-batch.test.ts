@@ -0,0 +1,135 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { HubSpotBatcher } from './hubspot-batch';
+
+// The batcher logs every batch it sends
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+
+interface RecordedRequest {
+  method: string;
+  endpoint: string;
+  data: any;
+}
+
+/**
+ * Batcher whose HubSpot requests are answered by `respond` and recorded in `requests`
+ */
+function createBatcher(respond: (request: RecordedRequest) => any) {
+  const requests: RecordedRequest[] = [];
+  const batcher = new HubSpotBatcher(async (method, endpoint, data) => {
+    const request = { method, endpoint, data };
+    requests.push(request);
+    return respond(request);
+  }, { enabled: true, maxBatchSize: 100, idleMs: 0, maxWaitMs: 0 });
+  return { batcher, requests };
+}
+
+function httpError(status: number): Error {
+  const error = new Error(`HubSpot API error (${status})`);
+  (error as any).status = status;
+  return error;
+}
+
+test('batch creates are matched back by step key and errors by write trace id', async () => {
+  const { batcher, requests } = createBatcher(({ data }) => ({
+    // Results come back in any order; the second input failed
+    results: [
+      { id: '3', properties: { simcrm_step_key: 'step-3' } },
+      { id: '1', properties: { simcrm_step_key: 'step-1' } }
+    ],
+    errors: [{ category: 'VALIDATION_ERROR', message: 'Bad email', context: { objectWriteTraceId: [data.inputs[1].objectWriteTraceId] } }]
+  }));
+
+  const [first, second, third] = await Promise.allSettled([
+    batcher.create('contacts', { email: 'a@example.com', simcrm_step_key: 'step-1' }, 'token', 'step-1'),
+    batcher.create('contacts', { email: 'bad', simcrm_step_key: 'step-2' }, 'token', 'step-2'),
+    batcher.create('contacts', { email: 'c@example.com', simcrm_step_key: 'step-3' }, 'token', 'step-3')
+  ]);
+
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].endpoint, '/crm/v3/objects/contacts/batch/create');
+  assert.deepEqual(first, { status: 'fulfilled', value: { id: '1', properties: { simcrm_step_key: 'step-1' } } });
+  assert.equal(second.status, 'rejected');
+  assert.equal((second as PromiseRejectedResult).reason.status, 400);
+  assert.deepEqual(third, { status: 'fulfilled', value: { id: '3', properties: { simcrm_step_key: 'step-3' } } });
+});
+
+test('creates the batch response does not account for are sent on their own', async () => {
+  const { batcher, requests } = createBatcher(({ endpoint, data }) => endpoint.endsWith('/batch/create')
+    ? { results: [{ id: '1', properties: { simcrm_step_key: 'step-1' } }], errors: [] }
+    : { id: '2', properties: data.properties });
+
+  const [first, second] = await Promise.all([
+    batcher.create('notes', { simcrm_step_key: 'step-1' }, 'token', 'step-1'),
+    batcher.create('notes', { simcrm_step_key: 'step-2' }, 'token', 'step-2')
+  ]);
+
+  assert.equal(first.id, '1');
+  assert.equal(second.id, '2');
+  assert.deepEqual(requests.map(request => `${request.method} ${request.endpoint}`), [
+    'POST /crm/v3/objects/notes/batch/create',
+    'POST /crm/v3/objects/notes'
+  ]);
+  assert.deepEqual(requests[1].data, { properties: { simcrm_step_key: 'step-2' } });
+});
+
+test('a batch rejected with a client error is retried item by item', async () => {
+  const { batcher, requests } = createBatcher(({ endpoint, data }) => {
+    if (endpoint.endsWith('/batch/update')) {
+      throw httpError(400);
+    }
+    if (endpoint.endsWith('/2')) {
+      throw httpError(400);
+    }
+    return { id: endpoint.split('/').pop(), properties: data.properties };
+  });
+
+  const [first, second] = await Promise.allSettled([
+    batcher.update('deals', '1', { amount: '10' }, 'token'),
+    batcher.update('deals', '2', { amount: 'ten' }, 'token')
+  ]);
+
+  assert.deepEqual(first, { status: 'fulfilled', value: { id: '1', properties: { amount: '10' } } });
+  assert.equal(second.status, 'rejected');
+  assert.deepEqual(requests.map(request => `${request.method} ${request.endpoint}`), [
+    'POST /crm/v3/objects/deals/batch/update',
+    'PATCH /crm/v3/objects/deals/1',
+    'PATCH /crm/v3/objects/deals/2'
+  ]);
+});
+
+test('a batch that fails with a server error or rate limit fails every item without resending', async () => {
+  for (const status of [429, 503]) {
+    const { batcher, requests } = createBatcher(() => {
+      throw httpError(status);
+    });
+
+    const outcomes = await Promise.allSettled([
+      batcher.update('deals', '1', { amount: '10' }, 'token'),
+      batcher.update('deals', '2', { amount: '20' }, 'token')
+    ]);
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(outcomes.map(outcome => outcome.status === 'rejected' && outcome.reason.status), [status, status]);
+  }
+});
+
+test('a second update to a record already queued flushes the first batch', async () => {
+  const { batcher, requests } = createBatcher(({ endpoint, data }) => endpoint.endsWith('/batch/update')
+    ? { results: data.inputs.map((input: any) => ({ id: input.id, properties: input.properties })), errors: [] }
+    : { id: endpoint.split('/').pop(), properties: data.properties });
+
+  const updates = await Promise.all([
+    batcher.update('deals', '1', { amount: '10' }, 'token'),
+    batcher.update('deals', '2', { amount: '20' }, 'token'),
+    batcher.update('deals', '1', { amount: '30' }, 'token')
+  ]);
+
+  assert.deepEqual(updates.map(update => update.properties.amount), ['10', '20', '30']);
+  assert.deepEqual(requests.map(request => `${request.method} ${request.endpoint}`), [
+    'POST /crm/v3/objects/deals/batch/update',
+    'PATCH /crm/v3/objects/deals/1'
+  ]);
+  assert.deepEqual(requests[0].data.inputs.map((input: any) => input.id), ['1', '2']);
+});
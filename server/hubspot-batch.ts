@@ -0,0 +1,299 @@
+/**
+ * HubSpot Batch Writer
+ * Coalesces record creates, updates and associations that arrive close together into
+ * HubSpot batch requests (one call per object type instead of one per record), then
+ * maps each item's result or error back to the caller that queued it.
+ *
+ * A batch is sent when it holds maxBatchSize items, when no item has arrived for
+ * idleMs, or once its first item has waited maxWaitMs. A lone item is sent through
+ * the single-record endpoint, and a batch HubSpot rejects outright for bad input is
+ * retried item by item so every step gets its own error.
+ */
+
+type HubSpotRequest = (method: string, endpoint: string, data: any, token: string) => Promise<any>;
+
+// Labeled associations go through the batch create endpoint, default ones through batch associate/default
+type BatchOperation = 'create' | 'update' | 'associate' | 'associateLabeled';
+
+interface AssociationSpec {
+  associationCategory: string;
+  associationTypeId: number;
+}
+
+interface BatchConfig {
+  enabled: boolean;
+  maxBatchSize: number;
+  idleMs: number;
+  maxWaitMs: number;
+}
+
+interface BatchItem {
+  input: any;
+  // Identifies the item in the batch response: step key for creates, record ID for updates
+  matchKey?: string;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+interface BatchQueue {
+  operation: BatchOperation;
+  objectType: string;
+  toObjectType?: string;
+  token: string;
+  items: BatchItem[];
+  firstQueuedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// Batch error categories and the HTTP status a single request would have failed with
+const ERROR_CATEGORY_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_EMAIL: 400,
+  OBJECT_NOT_FOUND: 404,
+  CONFLICT: 409,
+  OBJECT_ALREADY_EXISTS: 409,
+  RATE_LIMITS: 429
+};
+
+export class HubSpotBatcher {
+  private config: BatchConfig;
+  private queues: Map<string, BatchQueue> = new Map();
+  private request: HubSpotRequest;
+
+  constructor(request: HubSpotRequest, config?: Partial<BatchConfig>) {
+    this.request = request;
+    this.config = {
+      enabled: process.env.HUBSPOT_BATCHING !== 'false',
+      maxBatchSize: Math.min(100, parseInt(process.env.HUBSPOT_BATCH_MAX_SIZE || '100')),
+      idleMs: parseInt(process.env.HUBSPOT_BATCH_IDLE_MS || '250'),
+      maxWaitMs: parseInt(process.env.HUBSPOT_BATCH_MAX_WAIT_MS || '2000'),
+      ...config
+    };
+  }
+
+  /**
+   * Create a record; resolves with the created object
+   */
+  create(objectType: string, properties: Record<string, any>, token: string, matchKey?: string): Promise<any> {
+    if (!this.config.enabled) {
+      return this.sendSingle('create', objectType, undefined, { properties }, token);
+    }
+    return this.enqueue('create', objectType, undefined, token, { properties }, matchKey);
+  }
+
+  /**
+   * Update a record's properties; resolves with the updated object
+   */
+  update(objectType: string, recordId: string, properties: Record<string, any>, token: string): Promise<any> {
+    const input = { id: String(recordId), properties };
+    if (!this.config.enabled) {
+      return this.sendSingle('update', objectType, undefined, input, token);
+    }
+
+    // HubSpot rejects a batch that updates the same record twice
+    const queue = this.queues.get(this.getQueueKey('update', objectType, undefined, token));
+    if (queue?.items.some(item => item.matchKey === input.id)) {
+      this.flush(queue);
+    }
+    return this.enqueue('update', objectType, undefined, token, input, input.id);
+  }
+
+  /**
+   * Associate two records with the given association types (e.g. a default type plus a
+   * label), or with their default association type when none are given
+   */
+  associate(fromObjectType: string, fromId: string, toObjectType: string, toId: string, token: string, types?: AssociationSpec[]): Promise<void> {
+    const operation: BatchOperation = types && types.length > 0 ? 'associateLabeled' : 'associate';
+    const input = operation === 'associateLabeled'
+      ? { from: { id: String(fromId) }, to: { id: String(toId) }, types }
+      : { from: { id: String(fromId) }, to: { id: String(toId) } };
+    if (!this.config.enabled) {
+      return this.sendSingle(operation, fromObjectType, toObjectType, input, token);
+    }
+    return this.enqueue(operation, fromObjectType, toObjectType, token, input);
+  }
+
+  private getQueueKey(operation: BatchOperation, objectType: string, toObjectType: string | undefined, token: string): string {
+    return `${operation}|${objectType}|${toObjectType || ''}|${token}`;
+  }
+
+  private enqueue(
+    operation: BatchOperation,
+    objectType: string,
+    toObjectType: string | undefined,
+    token: string,
+    input: any,
+    matchKey?: string
+  ): Promise<any> {
+    const key = this.getQueueKey(operation, objectType, toObjectType, token);
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = { operation, objectType, toObjectType, token, items: [], firstQueuedAt: Date.now(), timer: null };
+      this.queues.set(key, queue);
+    }
+
+    const promise = new Promise<any>((resolve, reject) => {
+      queue!.items.push({ input, matchKey, resolve, reject });
+    });
+
+    if (queue.items.length >= this.config.maxBatchSize) {
+      this.flush(queue);
+    } else {
+      if (queue.timer) {
+        clearTimeout(queue.timer);
+      }
+      const waitedMs = Date.now() - queue.firstQueuedAt;
+      const delayMs = Math.max(0, Math.min(this.config.idleMs, this.config.maxWaitMs - waitedMs));
+      const pending = queue;
+      queue.timer = setTimeout(() => this.flush(pending), delayMs);
+    }
+
+    return promise;
+  }
+
+  private flush(queue: BatchQueue): void {
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+      queue.timer = null;
+    }
+    const key = this.getQueueKey(queue.operation, queue.objectType, queue.toObjectType, queue.token);
+    if (this.queues.get(key) === queue) {
+      this.queues.delete(key);
+    }
+    if (queue.items.length === 0) {
+      return;
+    }
+
+    this.sendBatch(queue).catch((error: any) => {
+      // sendBatch settles every item itself; this only guards against a bug leaving them hanging
+      console.error(`❌ HubSpot batch ${queue.operation} for ${queue.objectType} failed unexpectedly:`, error.message);
+      queue.items.forEach(item => item.reject(error));
+    });
+  }
+
+  private async sendBatch(queue: BatchQueue): Promise<void> {
+    const { operation, objectType, toObjectType, token, items } = queue;
+
+    if (items.length === 1) {
+      await this.settleSingle(operation, objectType, toObjectType, items[0], token);
+      return;
+    }
+
+    console.log(`📦 HubSpot batch ${operation} of ${items.length} ${objectType}${toObjectType ? ` → ${toObjectType}` : ''}`);
+
+    let response: any;
+    try {
+      response = await this.request('POST', this.getBatchEndpoint(operation, objectType, toObjectType), {
+        inputs: items.map((item, index) => operation === 'create'
+          ? { ...item.input, objectWriteTraceId: String(index) }
+          : item.input)
+      }, token);
+    } catch (error: any) {
+      // One bad input fails the whole batch; sending items one by one pins the error on the right step
+      if (error.status >= 400 && error.status < 500 && error.status !== 429) {
+        console.warn(`⚠️ HubSpot batch ${operation} for ${objectType} rejected (${error.status}), retrying items individually`);
+        await Promise.all(items.map(item => this.settleSingle(operation, objectType, toObjectType, item, token)));
+      } else {
+        items.forEach(item => item.reject(error));
+      }
+      return;
+    }
+
+    const results: any[] = response?.results || [];
+    const errors: any[] = response?.errors || [];
+
+    if (operation === 'associate' || operation === 'associateLabeled') {
+      // Association results do not identify their input; redo everything if any item failed
+      if (errors.length > 0) {
+        await Promise.all(items.map(item => this.settleSingle(operation, objectType, toObjectType, item, token)));
+      } else {
+        items.forEach(item => item.resolve(undefined));
+      }
+      return;
+    }
+
+    const unmatched: BatchItem[] = [];
+    items.forEach((item, index) => {
+      const itemError = errors.find(error => this.errorMatchesItem(error, item, index));
+      if (itemError) {
+        item.reject(this.toItemError(itemError));
+        return;
+      }
+
+      const result = operation === 'create'
+        ? results.find(candidate => item.matchKey && candidate.properties?.simcrm_step_key === item.matchKey)
+        : results.find(candidate => String(candidate.id) === item.matchKey);
+      if (result) {
+        item.resolve(result);
+      } else if (errors.length === 0 && results.length === items.length && !item.matchKey) {
+        // Nothing failed and every input has a result; without a key fall back to input order
+        item.resolve(results[index]);
+      } else {
+        unmatched.push(item);
+      }
+    });
+
+    // Items the response does not account for are written on their own. Creates carry a step
+    // key: where it is unique (contacts, companies, deals, tickets, custom objects) one the batch
+    // did write comes back as a conflict, but other object types can end up with a duplicate
+    await Promise.all(unmatched.map(item => this.settleSingle(operation, objectType, toObjectType, item, token)));
+  }
+
+  private async settleSingle(
+    operation: BatchOperation,
+    objectType: string,
+    toObjectType: string | undefined,
+    item: BatchItem,
+    token: string
+  ): Promise<void> {
+    try {
+      item.resolve(await this.sendSingle(operation, objectType, toObjectType, item.input, token));
+    } catch (error) {
+      item.reject(error);
+    }
+  }
+
+  private sendSingle(operation: BatchOperation, objectType: string, toObjectType: string | undefined, input: any, token: string): Promise<any> {
+    switch (operation) {
+      case 'create':
+        return this.request('POST', `/crm/v3/objects/${objectType}`, { properties: input.properties }, token);
+      case 'update':
+        return this.request('PATCH', `/crm/v3/objects/${objectType}/${input.id}`, { properties: input.properties }, token);
+      case 'associate':
+        return this.request('PUT', `/crm/v4/objects/${objectType}/${input.from.id}/associations/default/${toObjectType}/${input.to.id}`, {}, token);
+      case 'associateLabeled':
+        return this.request('PUT', `/crm/v4/objects/${objectType}/${input.from.id}/associations/${toObjectType}/${input.to.id}`, input.types, token);
+    }
+  }
+
+  private getBatchEndpoint(operation: BatchOperation, objectType: string, toObjectType?: string): string {
+    if (operation === 'associate') {
+      return `/crm/v4/associations/${objectType}/${toObjectType}/batch/associate/default`;
+    }
+    if (operation === 'associateLabeled') {
+      return `/crm/v4/associations/${objectType}/${toObjectType}/batch/create`;
+    }
+    return `/crm/v3/objects/${objectType}/batch/${operation}`;
+  }
+
+  private errorMatchesItem(error: any, item: BatchItem, index: number): boolean {
+    const context = error.context || {};
+    const traceIds: string[] = [].concat(context.objectWriteTraceId || []).map(String);
+    if (traceIds.includes(String(index))) {
+      return true;
+    }
+    const ids: string[] = [].concat(context.id || [], context.ids || []).map(String);
+    return !!item.matchKey && ids.includes(item.matchKey);
+  }
+
+  /**
+   * Shape a batch error entry like a failed single request so callers and the retry policy treat it the same
+   */
+  private toItemError(batchError: any): Error {
+    const status = ERROR_CATEGORY_STATUS[batchError.category] || 500;
+    const error = new Error(`HubSpot API error (${status}): ${batchError.message || batchError.category}`);
+    (error as any).status = status;
+    (error as any).category = batchError.category;
+    return error;
+  }
+}
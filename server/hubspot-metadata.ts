@@ -1,6 +1,7 @@
 /**
  * HubSpot CRM Metadata Service
- * Fetches pipeline/stage data and other CRM constraints to ensure valid data generation
+ * Fetches pipeline/stage data, custom object schemas and other CRM constraints to ensure valid data generation.
+ * Custom object schemas are fetched on their own, only for templates that name a custom object.
  */
 
 import { rateLimiter } from './rate-limiter';
@@ -34,7 +35,34 @@ interface TicketStage {
   displayOrder: number;
 }
 
-interface CrmMetadata {
+export interface CustomObjectProperty {
+  name: string;
+  label: string;
+  type: string; // string, number, enumeration, bool, date, datetime
+  options: string[]; // Allowed values for enumeration and bool properties
+}
+
+export interface CustomObjectSchema {
+  objectTypeId: string; // e.g. 2-1234567, usable wherever an object type name is
+  name: string;
+  labels: { singular: string; plural: string };
+  primaryDisplayProperty?: string;
+  requiredProperties: string[];
+  // Properties simulated records are generated with: required, display and custom writable ones
+  properties: CustomObjectProperty[];
+}
+
+export interface AssociationType {
+  associationCategory: 'HUBSPOT_DEFINED' | 'USER_DEFINED' | 'INTEGRATOR_DEFINED';
+  associationTypeId: number;
+}
+
+export interface AssociationLabel extends AssociationType {
+  // Null for the unlabeled (default) type
+  label: string | null;
+}
+
+export interface CrmMetadata {
   dealPipelines: Pipeline[];
   ticketPipelines: TicketPipeline[];
   owners: Array<{ id: string; email: string; firstName: string; lastName: string }>;
@@ -44,6 +72,10 @@ interface CrmMetadata {
 // Cache CRM metadata for 1 hour
 const METADATA_CACHE_TTL = 60 * 60 * 1000; // 1 hour
 const metadataCache = new Map<string, { data: CrmMetadata; expires: number }>();
+const customObjectCache = new Map<string, { data: CustomObjectSchema[]; expires: number }>();
+
+// Optional properties a custom object record is generated with, beyond the required ones
+const MAX_OPTIONAL_CUSTOM_PROPERTIES = 8;
 
 /**
  * Fetch all CRM metadata needed for simulation
@@ -88,6 +120,33 @@ export async function fetchCrmMetadata(token: string, userId: number): Promise<C
   }
 }
 
+/**
+ * Drop a user's cached CRM metadata so the next fetch sees pipeline and owner changes
+ */
+export function clearCrmMetadataCache(userId: number): void {
+  metadataCache.delete(`metadata_${userId}`);
+  customObjectCache.delete(`custom_objects_${userId}`);
+}
+
+/**
+ * Fetch the portal's custom object schemas, cached like the rest of the CRM metadata.
+ * A failed read is not cached, so the next custom object step tries again.
+ */
+export async function fetchCustomObjects(token: string, userId: number): Promise<CustomObjectSchema[]> {
+  const cacheKey = `custom_objects_${userId}`;
+  const cached = customObjectCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) {
+    return cached.data;
+  }
+  
+  const schemas = await fetchCustomObjectSchemas(token);
+  if (schemas) {
+    customObjectCache.set(cacheKey, { data: schemas, expires: Date.now() + METADATA_CACHE_TTL });
+    console.log(`✅ Cached ${schemas.length} custom object schemas for user ${userId}`);
+  }
+  return schemas || [];
+}
+
 /**
  * Fetch deal pipelines and stages
  */
@@ -177,6 +236,118 @@ async function fetchOwners(token: string): Promise<Array<{ id: string; email: st
   });
 }
 
+/**
+ * Fetch the portal's custom object schemas. Portals without custom objects, or tokens
+ * without the schema scope, simply have none; any other failed read is null.
+ */
+async function fetchCustomObjectSchemas(token: string): Promise<CustomObjectSchema[] | null> {
+  return await rateLimiter.executeWithRateLimit('hubspot', async () => {
+    const response = await fetch('https://api.hubapi.com/crm/v3/schemas', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    if (response.status === 401 || response.status === 403) {
+      console.warn(`⚠️ Custom object schemas not readable with this token (${response.status}) - continuing without custom objects`);
+      return [];
+    }
+    if (!response.ok) {
+      console.warn(`⚠️ HubSpot schemas API error: ${response.status} ${response.statusText} - continuing without custom objects`);
+      return null;
+    }
+    
+    const data = await response.json();
+    
+    return (data.results || []).map((schema: any) => {
+      const requiredProperties: string[] = schema.requiredProperties || [];
+      const displayProperties = [schema.primaryDisplayProperty, ...(schema.secondaryDisplayProperties || [])];
+      const writable = (schema.properties || []).filter((property: any) =>
+        !property.hidden && !property.calculated && !property.modificationMetadata?.readOnlyValue
+      );
+      const optional = writable.filter((property: any) =>
+        !requiredProperties.includes(property.name) &&
+        (displayProperties.includes(property.name) || !property.hubspotDefined)
+      );
+      
+      return {
+        objectTypeId: schema.objectTypeId,
+        name: schema.name,
+        labels: {
+          singular: schema.labels?.singular || schema.name,
+          plural: schema.labels?.plural || schema.name
+        },
+        primaryDisplayProperty: schema.primaryDisplayProperty,
+        requiredProperties,
+        properties: [
+          ...writable.filter((property: any) => requiredProperties.includes(property.name)),
+          ...optional.slice(0, MAX_OPTIONAL_CUSTOM_PROPERTIES)
+        ].map((property: any) => ({
+          name: property.name,
+          label: property.label || property.name,
+          type: property.type,
+          options: (property.options || []).map((option: any) => String(option.value))
+        }))
+      };
+    });
+  });
+}
+
+/**
+ * Find the custom object schema a template record type names: its name, singular or
+ * plural label, fully qualified name or object type ID, ignoring case and separators
+ */
+export function findCustomObjectSchema(customObjects: CustomObjectSchema[], recordType: string): CustomObjectSchema | null {
+  const normalize = (value: string | undefined) => (value || '').toLowerCase().replace(/[\s_-]+/g, '');
+  const wanted = normalize(recordType);
+  if (!wanted) return null;
+  
+  return customObjects.find(schema =>
+    [schema.objectTypeId, schema.name, schema.labels.singular, schema.labels.plural].some(name => normalize(name) === wanted)
+  ) || null;
+}
+
+/**
+ * Get the properties to generate for a custom object, for LLM prompts
+ */
+export function getCustomObjectPropertyOptions(schema: CustomObjectSchema): string {
+  return schema.properties.map(property => {
+    const required = schema.requiredProperties.includes(property.name) ? 'required' : 'optional';
+    const options = property.options.length ? `, one of: ${property.options.map(option => `"${option}"`).join(', ')}` : '';
+    return `"${property.name}" (${property.label}, ${property.type}, ${required}${options})`;
+  }).join('\n');
+}
+
+/**
+ * Fetch the v4 association types the portal defines from one object type to another: the
+ * unlabeled default plus any HubSpot or user defined labels. Empty when the pair cannot be associated.
+ */
+export async function fetchAssociationLabels(token: string, fromObjectType: string, toObjectType: string): Promise<AssociationLabel[]> {
+  return await rateLimiter.executeWithRateLimit('hubspot', async () => {
+    const response = await fetch(`https://api.hubapi.com/crm/v4/associations/${fromObjectType}/${toObjectType}/labels`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`HubSpot association labels API error: ${response.status} ${response.statusText}`);
+    }
+    
+    const data = await response.json();
+    return (data.results || []).map((type: any) => ({
+      associationCategory: type.category,
+      associationTypeId: type.typeId,
+      label: type.label || null
+    }));
+  });
+}
+
 /**
  * Get valid deal pipeline and stage options for LLM prompts
  */
@@ -1,7 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { startJobRunner, clearAllCancellationTracking } from "./orchestrator";
+import { clearAllCancellationTracking } from "./orchestrator";
+import { startJobRunner } from "./job-worker";
+import { startMetadataRefresh } from "./metadata-refresh";
+import { loadTemplateRegistry } from "./template-registry";
 
 const app = express();
 app.use(express.json());
@@ -72,8 +75,15 @@ app.use((req, res, next) => {
     // Clear any stale cancellation tracking from previous server runs
     clearAllCancellationTracking();
     
+    // Discover and validate lifecycle templates once before any job is scheduled
+    const { loaded, invalid } = loadTemplateRegistry();
+    log(`lifecycle templates loaded: ${loaded}${invalid.length > 0 ? `, invalid: ${invalid.map(t => t.fileName).join(', ')}` : ''}`);
+    
     // Start the job runner after server is listening
     startJobRunner();
     log('job runner started');
+    
+    // Keep cached pipelines and owners of portals with active simulations in step with HubSpot
+    startMetadataRefresh();
   });
 })();
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { mergeJobContext } from './job-context';
+
+/**
+ * In-memory Postgres with just the jobs columns the context is kept in
+ */
+async function createDatabase() {
+  const client = new PGlite();
+  await client.exec(`create table jobs (id serial primary key, context json)`);
+  await client.exec(`insert into jobs (context) values (null), ('{"{{theme}}-contactRecord-1": "101"}')`);
+  return { client, database: drizzle(client) };
+}
+
+async function readContext(client: PGlite, jobId: number): Promise<Record<string, string>> {
+  const { rows } = await client.query<{ context: Record<string, string> }>('select context from jobs where id = $1', [jobId]);
+  return rows[0].context;
+}
+
+test('steps storing records at the same time keep each other\'s keys', async () => {
+  const { client, database } = await createDatabase();
+
+  await Promise.all([
+    mergeJobContext(database, 2, { '{{theme}}-noteRecord-1': '201' }),
+    mergeJobContext(database, 2, { '{{theme}}-ticketRecord-1': '301' }),
+    mergeJobContext(database, 2, { '{{theme}}-dealRecord-1': '401' })
+  ]);
+
+  assert.deepEqual(await readContext(client, 2), {
+    '{{theme}}-contactRecord-1': '101',
+    '{{theme}}-noteRecord-1': '201',
+    '{{theme}}-ticketRecord-1': '301',
+    '{{theme}}-dealRecord-1': '401'
+  });
+  await client.close();
+});
+
+test('a job without a context gets one and a stored key can be replaced', async () => {
+  const { client, database } = await createDatabase();
+
+  await mergeJobContext(database, 1, { '{{theme}}-contactRecord-1': '101' });
+  await mergeJobContext(database, 1, { '{{theme}}-contactRecord-1': '102' });
+
+  assert.deepEqual(await readContext(client, 1), { '{{theme}}-contactRecord-1': '102' });
+  await client.close();
+});
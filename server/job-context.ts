@@ -0,0 +1,20 @@
+/**
+ * Job Context
+ * The record IDs a job's create steps saved under their record templates, which later
+ * steps of the job resolve their references against. Steps of a job run side by side,
+ * so values are merged into the stored context in one statement rather than read,
+ * changed and written back.
+ */
+
+import { eq, sql } from 'drizzle-orm';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import { jobs } from '../shared/schema';
+
+/**
+ * Add `values` to a job's context, keeping every key other steps have stored
+ */
+export async function mergeJobContext(database: PgDatabase<any, any, any>, jobId: number, values: Record<string, string>): Promise<void> {
+  await database.update(jobs)
+    .set({ context: sql`(coalesce(${jobs.context}::jsonb, '{}'::jsonb) || ${JSON.stringify(values)}::jsonb)::json` })
+    .where(eq(jobs.id, jobId));
+}
@@ -0,0 +1,266 @@
+/**
+ * Job Step Worker
+ * Claims due job steps under a lease so several server instances can share the
+ * queue without running a step twice. A step's outcome is only written while its
+ * worker still holds the lease, so a worker that lost it cannot overwrite the run
+ * of the worker that recovered the step. Runs a configurable number of steps at once,
+ * renews leases while long steps run and returns expired leases to the queue.
+ * Wakes when the next step is due rather than on a fixed poll; a slower safety
+ * poll still catches steps scheduled by other instances. Each slot claims the steps
+ * due together as a group and runs them side by side, so their HubSpot writes go out
+ * as batch requests. After each step it checks whether the step's simulation has finished.
+ */
+
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { storage } from './storage';
+import { processJobStep, blockDependentSteps } from './orchestrator';
+import { retryPolicy, DEAD_LETTER_STATUS } from './retry-policy';
+import { checkSimulationCompletion } from './simulation-results';
+import type { JobStep } from '../shared/schema';
+
+interface JobWorkerConfig {
+  concurrency: number;
+  claimBatchSize: number;
+  leaseMs: number;
+  leaseRenewalMs: number;
+  minWakeIntervalMs: number;
+}
+
+const workerConfig: JobWorkerConfig = {
+  concurrency: Math.max(1, parseInt(process.env.JOB_WORKER_CONCURRENCY || '3')),
+  // Steps a slot claims and runs at once; HubSpot writes within a group are batched
+  claimBatchSize: Math.max(1, parseInt(process.env.JOB_WORKER_CLAIM_BATCH_SIZE || '10')),
+  leaseMs: parseInt(process.env.JOB_STEP_LEASE_MS || '300000'),
+  // Renew well before the lease runs out so a slow database round trip cannot lose it
+  leaseRenewalMs: Math.floor(parseInt(process.env.JOB_STEP_LEASE_MS || '300000') / 3),
+  // Steps due within this window of each other are run together
+  minWakeIntervalMs: parseInt(process.env.JOB_WORKER_MIN_WAKE_MS || '250')
+};
+
+// Identifies this process in job_steps.leased_by
+const WORKER_ID = `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`;
+
+let jobRunnerInterval: NodeJS.Timeout | null = null; // Safety poll
+let safetyPollMs = 30000;
+let activeRun: Promise<{ processed: number; successful: number; failed: number }> | null = null;
+let stopRequested = false;
+
+// Next precise wake-up, set from the earliest due step
+let wakeTimer: NodeJS.Timeout | null = null;
+let nextWakeAt: Date | null = null;
+// Steps were scheduled while a run was draining the queue
+let refreshRequested = false;
+
+/**
+ * Run a claimed step while renewing its lease
+ */
+async function runLeasedStep(step: JobStep): Promise<boolean> {
+  // A step that keeps taking its worker down comes back through lease recovery without a recorded failure
+  if (step.attempts > retryPolicy.maxAttempts) {
+    const finished = await storage.finishLeasedJobStep(step.id, WORKER_ID, DEAD_LETTER_STATUS, {
+      ...(step.result as any || {}),
+      error: `Lease expired on every one of ${retryPolicy.maxAttempts} attempts`,
+      attempts: step.attempts - 1,
+      timestamp: new Date().toISOString()
+    });
+    if (!finished) {
+      return false;
+    }
+    console.error(`☠️ Step ${step.id} moved to dead letter - its lease expired on every attempt`);
+    await blockDependentSteps(step, DEAD_LETTER_STATUS);
+    return false;
+  }
+
+  const renewal = setInterval(async () => {
+    try {
+      const extended = await storage.extendJobStepLease(step.id, WORKER_ID, workerConfig.leaseMs);
+      if (!extended) {
+        // Its result will be dropped when it finishes, so there is nothing left to renew
+        console.warn(`⚠️ Lost lease on step ${step.id} - it was finished or recovered elsewhere`);
+        clearInterval(renewal);
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ Could not extend lease on step ${step.id}: ${error.message}`);
+    }
+  }, workerConfig.leaseRenewalMs);
+
+  try {
+    return await processJobStep(step);
+  } finally {
+    clearInterval(renewal);
+  }
+}
+
+/**
+ * Recover expired leases, then drain due steps with up to `concurrency` slots, each running
+ * a claimed group of up to `claimBatchSize` steps. A step is only claimed once its
+ * prerequisites in the same job have completed.
+ */
+export async function runDueJobSteps(): Promise<{ processed: number; successful: number; failed: number }> {
+  try {
+    const recovered = await storage.recoverExpiredJobStepLeases(new Date());
+    if (recovered > 0) {
+      console.log(`♻️ Recovered ${recovered} job steps with expired leases`);
+    }
+
+    let processed = 0;
+    let successful = 0;
+    let failed = 0;
+
+    // Each slot claims and runs a group of due steps at a time until nothing is due
+    const runSlot = async () => {
+      while (!stopRequested) {
+        const steps = await storage.claimDueJobSteps(WORKER_ID, new Date(), workerConfig.claimBatchSize, workerConfig.leaseMs);
+        if (steps.length === 0) {
+          return;
+        }
+
+        await Promise.all(steps.map(async step => {
+          processed++;
+          if (await runLeasedStep(step)) {
+            successful++;
+          } else {
+            failed++;
+          }
+
+          try {
+            await checkSimulationCompletion(step.jobId);
+          } catch (error: any) {
+            console.warn(`⚠️ Could not check completion for job ${step.jobId}: ${error.message}`);
+          }
+        }));
+      }
+    };
+
+    await Promise.all(Array.from({ length: workerConfig.concurrency }, runSlot));
+
+    if (processed > 0) {
+      console.log(`Job runner processed ${processed} steps: ${successful} successful, ${failed} failed`);
+    }
+
+    return { processed, successful, failed };
+
+  } catch (error: any) {
+    console.error('Error running due job steps:', error);
+    throw new Error(`Failed to run due job steps: ${error.message}`);
+  }
+}
+
+/**
+ * Run due steps unless a previous run is still draining the queue, then wake for the next due step
+ */
+function tick(): void {
+  if (activeRun) {
+    return;
+  }
+
+  activeRun = runDueJobSteps();
+  activeRun
+    .catch((error: any) => {
+      console.error('Job runner execution error:', error);
+    })
+    .finally(() => {
+      activeRun = null;
+      if (refreshRequested) {
+        refreshRequested = false;
+        scheduleWake(new Date());
+      } else {
+        refreshSchedule();
+      }
+    });
+}
+
+/**
+ * Wake at `dueAt` (no sooner than the minimum interval, no later than the safety poll)
+ * unless an earlier wake-up is already set
+ */
+function scheduleWake(dueAt: Date): void {
+  if (!jobRunnerInterval) {
+    return;
+  }
+  if (wakeTimer && nextWakeAt && nextWakeAt <= dueAt) {
+    return;
+  }
+
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+  }
+  const delayMs = Math.min(Math.max(dueAt.getTime() - Date.now(), workerConfig.minWakeIntervalMs), safetyPollMs);
+  nextWakeAt = new Date(Date.now() + delayMs);
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    nextWakeAt = null;
+    tick();
+  }, delayMs);
+}
+
+/**
+ * Look up the earliest upcoming step and wake for it
+ */
+async function refreshSchedule(): Promise<void> {
+  try {
+    const nextDueAt = await storage.getNextJobStepDueAt(new Date());
+    if (nextDueAt) {
+      scheduleWake(nextDueAt);
+    }
+  } catch (error: any) {
+    console.warn(`⚠️ Could not refresh job runner schedule: ${error.message}`);
+  }
+}
+
+/**
+ * Tell the runner that steps were scheduled, resumed or requeued so it wakes for them
+ * instead of waiting for the safety poll. Without `dueAt` the schedule is re-read.
+ */
+export function notifyJobStepsScheduled(dueAt?: Date): void {
+  if (!jobRunnerInterval) {
+    return;
+  }
+  if (activeRun) {
+    refreshRequested = true;
+    return;
+  }
+
+  if (dueAt) {
+    scheduleWake(dueAt);
+  } else {
+    refreshSchedule();
+  }
+}
+
+/**
+ * Start the job runner; `intervalMs` is the safety poll between precise wake-ups
+ */
+export function startJobRunner(intervalMs: number = 30000): void {
+  if (jobRunnerInterval) {
+    console.log('Job runner is already running');
+    return;
+  }
+
+  stopRequested = false;
+  safetyPollMs = intervalMs;
+  console.log(`Starting job runner ${WORKER_ID} with ${intervalMs}ms safety poll, concurrency ${workerConfig.concurrency} x ${workerConfig.claimBatchSize}, lease ${workerConfig.leaseMs}ms`);
+
+  jobRunnerInterval = setInterval(tick, intervalMs);
+
+  // Run immediately on start
+  tick();
+}
+
+/**
+ * Stop the job runner; steps already running finish and release their leases
+ */
+export function stopJobRunner(): void {
+  if (jobRunnerInterval) {
+    clearInterval(jobRunnerInterval);
+    jobRunnerInterval = null;
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+      nextWakeAt = null;
+    }
+    stopRequested = true;
+    console.log('Job runner stopped');
+  }
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planLineItems, getLineItemsTotal } from './line-item-plan';
+import { createSeededRandom } from './outcome-model';
+
+const products = [
+  { id: '1', name: 'Enterprise Plan', price: 1299.99 },
+  { id: '2', name: 'Premium Support', price: 349.5 },
+  { id: '3', name: 'Onboarding', price: 75.25 },
+  { id: '4', name: 'Seat', price: 19 }
+];
+
+test('line items add up to the deal amount', () => {
+  let sawMultipleUnits = false;
+  for (const amount of [18.5, 75.25, 999.99, 4321.07, 25000, 123456.78]) {
+    for (let seed = 0; seed < 25; seed++) {
+      const plans = planLineItems(products, amount, createSeededRandom(`${amount}-${seed}`));
+      assert.ok(plans.length > 0);
+      assert.equal(getLineItemsTotal(plans), amount);
+      for (const plan of plans) {
+        assert.ok(Number.isInteger(plan.quantity) && plan.quantity >= 1);
+        assert.ok(plan.price > 0);
+        assert.ok(Math.abs(plan.price * 100 - Math.round(plan.price * 100)) < 1e-6, 'prices are whole cents');
+        sawMultipleUnits ||= plan.quantity > 1;
+      }
+    }
+  }
+  assert.ok(sawMultipleUnits, 'expected some lines with more than one unit');
+});
+
+test('a remainder goes on a single unit priced at the remainder', () => {
+  const plans = planLineItems([{ id: '9', name: 'Widget', price: 40 }], 100, createSeededRandom('remainder'));
+  assert.deepEqual(plans.map(plan => [plan.quantity, plan.price]), [[2, 40], [1, 20]]);
+});
+
+test('without an amount every line is at list price', () => {
+  const plans = planLineItems(products, undefined, createSeededRandom('open'));
+  for (const plan of plans) {
+    assert.equal(plan.price, products.find(product => product.id === plan.productId)!.price);
+  }
+});
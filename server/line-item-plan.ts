@@ -0,0 +1,91 @@
+/**
+ * Line Item Planning
+ * Splits a deal amount into catalog line items whose quantities and unit prices add up
+ * to exactly that amount
+ */
+
+// A planned deal gets between one and this many line items
+const MAX_LINE_ITEMS_PER_DEAL = 3;
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  price: number;
+  sku?: string;
+}
+
+export interface LineItemPlan {
+  productId: string;
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Line items for a deal worth `amount`: up to three catalog products at their list price.
+ * The pricier picks take whole units of their share of the amount and the cheapest one
+ * makes up the rest. A remainder smaller than its list price goes on one more unit of
+ * that product priced at the remainder, so each line is quantity x price and the line
+ * items total exactly the amount. Without an amount the deal is worth whatever they come to.
+ */
+export function planLineItems(products: CatalogProduct[], amount: number | undefined, random: () => number = Math.random): LineItemPlan[] {
+  if (products.length === 0) {
+    return [];
+  }
+
+  const count = Math.min(products.length, 1 + Math.floor(random() * MAX_LINE_ITEMS_PER_DEAL));
+  const picked = [...products]
+    .sort(() => random() - 0.5)
+    .slice(0, count)
+    .sort((a, b) => b.price - a.price);
+
+  if (!(amount && amount > 0)) {
+    return picked.map(product => ({
+      productId: product.id,
+      name: product.name,
+      quantity: 1 + Math.floor(random() * 5),
+      price: product.price
+    }));
+  }
+
+  const totalCents = toCents(amount);
+  const weights = picked.map(() => 0.5 + random());
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const plans: LineItemPlan[] = [];
+  let allocatedCents = 0;
+
+  picked.forEach((product, index) => {
+    const priceCents = toCents(product.price);
+    if (index < picked.length - 1) {
+      const quantity = Math.floor(totalCents * weights[index] / weightSum / priceCents);
+      if (quantity > 0) {
+        plans.push({ productId: product.id, name: product.name, quantity, price: product.price });
+        allocatedCents += quantity * priceCents;
+      }
+      return;
+    }
+
+    const remainingCents = totalCents - allocatedCents;
+    const fullUnits = Math.floor(remainingCents / priceCents);
+    const remainderCents = remainingCents - fullUnits * priceCents;
+    if (fullUnits > 0) {
+      plans.push({ productId: product.id, name: product.name, quantity: fullUnits, price: product.price });
+    }
+    if (remainderCents > 0) {
+      plans.push({ productId: product.id, name: product.name, quantity: 1, price: remainderCents / 100 });
+    }
+  });
+
+  return plans;
+}
+
+/**
+ * Deal total for a set of line items
+ */
+export function getLineItemsTotal(items: Array<{ quantity: number; price: number }>): number {
+  return items.reduce((sum, item) => sum + toCents(item.price) * item.quantity, 0) / 100;
+}
@@ -60,16 +60,90 @@ const TicketSchema = z.object({
   customProperties: z.record(z.string(), z.any()).optional()
 });
 
+const TaskSchema = z.object({
+  hs_task_subject: z.string().min(1).max(200),
+  hs_task_body: z.string().max(2000).optional(),
+  hs_task_status: z.enum(['NOT_STARTED', 'IN_PROGRESS', 'WAITING', 'COMPLETED', 'DEFERRED']),
+  hs_task_priority: z.enum(['NONE', 'LOW', 'MEDIUM', 'HIGH']).optional(),
+  hs_task_type: z.enum(['CALL', 'EMAIL', 'TODO']).optional(),
+  hs_timestamp: z.string().optional(), // ISO date string, the task due date
+  hubspot_owner_id: z.string().optional()
+});
+
+const CallSchema = z.object({
+  hs_call_title: z.string().min(1).max(200),
+  hs_call_body: z.string().min(1).max(2000),
+  hs_call_direction: z.enum(['INBOUND', 'OUTBOUND']),
+  hs_call_status: z.enum(['COMPLETED', 'BUSY', 'NO_ANSWER', 'FAILED', 'CANCELED']).optional(),
+  hs_call_duration: z.coerce.number().int().nonnegative().optional(), // milliseconds
+  hs_timestamp: z.string().optional(),
+  hubspot_owner_id: z.string().optional()
+});
+
+const MeetingSchema = z.object({
+  hs_meeting_title: z.string().min(1).max(200),
+  hs_meeting_body: z.string().min(1).max(2000),
+  hs_meeting_outcome: z.enum(['SCHEDULED', 'COMPLETED', 'RESCHEDULED', 'NO_SHOW', 'CANCELED']).optional(),
+  hs_meeting_location: z.string().max(200).optional(),
+  hs_meeting_start_time: z.string().optional(), // ISO date string
+  hs_meeting_end_time: z.string().optional(), // ISO date string
+  hs_timestamp: z.string().optional(),
+  hubspot_owner_id: z.string().optional()
+});
+
+const EmailSchema = z.object({
+  hs_email_subject: z.string().min(1).max(200),
+  hs_email_text: z.string().min(1).max(5000),
+  hs_email_direction: z.enum(['EMAIL', 'INCOMING_EMAIL', 'FORWARDED_EMAIL']),
+  hs_email_status: z.enum(['SENT', 'BOUNCED', 'FAILED', 'SCHEDULED', 'SENDING']).optional(),
+  hs_timestamp: z.string().optional(),
+  hubspot_owner_id: z.string().optional()
+});
+
+const ProductSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  price: z.coerce.number().positive()
+});
+
 const GeneratedDataSchema = z.object({
   personas: z.array(PersonaSchema).optional(),
   companies: z.array(CompanySchema).optional(),
   deals: z.array(DealSchema).optional(),
   tickets: z.array(TicketSchema).optional(),
+  tasks: z.array(TaskSchema).optional(),
+  calls: z.array(CallSchema).optional(),
+  meetings: z.array(MeetingSchema).optional(),
+  emails: z.array(EmailSchema).optional(),
+  products: z.array(ProductSchema).optional(),
   theme: z.string().min(1),
   industry: z.string().min(1),
   generated_at: z.string() // ISO date string
 });
 
+/**
+ * Schema for a custom object record, built at runtime from the portal's property
+ * definitions. Enumeration and bool values must be one of the property's options.
+ */
+function createCustomObjectSchema(
+  properties: Array<{ name: string; type: string; options: string[] }>,
+  requiredProperties: string[]
+): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const property of properties) {
+    let field: z.ZodTypeAny;
+    if (property.type === 'number') {
+      field = z.coerce.number();
+    } else if (property.options.length > 0) {
+      field = z.preprocess(value => value === undefined ? value : String(value), z.enum(property.options as [string, ...string[]]));
+    } else {
+      field = z.string().min(1).max(5000);
+    }
+    shape[property.name] = requiredProperties.includes(property.name) ? field : field.optional();
+  }
+  return z.object(shape);
+}
+
 // Persona Cache with TTL
 interface CacheEntry {
   data: any;
@@ -451,7 +525,13 @@ export {
   CompanySchema,
   DealSchema,
   TicketSchema,
-  GeneratedDataSchema
+  TaskSchema,
+  CallSchema,
+  MeetingSchema,
+  EmailSchema,
+  ProductSchema,
+  GeneratedDataSchema,
+  createCustomObjectSchema
 };
 
 export type {
@@ -0,0 +1,425 @@
+/**
+ * HubSpot Metadata Refresh
+ * Periodically refreshes the cached pipelines, stages and owners of portals with active
+ * simulations and diffs them against what was cached before. Changes are recorded,
+ * active simulations are warned, and pending steps that point at a removed stage or
+ * pipeline or a deactivated owner are moved to the nearest valid equivalent so they do
+ * not fail once they run.
+ */
+
+import { storage } from './storage';
+import { fetchAndCachePipelinesAndStages, fetchAndCacheOwners, getStepOwnerRandom } from './orchestrator';
+import { clearCrmMetadataCache } from './hubspot-metadata';
+import { orderPipelineStages } from './deal-stage-progression';
+import { pickWeightedOwner } from './crm-targets';
+import type { InsertHubspotMetadataChange, Simulation, SimulationWarning } from '../shared/schema';
+
+interface SnapshotStage {
+  id: string;
+  label: string;
+  displayOrder: number;
+  isClosed: boolean;
+  probability: string | null;
+}
+
+interface SnapshotPipeline {
+  objectType: string;
+  id: string;
+  label: string;
+  displayOrder: number;
+  stages: SnapshotStage[];
+}
+
+interface SnapshotOwner {
+  id: string;
+  email: string;
+}
+
+export interface MetadataSnapshot {
+  pipelines: SnapshotPipeline[];
+  owners: SnapshotOwner[];
+}
+
+export type MetadataChange = Omit<InsertHubspotMetadataChange, 'userId' | 'id' | 'detectedAt'>;
+
+// Where pending steps on a removed stage move to
+interface StageReplacement {
+  pipelineId: string;
+  stageId: string;
+}
+
+const PIPELINE_OBJECT_TYPES = ['deals', 'tickets'];
+
+// Simulations whose pending steps still run and can be remapped
+const ACTIVE_SIMULATION_STATUSES = ['running', 'processing', 'paused'];
+const REMAPPABLE_STEP_STATUSES = ['pending', 'paused', 'blocked'];
+
+// Changes listed in a simulation warning before the rest are summarized
+const MAX_WARNING_CHANGES = 5;
+
+const refreshConfig = {
+  intervalMs: parseInt(process.env.HUBSPOT_METADATA_REFRESH_MS || '900000')
+};
+
+let refreshInterval: NodeJS.Timeout | null = null;
+let activeRefresh: Promise<void> | null = null;
+
+/**
+ * Read a user's cached pipelines, stages and active owners
+ */
+export async function loadMetadataSnapshot(userId: number): Promise<MetadataSnapshot> {
+  const pipelines: SnapshotPipeline[] = [];
+  for (const objectType of PIPELINE_OBJECT_TYPES) {
+    for (const pipeline of await storage.getHubspotPipelines(userId, objectType)) {
+      const stages = await storage.getHubspotStages(pipeline.id);
+      pipelines.push({
+        objectType,
+        id: pipeline.hubspotId,
+        label: pipeline.label,
+        displayOrder: pipeline.displayOrder || 0,
+        stages: stages.map(stage => ({
+          id: stage.hubspotId,
+          label: stage.label,
+          displayOrder: stage.displayOrder || 0,
+          isClosed: !!stage.isClosed,
+          probability: stage.probability
+        }))
+      });
+    }
+  }
+
+  const owners = (await storage.getHubspotOwners(userId)).map(owner => ({ id: owner.hubspotId, email: owner.email }));
+  return { pipelines, owners };
+}
+
+function findPipeline(pipelines: SnapshotPipeline[], objectType: string, id: string): SnapshotPipeline | undefined {
+  return pipelines.find(pipeline => pipeline.objectType === objectType && pipeline.id === id);
+}
+
+function sameLabel(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function orderStages(pipeline: SnapshotPipeline) {
+  return orderPipelineStages(pipeline.stages.map(stage => ({
+    id: stage.id,
+    label: stage.label,
+    displayOrder: stage.displayOrder,
+    metadata: { isClosed: stage.isClosed, probability: stage.probability ?? undefined }
+  })));
+}
+
+/**
+ * Nearest valid stage for a removed one: a stage with the same label, the closed stage
+ * with the same outcome, or the last open stage before it that still exists
+ */
+function findReplacementStage(removed: SnapshotStage, before: SnapshotPipeline, after: SnapshotPipeline): string | null {
+  const sameLabelStage = after.stages.find(stage => sameLabel(stage.label, removed.label));
+  if (sameLabelStage) {
+    return sameLabelStage.id;
+  }
+
+  const beforeOrder = orderStages(before);
+  const afterOrder = orderStages(after);
+
+  if (removed.isClosed) {
+    const closedAs = beforeOrder.lost?.id === removed.id ? afterOrder.lost : afterOrder.won;
+    return closedAs?.id || afterOrder.all[afterOrder.all.length - 1]?.id || null;
+  }
+
+  // Step back along the old open path so deals are not moved ahead of where they were going
+  const removedIndex = beforeOrder.open.findIndex(stage => stage.id === removed.id);
+  for (let index = removedIndex - 1; index >= 0; index--) {
+    const survivor = afterOrder.open.find(stage => stage.id === beforeOrder.open[index].id);
+    if (survivor) {
+      return survivor.id;
+    }
+  }
+  if (after.id !== before.id && afterOrder.open.length > 0 && removedIndex >= 0) {
+    // Another pipeline: keep the stage's relative position along the open path
+    const position = beforeOrder.open.length > 1 ? removedIndex / (beforeOrder.open.length - 1) : 0;
+    return afterOrder.open[Math.round(position * (afterOrder.open.length - 1))].id;
+  }
+  return afterOrder.open[0]?.id || afterOrder.all[0]?.id || null;
+}
+
+/**
+ * Compare two snapshots of a portal's metadata. Object types with no pipelines after the
+ * refresh are skipped, as a portal always keeps at least one and an empty list means the
+ * fetch did not return them; owners are only compared when both snapshots have some.
+ */
+export function diffMetadataSnapshots(before: MetadataSnapshot, after: MetadataSnapshot): MetadataChange[] {
+  const changes: MetadataChange[] = [];
+
+  for (const objectType of PIPELINE_OBJECT_TYPES) {
+    const beforePipelines = before.pipelines.filter(pipeline => pipeline.objectType === objectType);
+    const afterPipelines = after.pipelines
+      .filter(pipeline => pipeline.objectType === objectType)
+      .sort((a, b) => a.displayOrder - b.displayOrder);
+    if (beforePipelines.length === 0 || afterPipelines.length === 0) {
+      continue;
+    }
+
+    for (const pipeline of afterPipelines) {
+      if (!findPipeline(beforePipelines, objectType, pipeline.id)) {
+        changes.push({ entity: 'pipeline', objectType, changeType: 'added', hubspotId: pipeline.id, label: pipeline.label });
+      }
+    }
+
+    for (const previous of beforePipelines) {
+      const current = findPipeline(afterPipelines, objectType, previous.id);
+      if (!current) {
+        const replacement = afterPipelines.find(pipeline => sameLabel(pipeline.label, previous.label)) || afterPipelines[0];
+        changes.push({ entity: 'pipeline', objectType, changeType: 'removed', hubspotId: previous.id, label: previous.label, replacementId: replacement.id });
+        for (const stage of previous.stages) {
+          changes.push({
+            entity: 'stage', objectType, changeType: 'removed', hubspotId: stage.id, pipelineId: previous.id, label: stage.label,
+            replacementId: findReplacementStage(stage, previous, replacement)
+          });
+        }
+        continue;
+      }
+
+      if (current.label !== previous.label) {
+        changes.push({ entity: 'pipeline', objectType, changeType: 'renamed', hubspotId: current.id, label: current.label, previousLabel: previous.label });
+      }
+      for (const stage of current.stages) {
+        const previousStage = previous.stages.find(candidate => candidate.id === stage.id);
+        if (!previousStage) {
+          changes.push({ entity: 'stage', objectType, changeType: 'added', hubspotId: stage.id, pipelineId: current.id, label: stage.label });
+        } else if (previousStage.label !== stage.label) {
+          changes.push({ entity: 'stage', objectType, changeType: 'renamed', hubspotId: stage.id, pipelineId: current.id, label: stage.label, previousLabel: previousStage.label });
+        }
+      }
+      for (const stage of previous.stages) {
+        if (!current.stages.some(candidate => candidate.id === stage.id)) {
+          changes.push({
+            entity: 'stage', objectType, changeType: 'removed', hubspotId: stage.id, pipelineId: current.id, label: stage.label,
+            replacementId: findReplacementStage(stage, previous, current)
+          });
+        }
+      }
+    }
+  }
+
+  if (before.owners.length > 0 && after.owners.length > 0) {
+    for (const owner of after.owners) {
+      if (!before.owners.some(candidate => candidate.id === owner.id)) {
+        changes.push({ entity: 'owner', changeType: 'added', hubspotId: owner.id, label: owner.email });
+      }
+    }
+    for (const owner of before.owners) {
+      if (!after.owners.some(candidate => candidate.id === owner.id)) {
+        // Each step picks its own replacement from the simulation's owner targets
+        changes.push({ entity: 'owner', changeType: 'deactivated', hubspotId: owner.id, label: owner.email });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function describeChange(change: MetadataChange): string {
+  const subject = change.entity === 'owner'
+    ? `owner ${change.label}`
+    : `${change.objectType === 'tickets' ? 'ticket' : 'deal'} ${change.entity} "${change.label}"`;
+  return change.changeType === 'renamed'
+    ? `${subject} renamed from "${change.previousLabel}"`
+    : `${subject} ${change.changeType}`;
+}
+
+/**
+ * Move a simulation's pending steps and setup targets off removed stages, pipelines and
+ * owners, returning how many steps were changed. A step whose owner was deactivated gets
+ * one of the simulation's remaining weighted owners, or else one of `activeOwnerIds`.
+ */
+async function remapSimulation(simulation: Simulation, changes: MetadataChange[], activeOwnerIds: string[]): Promise<number> {
+  const replacements = (entity: string, objectType?: string) => new Map(changes
+    .filter(change => change.entity === entity && change.objectType === objectType && change.replacementId)
+    .filter(change => change.changeType === 'removed')
+    .map(change => [change.hubspotId, change] as const));
+
+  const dealStages = replacements('stage', 'deals');
+  const ticketStages = replacements('stage', 'tickets');
+  const dealPipelines = replacements('pipeline', 'deals');
+  const ticketPipelines = replacements('pipeline', 'tickets');
+  const deactivatedOwners = new Set(changes
+    .filter(change => change.entity === 'owner' && change.changeType === 'deactivated')
+    .map(change => change.hubspotId));
+
+  // Setup targets: replaced pipelines are followed, deactivated owners are dropped from the weighting
+  const targets = simulation.config.crmTargets;
+  const updatedTargets = targets ? { ...targets } : undefined;
+  if (updatedTargets) {
+    if (updatedTargets.dealPipelineId && dealPipelines.has(updatedTargets.dealPipelineId)) {
+      updatedTargets.dealPipelineId = dealPipelines.get(updatedTargets.dealPipelineId)!.replacementId!;
+    }
+    if (updatedTargets.ticketPipelineId && ticketPipelines.has(updatedTargets.ticketPipelineId)) {
+      updatedTargets.ticketPipelineId = ticketPipelines.get(updatedTargets.ticketPipelineId)!.replacementId!;
+    }
+    if (updatedTargets.owners) {
+      updatedTargets.owners = updatedTargets.owners.filter(owner => !deactivatedOwners.has(owner.id));
+      if (updatedTargets.owners.length === 0) {
+        delete updatedTargets.owners;
+      }
+    }
+  }
+  const replacementOwners = updatedTargets?.owners || activeOwnerIds.map(id => ({ id, weight: 1 }));
+
+  // A removed stage's replacement lives in its own pipeline or the one its pipeline was replaced by
+  const remapStage = (stages: typeof dealStages, pipelines: typeof dealPipelines, stageId: any): StageReplacement | null => {
+    const change = stages.get(String(stageId));
+    if (!change) return null;
+    const pipelineId = pipelines.get(change.pipelineId || '')?.replacementId || change.pipelineId;
+    return pipelineId && change.replacementId ? { pipelineId, stageId: change.replacementId } : null;
+  };
+
+  let remappedSteps = 0;
+  const steps = await storage.getSimulationJobSteps(simulation.id);
+  for (const step of steps) {
+    const actionTpl = step.actionTpl as any;
+    if (!REMAPPABLE_STEP_STATUSES.includes(step.status || '') || !actionTpl?.properties) {
+      continue;
+    }
+
+    const properties = { ...actionTpl.properties };
+    const dealStage = remapStage(dealStages, dealPipelines, properties.dealstage);
+    if (dealStage) {
+      properties.dealstage = dealStage.stageId;
+      properties.pipeline = dealStage.pipelineId;
+    } else if (dealPipelines.has(String(properties.pipeline))) {
+      properties.pipeline = dealPipelines.get(String(properties.pipeline))!.replacementId;
+    }
+
+    const ticketStage = remapStage(ticketStages, ticketPipelines, properties.hs_pipeline_stage);
+    if (ticketStage) {
+      properties.hs_pipeline_stage = ticketStage.stageId;
+      properties.hs_pipeline = ticketStage.pipelineId;
+    } else if (ticketPipelines.has(String(properties.hs_pipeline))) {
+      properties.hs_pipeline = ticketPipelines.get(String(properties.hs_pipeline))!.replacementId;
+    }
+
+    if (deactivatedOwners.has(String(properties.hubspot_owner_id))) {
+      const ownerId = pickWeightedOwner(replacementOwners, getStepOwnerRandom(step));
+      if (ownerId) {
+        properties.hubspot_owner_id = ownerId;
+      } else {
+        delete properties.hubspot_owner_id;
+      }
+    }
+
+    if (JSON.stringify(properties) !== JSON.stringify(actionTpl.properties)
+      && await storage.updatePendingJobStepAction(step.id, { ...actionTpl, properties })) {
+      remappedSteps++;
+    }
+  }
+
+  if (updatedTargets && JSON.stringify(updatedTargets) !== JSON.stringify(targets)) {
+    await storage.updateSimulation(simulation.id, { config: { ...simulation.config, crmTargets: updatedTargets } });
+  }
+
+  return remappedSteps;
+}
+
+/**
+ * Refresh a user's cached pipelines, stages and owners from HubSpot, record what changed
+ * and warn and remap their active simulations. Returns the changes found.
+ */
+export async function refreshHubspotMetadata(userId: number, token: string): Promise<MetadataChange[]> {
+  const before = await loadMetadataSnapshot(userId);
+  await fetchAndCachePipelinesAndStages(userId, token);
+  await fetchAndCacheOwners(userId, token, true);
+  const after = await loadMetadataSnapshot(userId);
+
+  const changes = diffMetadataSnapshots(before, after);
+  if (changes.length === 0) {
+    return changes;
+  }
+
+  await storage.recordHubspotMetadataChanges(changes.map(change => ({ ...change, userId })));
+  clearCrmMetadataCache(userId);
+  console.log(`🔄 HubSpot metadata changed for user ${userId}: ${changes.map(describeChange).join('; ')}`);
+
+  // Added pipelines, stages and owners do not affect running simulations
+  const notable = changes.filter(change => change.changeType !== 'added');
+  if (notable.length === 0) {
+    return changes;
+  }
+
+  const simulations = (await storage.getSimulationsByUserId(userId))
+    .filter(simulation => ACTIVE_SIMULATION_STATUSES.includes(simulation.status || ''));
+  for (const simulation of simulations) {
+    const remappedSteps = await remapSimulation(simulation, notable, after.owners.map(owner => owner.id));
+    const listed = notable.slice(0, MAX_WARNING_CHANGES).map(describeChange).join('; ');
+    const more = notable.length > MAX_WARNING_CHANGES ? ` and ${notable.length - MAX_WARNING_CHANGES} more` : '';
+    const warning: SimulationWarning = {
+      type: 'metadata_change',
+      message: `HubSpot ${listed}${more}.${remappedSteps > 0 ? ` ${remappedSteps} pending steps were moved to the nearest valid stage or owner.` : ''}`,
+      detectedAt: new Date().toISOString(),
+      remappedSteps
+    };
+    await storage.addSimulationWarning(simulation.id, warning);
+    console.warn(`⚠️ Simulation ${simulation.id}: ${warning.message}`);
+  }
+
+  return changes;
+}
+
+/**
+ * Refresh the metadata of every user with an active simulation and a connected portal
+ */
+export async function refreshActiveUsersMetadata(): Promise<void> {
+  const userIds = await storage.getUserIdsWithActiveSimulations();
+  for (const userId of userIds) {
+    try {
+      const session = await storage.getSession(userId);
+      if (!session?.hubspotToken) {
+        continue;
+      }
+      await refreshHubspotMetadata(userId, session.hubspotToken);
+    } catch (error: any) {
+      console.warn(`⚠️ Could not refresh HubSpot metadata for user ${userId}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Run a refresh unless the previous one is still going
+ */
+function tick(): void {
+  if (activeRefresh) {
+    return;
+  }
+
+  activeRefresh = refreshActiveUsersMetadata()
+    .catch((error: any) => {
+      console.error('Metadata refresh error:', error);
+    })
+    .finally(() => {
+      activeRefresh = null;
+    });
+}
+
+/**
+ * Start refreshing HubSpot metadata every `intervalMs`
+ */
+export function startMetadataRefresh(intervalMs: number = refreshConfig.intervalMs): void {
+  if (refreshInterval) {
+    console.log('Metadata refresh is already running');
+    return;
+  }
+
+  console.log(`Starting HubSpot metadata refresh every ${Math.round(intervalMs / 60000)} minutes`);
+  refreshInterval = setInterval(tick, intervalMs);
+}
+
+/**
+ * Stop the scheduled metadata refresh; a refresh already running finishes
+ */
+export function stopMetadataRefresh(): void {
+  if (refreshInterval) {
+    clearInterval(refreshInterval);
+    refreshInterval = null;
+    console.log('Metadata refresh stopped');
+  }
+}
@@ -1,24 +1,48 @@
 import { storage } from './storage';
-import { Simulation, InsertJob, InsertJobStep } from '../shared/schema';
+import { Simulation, SimulationConfig, InsertJob, InsertJobStep, JobStep } from '../shared/schema';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { createHash } from 'crypto';
 import OpenAI from 'openai';
 import { rateLimiter } from './rate-limiter';
-import { personaCache as personaCacheGuardrails, SeededGenerator, LLMValidator, SCHEMA_VERSION } from './llm-guardrails';
+import { HubSpotBatcher } from './hubspot-batch';
+import { personaCache as personaCacheGuardrails, SeededGenerator, LLMValidator, SCHEMA_VERSION, createCustomObjectSchema } from './llm-guardrails';
 import { 
   fetchCrmMetadata, 
+  fetchCustomObjects,
   getDealPipelineOptions, 
   getTicketPipelineOptions, 
   getOwnerOptions,
   getDefaultDealPipelineStage,
   getDefaultTicketPipelineStage,
   validateDealPipelineStage,
-  validateTicketPipelineStage 
+  validateTicketPipelineStage,
+  findCustomObjectSchema,
+  getCustomObjectPropertyOptions,
+  fetchAssociationLabels,
+  CustomObjectSchema,
+  CrmMetadata,
+  AssociationType,
+  AssociationLabel
 } from './hubspot-metadata';
 import { GenerateDataError, TemplateReferenceError, ValidationError } from './errors';
 import { logEvent } from './logging';
 import { trimStringsDeep, validateDataOrThrow } from './validation';
+import { getLifecycleTemplate, getRegisteredIndustries, createLifecycleTemplate, loadDemoTemplate, getDefaultCycleDays, DEMO_TEMPLATE_CYCLE_DAYS, LifecycleTemplate } from './template-registry';
+import { shiftIntoBusinessHours, nextBusinessTime } from './time-utils';
+import { isCreateAction, getCreatedRecordType } from './csv-template';
+import { decideStepFailure, retryPolicy, DEAD_LETTER_STATUS, SKIPPED_STATUS } from './retry-policy';
+import { createSeededRandom } from './outcome-model';
+import { orderPipelineStages, progressDealStage, getRequestedDealStage, StageProgression } from './deal-stage-progression';
+import { pickWeightedOwner, CrmTargets } from './crm-targets';
+import {
+  getProductCatalog,
+  getDealLineItems,
+  createDealLineItems,
+  parseLineItemChange,
+  DealLineItem
+} from './product-catalog';
+import { planLineItems, getLineItemsTotal, LineItemPlan } from './line-item-plan';
 
 // Initialize OpenAI client
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -26,36 +50,8 @@ const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 // Persona data cache to avoid repeated LLM calls
 const personaCache = new Map<string, any>();
 
-// CSV template structure
-interface CsvRow {
-  templateDay: number;
-  typeOfAction: string;
-  recordType: string;
-  recordIdTpl: string;
-  associationsTpl: string;
-  originalSource: string;
-  actionTpl: string;
-  reasonTpl: string;
-}
-
-// New demo mode CSV structure
-interface DemoCsvRow {
-  simulationId: string;
-  setId: string;
-  timeToCreate: number;
-  actionId: number;
-  typeOfAction: string;
-  recordType: string;
-  recordId: string;
-  associationType: string;
-  associationTypeId: string;
-  associatedRecordId: string;
-  payload: string;
-  details: string;
-}
-
-// Job runner state
-let jobRunnerInterval: NodeJS.Timeout | null = null;
+// Status of a step whose prerequisite is in dead letter; it resumes if the prerequisite is requeued and completes
+const BLOCKED_STATUS = 'blocked';
 
 // In-memory cancellation tracking for simulations
 const cancelledSimulations = new Set<number>();
@@ -113,6 +109,29 @@ const ENABLE_SEARCH_FALLBACK = process.env.ENABLE_SEARCH_FALLBACK === 'true';
 // Add round-robin owner assignment
 let currentOwnerIndex = 0;
 
+// Provenance properties written on every created record, kept in their own property group
+const SIMCRM_PROPERTY_GROUP = 'simcrm';
+const SIMCRM_PROPERTIES: Record<string, { label: string; description: string }> = {
+  simcrm_step_key: { label: 'SimCRM Step Key', description: 'Identifies the simulation step that created this record so retries never duplicate it' },
+  simcrm_simulation_id: { label: 'SimCRM Simulation ID', description: 'Simulation that created this record' },
+  simcrm_job_id: { label: 'SimCRM Job ID', description: 'Simulation job (one per set) that created this record' },
+  simcrm_set_sequence: { label: 'SimCRM Set Sequence', description: 'Set / contact sequence within the simulation' },
+  simcrm_template: { label: 'SimCRM Template', description: 'Lifecycle template the record was generated from' },
+  simcrm_theme: { label: 'SimCRM Theme', description: 'Simulation theme' },
+  simcrm_generator_version: { label: 'SimCRM Generator Version', description: 'SimCRM version that generated the record' }
+};
+const STEP_KEY_PROPERTY = 'simcrm_step_key';
+const SIMCRM_GENERATOR_VERSION = process.env.SIMCRM_GENERATOR_VERSION || process.env.npm_package_version || 'dev';
+// Object types where HubSpot can enforce unique property values (plus portal custom objects, see
+// hasUniqueStepKey). Notes, engagements and line items cannot, so their idempotency is best effort:
+// it rests on the step key search, which can miss a record created moments earlier
+const UNIQUE_STEP_KEY_OBJECT_TYPES = ['contacts', 'companies', 'deals', 'tickets'];
+// Object types whose SimCRM properties are known to exist, per portal token
+const ensuredSimCrmProperties = new Set<string>();
+
+// Step writes due together go to HubSpot as batch requests
+const hubspotBatcher = new HubSpotBatcher(makeHubSpotRequest);
+
 /**
  * Helper function to detect if an error is related to property validation
  */
@@ -162,21 +181,137 @@ function parsePropertyValidationError(error: any): { propertyName?: string; miss
 }
 
 /**
- * Enhanced record creation with retry logic for property validation failures
+ * Deterministic idempotency key for a create step; the same step always gets the same key,
+ * across retries, lease recovery and dead-letter requeues
+ */
+function getStepIdempotencyKey(step?: any): string | undefined {
+  if (!step?.jobId || step.stepIndex === undefined || step.stepIndex === null) {
+    return undefined;
+  }
+  return `simcrm-${step.jobId}-${step.stepIndex}`;
+}
+
+/**
+ * Random source for the owner a step's record is assigned, seeded by the step so a retry
+ * or a remap assigns the same owner
+ */
+function getStepOwnerRandom(step: any): () => number {
+  return createSeededRandom(`${getStepIdempotencyKey(step) || `${step.jobId}-${step.stepIndex}`}:owner`);
+}
+
+/**
+ * Provenance properties for a record created by a job step
+ */
+async function getRecordProvenance(step?: any): Promise<Record<string, string> | undefined> {
+  const idempotencyKey = getStepIdempotencyKey(step);
+  if (!idempotencyKey) {
+    return undefined;
+  }
+
+  const job = await getJobById(step.jobId);
+  const metadata = (job?.metadata as any) || {};
+  const template = metadata.customTemplate?.name || metadata.customTemplate || metadata.templateType || metadata.csvSource || job?.originalSource || '';
+
+  return {
+    simcrm_step_key: idempotencyKey,
+    simcrm_simulation_id: String(job?.simulationId ?? ''),
+    simcrm_job_id: String(step.jobId),
+    simcrm_set_sequence: String(job?.contactSeq ?? ''),
+    simcrm_template: String(template),
+    simcrm_theme: job?.theme || '',
+    simcrm_generator_version: SIMCRM_GENERATOR_VERSION
+  };
+}
+
+/**
+ * Make sure the SimCRM provenance properties exist on an object type before records are written or searched by them.
+ * ensureHubSpotProperties swallows its errors, so the properties are read back and the type is only cached once
+ * all of them are confirmed; otherwise this throws and the step's retry policy takes over.
+ */
+async function ensureSimCrmProperties(objectType: string, token: string): Promise<void> {
+  const cacheKey = `${token.slice(-12)}:${objectType}`;
+  if (ensuredSimCrmProperties.has(cacheKey)) {
+    return;
+  }
+
+  await ensureHubSpotProperties(objectType, Object.keys(SIMCRM_PROPERTIES), token);
+
+  const properties = await makeHubSpotRequest('GET', `/crm/v3/properties/${objectType}`, null, token);
+  const existingNames = new Set((properties?.results || []).map((prop: any) => prop.name));
+  const missing = Object.keys(SIMCRM_PROPERTIES).filter(name => !existingNames.has(name));
+  if (missing.length > 0) {
+    throw new Error(`SimCRM properties missing on ${objectType}: ${missing.join(', ')}`);
+  }
+
+  ensuredSimCrmProperties.add(cacheKey);
+}
+
+/**
+ * Whether HubSpot rejects a second record with the same step key on this object type
+ */
+function hasUniqueStepKey(objectType: string): boolean {
+  // Custom object type IDs look like 2-1234567
+  return UNIQUE_STEP_KEY_OBJECT_TYPES.includes(objectType) || /^2-\d+$/.test(objectType);
+}
+
+/**
+ * Find a record an earlier attempt of this step already created. A failed search throws so the
+ * step is retried rather than re-created; on types without a unique step key (see hasUniqueStepKey)
+ * a record the search index has not caught up with yet can still be missed.
+ */
+async function findRecordByStepKey(objectType: string, idempotencyKey: string | undefined, token: string): Promise<any | null> {
+  if (!idempotencyKey) {
+    return null;
+  }
+
+  try {
+    await ensureSimCrmProperties(objectType, token);
+    const response = await makeHubSpotRequest('POST', `/crm/v3/objects/${objectType}/search`, {
+      filterGroups: [{
+        filters: [{
+          propertyName: STEP_KEY_PROPERTY,
+          operator: 'EQ',
+          value: idempotencyKey
+        }]
+      }],
+      limit: 1
+    }, token);
+
+    if (response.results && response.results.length > 0) {
+      console.log(`♻️ Idempotency: ${objectType} ${response.results[0].id} already created for ${idempotencyKey}`);
+      return response.results[0];
+    }
+    return null;
+  } catch (error: any) {
+    console.error(`Step key search failed for ${objectType} ${idempotencyKey}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Enhanced record creation with retry logic for property validation failures.
+ * Provenance properties (from getRecordProvenance) are added to the record, and a create
+ * rejected because its step key is already taken returns the record that holds it.
  */
 async function createRecordWithRetry(
   objectType: string,
   recordData: any,
   token: string,
-  originalData?: any
+  originalData?: any,
+  provenance?: Record<string, string>
 ): Promise<any> {
   const endpoint = `/crm/v3/objects/${objectType}`;
+  const idempotencyKey = provenance?.[STEP_KEY_PROPERTY];
+  if (provenance) {
+    await ensureSimCrmProperties(objectType, token);
+    recordData = { ...recordData, ...provenance };
+  }
   
   try {
-    // First attempt
-    const response = await makeHubSpotRequest('POST', endpoint, {
-      properties: recordData
-    }, token);
+    // First attempt; step creates are batched with others of the same object type
+    const response = provenance
+      ? await hubspotBatcher.create(objectType, recordData, token, idempotencyKey)
+      : await makeHubSpotRequest('POST', endpoint, { properties: recordData }, token);
     
     console.log(`✅ Successfully created ${objectType} record on first attempt`);
     return response;
@@ -184,6 +319,14 @@ async function createRecordWithRetry(
   } catch (firstAttemptError: any) {
     console.log(`⚠️ First attempt failed for ${objectType} creation:`, firstAttemptError.message);
     
+    // A unique step key conflict means an earlier attempt got through
+    if (idempotencyKey && (firstAttemptError.status === 409 || firstAttemptError.message?.includes(STEP_KEY_PROPERTY))) {
+      const existing = await findRecordByStepKey(objectType, idempotencyKey, token);
+      if (existing) {
+        return existing;
+      }
+    }
+    
     // Check if this is a property validation error we can fix
     if (isPropertyValidationError(firstAttemptError)) {
       console.log(`🔧 Detected property validation error, attempting to fix and retry...`);
@@ -254,22 +397,211 @@ function getNextOwner(owners: any[]): string | null {
 }
 
 /**
- * Determine outcome based on industry-specific win/loss rates
+ * Per-set record counts: the simulation's record_distribution spread evenly over its sets,
+ * with any remainder going to the earliest sets
+ */
+export function getSetRecordQuota(config: SimulationConfig | null | undefined, contactSeq: number): SimulationConfig['record_distribution'] | null {
+  const distribution = config?.record_distribution;
+  if (!distribution) return null;
+  
+  const totalSets = Math.max(1, config?.totalSets || 1);
+  const quota = {} as SimulationConfig['record_distribution'];
+  for (const key of Object.keys(distribution) as Array<keyof SimulationConfig['record_distribution']>) {
+    const total = Math.max(0, Number(distribution[key]) || 0);
+    quota[key] = Math.floor(total / totalSets) + ((contactSeq - 1) % totalSets < total % totalSets ? 1 : 0);
+  }
+  return quota;
+}
+
+// Template record types counted against record_distribution
+const RECORD_QUOTA_KEYS: Record<string, keyof SimulationConfig['record_distribution']> = {
+  contact: 'contacts',
+  company: 'companies',
+  deal: 'deals',
+  ticket: 'tickets',
+  note: 'notes',
+  task: 'tasks',
+  call: 'calls',
+  meeting: 'meetings',
+  email: 'emails'
+};
+
+// Engagement step types, the HubSpot object each one writes and its template record type
+const ENGAGEMENT_STEP_TYPES: Record<string, { objectType: string; recordType: string }> = {
+  create_task: { objectType: 'tasks', recordType: 'Task' },
+  log_call: { objectType: 'calls', recordType: 'Call' },
+  log_meeting: { objectType: 'meetings', recordType: 'Meeting' },
+  log_email: { objectType: 'emails', recordType: 'Email' }
+};
+
+/**
+ * Engagement step type for a lifecycle template row, e.g. "Create"/"Log" + "Call" -> log_call
+ */
+function getEngagementStepType(typeOfAction: string, recordType: string): string | null {
+  const action = (typeOfAction || '').toLowerCase();
+  if (ENGAGEMENT_STEP_TYPES[action]) {
+    return action;
+  }
+  if (action !== 'create' && action !== 'log') {
+    return null;
+  }
+  const record = (recordType || '').toLowerCase().replace(/s$/, '');
+  const match = Object.entries(ENGAGEMENT_STEP_TYPES).find(([, engagement]) => engagement.recordType.toLowerCase() === record);
+  return match ? match[0] : null;
+}
+
+// Template steps that change the line items on an existing deal
+const LINE_ITEM_STEP_TYPES = ['add_line_item', 'remove_line_item', 'reprice_line_item'];
+
+/**
+ * Line item step type for a lifecycle template row, e.g. "Add" + "Line Item" -> add_line_item
+ */
+function getLineItemStepType(typeOfAction: string, recordType: string): string | null {
+  const action = (typeOfAction || '').toLowerCase();
+  if (LINE_ITEM_STEP_TYPES.includes(action)) {
+    return action;
+  }
+  const record = (recordType || '').toLowerCase().replace(/[\s_-]+/g, '').replace(/s$/, '');
+  const stepType = `${action}_line_item`;
+  return record === 'lineitem' && LINE_ITEM_STEP_TYPES.includes(stepType) ? stepType : null;
+}
+
+// Record types the executors handle themselves; any other record type a create step names is a custom object
+const BUILT_IN_RECORD_TYPES = ['contact', 'company', 'deal', 'opportunity', 'note', 'ticket', 'task', 'call', 'meeting', 'email', 'lineitem', 'product', 'productcatalog'];
+
+/**
+ * Custom object a create step names by schema name, e.g. "Create" + "Shipment" or create_shipment -> "Shipment"
+ */
+function getCustomObjectRecordType(typeOfAction: string, recordType: string): string | null {
+  const action = (typeOfAction || '').toLowerCase();
+  if (action !== 'create' && !action.startsWith('create_')) {
+    return null;
+  }
+  const customType = action === 'create' ? recordType : (recordType || action.slice('create_'.length));
+  const normalized = (customType || '').toLowerCase().replace(/[\s_-]+/g, '').replace(/ies$/, 'y').replace(/s$/, '');
+  return normalized && !BUILT_IN_RECORD_TYPES.includes(normalized) ? customType : null;
+}
+
+/**
+ * Record IDs referenced by a step's associations (demo ID lists or lifecycle "Contact X, Company Y" text)
+ */
+function getAssociatedRecordIds(associationsTpl: any): string[] {
+  if (Array.isArray(associationsTpl)) {
+    return associationsTpl.map(String);
+  }
+  if (typeof associationsTpl?.original === 'string') {
+    return associationsTpl.original
+      .split(',')
+      .map((part: string) => part.trim().split(/\s+/).pop() || '')
+      .filter(Boolean);
+  }
+  if (associationsTpl && typeof associationsTpl === 'object') {
+    return Object.values(associationsTpl).flat().map(String);
+  }
+  return [];
+}
+
+/**
+ * Derive each step's prerequisites from the records it references: the step that creates
+ * each associated record, the step that creates its own record and the previous step on
+ * its own record (so updates apply in order). Edges that would close a cycle are left out.
+ */
+function deriveStepDependencies(steps: InsertJobStep[]): void {
+  const creators = new Map<string, number>();
+  steps.forEach(step => {
+    const recordId = step.recordIdTpl || '';
+    if (recordId && isCreateAction(step.typeOfAction) && !creators.has(recordId)) {
+      creators.set(recordId, step.stepIndex as number);
+    }
+  });
+  
+  const dependsOn = new Map<number, number[]>();
+  const dependsTransitively = (from: number, to: number, seen: Set<number> = new Set()): boolean => {
+    if (from === to) return true;
+    seen.add(from);
+    return (dependsOn.get(from) || []).some(next => !seen.has(next) && dependsTransitively(next, to, seen));
+  };
+  
+  const lastStepOnRecord = new Map<string, number>();
+  steps.forEach(step => {
+    const stepIndex = step.stepIndex as number;
+    const recordId = step.recordIdTpl || '';
+    const candidates = [
+      ...getAssociatedRecordIds(step.associationsTpl).map(id => creators.get(id)),
+      recordId ? creators.get(recordId) : undefined,
+      recordId ? lastStepOnRecord.get(recordId) : undefined
+    ];
+    
+    const prerequisites: number[] = [];
+    for (const candidate of candidates) {
+      if (candidate === undefined || prerequisites.includes(candidate) || dependsTransitively(candidate, stepIndex)) continue;
+      prerequisites.push(candidate);
+    }
+    
+    dependsOn.set(stepIndex, prerequisites);
+    step.dependsOn = prerequisites.sort((a, b) => a - b);
+    if (recordId) lastStepOnRecord.set(recordId, stepIndex);
+  });
+}
+
+/**
+ * Trim a set's steps to its record quota. Create steps beyond the quota are dropped together
+ * with every later step that updates or associates to the dropped records.
  */
-function determineOutcome(industry: string, requestedOutcome?: string): 'won' | 'lost' {
-  // If outcome is explicitly requested, use it
-  if (requestedOutcome === 'won' || requestedOutcome === 'lost') {
-    return requestedOutcome;
+function applySetRecordQuota(
+  steps: InsertJobStep[],
+  quota: SimulationConfig['record_distribution'] | null
+): { steps: InsertJobStep[]; created: Record<string, number>; droppedRecords: string[] } {
+  const created: Record<string, number> = {};
+  if (!quota) {
+    return { steps, created, droppedRecords: [] };
   }
   
-  // Apply industry-specific win/loss rates
-  if (industry?.toLowerCase() === 'ecommerce') {
-    // 75% win rate, 25% loss rate for E-commerce
-    return Math.random() < 0.75 ? 'won' : 'lost';
+  const dropped = new Set<string>();
+  const kept = steps.filter(step => {
+    const recordId = step.recordIdTpl || '';
+    if (dropped.has(recordId) || getAssociatedRecordIds(step.associationsTpl).some(id => dropped.has(id))) {
+      if (recordId) dropped.add(recordId);
+      return false;
+    }
+    
+    const quotaKey = RECORD_QUOTA_KEYS[(step.recordType || '').toLowerCase().replace(/s$/, '')];
+    if (!quotaKey || !isCreateAction(step.typeOfAction)) {
+      return true;
+    }
+    
+    // Distributions saved before a record type existed leave it unlimited
+    const limit = quota[quotaKey];
+    if (limit !== undefined && (created[quotaKey] || 0) >= limit) {
+      if (recordId) dropped.add(recordId);
+      return false;
+    }
+    created[quotaKey] = (created[quotaKey] || 0) + 1;
+    return true;
+  });
+  
+  // Templates can only supply as many records as they define per set
+  for (const key of Object.keys(quota) as Array<keyof SimulationConfig['record_distribution']>) {
+    if ((created[key] || 0) < (quota[key] || 0)) {
+      console.warn(`⚠️ Template defines ${created[key] || 0} ${key} per set, fewer than the requested ${quota[key]}`);
+    }
   }
   
-  // Default 50/50 for other industries
-  return Math.random() < 0.5 ? 'won' : 'lost';
+  return { steps: kept, created, droppedRecords: Array.from(dropped) };
+}
+
+/**
+ * Move steps into the simulation's working hours (when a calendar policy is set), keeping step order
+ */
+function applyCalendarPolicy(steps: InsertJobStep[], config: SimulationConfig | null | undefined, setStartAt: Date): void {
+  const policy = config?.calendarPolicy;
+  if (!policy) return;
+  
+  const shifted = shiftIntoBusinessHours(steps.map(step => step.scheduledAt as Date), policy);
+  steps.forEach((step, index) => {
+    step.scheduledAt = shifted[index];
+    step.scaledDay = Math.floor((shifted[index].getTime() - setStartAt.getTime()) / (24 * 60 * 60 * 1000));
+  });
 }
 
 /**
@@ -286,115 +618,60 @@ export async function scheduleSimulationJob(
     const industryKey = simulation.industry?.toLowerCase();
     console.log(`🔍 Industry: '${industryKey}', Outcome: '${outcome}', Duration: ${acceleratorDays} days`);
     
+    const customTemplate = simulation.config?.customTemplate;
+    
     // Handle Demo Mode - CSV-based 1-hour simulation with 36 sets
-    if (industryKey === 'demo') {
-      console.log('🎮 Demo Mode: Creating 1-hour simulation with 36 prospect sets');
-      return await createDemoModeJobFromCSV(simulation, outcome, contactSeq, setStartAt);
+    // Any template can be scaled to the requested duration; templates fall back to their authored cycle
+    const targetCycleDays = acceleratorDays > 0 ? acceleratorDays : getDefaultCycleDays(industryKey, !!customTemplate);
+    
+    if (industryKey === 'demo' && !customTemplate) {
+      console.log(`🎮 Demo Mode: Creating prospect set ${contactSeq} over ${targetCycleDays} days`);
+      return await createDemoModeJobFromCSV(simulation, outcome, contactSeq, setStartAt, targetCycleDays);
     }
     
-    // Handle E-commerce - CSV templates
-    if (industryKey === 'ecommerce' || industryKey === 'business') {
-      console.log('🛒 E-commerce Mode: Using CSV templates (90 day simulation)');
-      const csvFileName = outcome?.toLowerCase() === 'won' 
-        ? 'Ecommerce_Cycle-ClosedWon_1755104746839.csv'
-        : 'Ecommerce_Cycle-ClosedLost_1755104746839.csv';
-      
-      const csvPath = join(process.cwd(), 'attached_assets', csvFileName);
-      let csvContent: string;
-      
-      try {
-        csvContent = readFileSync(csvPath, 'utf-8');
-        console.log(`✅ Loaded E-commerce template: ${csvFileName}`);
-      } catch (error) {
-        console.error(`❌ Failed to load E-commerce template: ${csvFileName}`, error);
-        throw new Error(`E-commerce template not found: ${csvFileName}`);
-      }
-      
-      // Parse CSV content
-      const lines = csvContent.split('\n').filter(line => line.trim());
-      const rows: CsvRow[] = [];
-      
-      console.log(`CSV has ${lines.length} lines including header`);
-      
-      for (let i = 1; i < lines.length; i++) {
-        // Handle CSV parsing with quoted fields that may contain commas
-        const line = lines[i];
-        const values: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        
-        for (let j = 0; j < line.length; j++) {
-          const char = line[j];
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === ',' && !inQuotes) {
-            values.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        values.push(current.trim()); // Don't forget the last value
-        
-        if (values.length >= 7) { // Ensure we have at least the required columns
-          rows.push({
-            templateDay: parseInt(values[0]) || 0,
-            typeOfAction: values[1]?.replace(/"/g, '') || '',
-            recordType: values[2]?.replace(/"/g, '') || '',
-            recordIdTpl: values[3]?.replace(/"/g, '') || '',
-            associationsTpl: values[4]?.replace(/"/g, '') || '',
-            originalSource: values[5]?.replace(/"/g, '') || '',
-            actionTpl: values[6]?.replace(/"/g, '') || '',
-            reasonTpl: values[7]?.replace(/"/g, '') || ''
-          });
-        }
-      }
-      
-      console.log(`Parsed ${rows.length} rows from E-commerce CSV template`);
-      
-      // E-commerce templates are already outcome-specific
-      const filteredRows = rows;
-      console.log(`Using ${filteredRows.length} rows for execution`);
-      
-      // Guard against empty CSV or missing templateDay values
-      if (filteredRows.length === 0) {
-        throw new Error("CSV template missing templateDay values");
-      }
-      
-      // Compute dynamic base cycle from CSV data (always 90 days for E-commerce)
-      const baseCycleDays = Math.max(...filteredRows.map(row => row.templateDay));
-      if (!baseCycleDays || baseCycleDays <= 0) {
-        throw new Error("CSV template missing templateDay values");
+    // Lifecycle templates - a user uploaded template, or the won/lost variant discovered by the template registry
+    const template = customTemplate
+      ? await loadUserLifecycleTemplate(simulation, customTemplate, outcome)
+      : getLifecycleTemplate(industryKey, outcome);
+    if (!template) {
+      throw new Error(`Unsupported industry: ${industryKey}. Available lifecycle templates: ${['demo', ...getRegisteredIndustries()].join(', ')}`);
+    }
+    
+    const csvFileName = template.fileName;
+    const filteredRows = template.rows;
+    console.log(`📚 Lifecycle Mode: Using ${template.industry} ${outcome} template ${csvFileName} (${filteredRows.length} rows)`);
+    
+    // Base cycle is computed once when the registry validates the template
+    const baseCycleDays = template.baseCycleDays;
+    
+    const baseCycleHours = baseCycleDays * 24;
+    const targetCycleHours = targetCycleDays * 24;
+    const scalingFactor = targetCycleHours / baseCycleHours;
+    
+    // Create the job
+    const jobData: InsertJob = {
+      simulationId: simulation.id,
+      outcome,
+      theme: simulation.theme,
+      industry: simulation.industry,
+      contactSeq: contactSeq,
+      originalSource: csvFileName,
+      acceleratorDays: targetCycleDays.toString(),
+      baseCycleDays,
+      jobStartAt: setStartAt,
+      status: 'pending',
+      metadata: {
+        scalingFactor,
+        originalRowCount: filteredRows.length,
+        csvSource: csvFileName,
+        usingIndustrySpecificTemplate: !customTemplate,
+        customTemplate: customTemplate || null,
+        templateType: `${template.industry}-${outcome}`,
+        backfill: simulation.config?.backfill === true
       }
-      
-      // For E-commerce, always use 90 days
-      const targetCycleDays = 90;
-      const baseCycleHours = baseCycleDays * 24;
-      const targetCycleHours = targetCycleDays * 24;
-      const scalingFactor = targetCycleHours / baseCycleHours;
-      
-      // Create the job
-      const jobData: InsertJob = {
-        simulationId: simulation.id,
-        outcome,
-        theme: simulation.theme,
-        industry: simulation.industry,
-        contactSeq: contactSeq,
-        originalSource: csvFileName,
-        acceleratorDays: targetCycleDays.toString(),
-        baseCycleDays,
-        jobStartAt: setStartAt,
-        status: 'pending',
-        metadata: {
-          scalingFactor,
-          originalRowCount: filteredRows.length,
-          csvSource: csvFileName,
-          usingIndustrySpecificTemplate: true,
-          templateType: 'ecommerce-' + outcome
-        }
-      };
+    };
 
-      const createdJob = await storage.createJob(jobData);
+    const createdJob = await storage.createJob(jobData);
     
     // Generate job steps with fractional hour precision
     const jobStepsData: InsertJobStep[] = [];
@@ -415,10 +692,10 @@ export async function scheduleSimulationJob(
         templateDay: row.templateDay,
         scaledDay: Math.floor(scaledHours / 24),
         scheduledAt,
-        typeOfAction: row.typeOfAction,
+        typeOfAction: getEngagementStepType(row.typeOfAction, row.recordType) || getLineItemStepType(row.typeOfAction, row.recordType) || row.typeOfAction,
         recordType: row.recordType,
         recordIdTpl: substitutedRecordIdTpl,
-        associationsTpl: parseJsonSafely(row.associationsTpl),
+        associationsTpl: parseJsonSafely(substituteTemplatePlaceholders(row.associationsTpl, simulation, contactSeq)),
         originalSource: row.originalSource,
         actionTpl: parseJsonSafely(substitutedActionTpl),
         reasonTpl: substitutedReasonTpl,
@@ -430,17 +707,25 @@ export async function scheduleSimulationJob(
     // Sort by scaledDay to ensure monotonic scheduling
     jobStepsData.sort((a, b) => (a.scaledDay || 0) - (b.scaledDay || 0));
 
-    // Insert all job steps
-    const createdSteps = await storage.createJobSteps(jobStepsData);
+    // Shift steps out of nights, weekends and holidays
+    applyCalendarPolicy(jobStepsData, simulation.config, setStartAt);
 
-      return {
-        jobId: createdJob.id,
-        stepsCount: createdSteps.length
-      };
+    // Keep this set's share of the requested record distribution
+    const { steps: setSteps, created, droppedRecords } = applySetRecordQuota(jobStepsData, getSetRecordQuota(simulation.config, contactSeq));
+    if (droppedRecords.length > 0) {
+      console.log(`📊 Set ${contactSeq}: dropped ${jobStepsData.length - setSteps.length} steps for ${droppedRecords.length} records beyond the set quota`, created);
     }
-    
-    // If we reach here, unsupported industry
-    throw new Error(`Unsupported industry: ${industryKey}. Only 'demo' and 'ecommerce' are currently supported.`);
+
+    // Steps wait for the steps creating the records they reference
+    deriveStepDependencies(setSteps);
+
+    // Insert all job steps
+    const createdSteps = setSteps.length > 0 ? await storage.createJobSteps(setSteps) : [];
+
+    return {
+      jobId: createdJob.id,
+      stepsCount: createdSteps.length
+    };
     
   } catch (error: any) {
     console.error('Error scheduling simulation job:', error);
@@ -632,88 +917,50 @@ async function createDemoModeJob(
 }
 
 /**
- * Create Demo Mode job from CSV template (1 hour duration with 36 sets)
+ * Load a user uploaded lifecycle template for the simulation owner
+ */
+async function loadUserLifecycleTemplate(
+  simulation: Simulation,
+  customTemplate: NonNullable<SimulationConfig['customTemplate']>,
+  outcome: 'won' | 'lost'
+): Promise<LifecycleTemplate> {
+  const record = await storage.getLifecycleTemplateVersion(simulation.userId, customTemplate.name, outcome, customTemplate.versions?.[outcome]);
+  if (!record) {
+    throw new Error(`Lifecycle template '${customTemplate.name}' has no closed-${outcome} variant`);
+  }
+  
+  return createLifecycleTemplate(
+    record.industry || simulation.industry,
+    outcome,
+    `${record.name} v${record.version} (${outcome})`,
+    record.content
+  );
+}
+
+/**
+ * Create a Demo Mode job for one set of the CSV template (authored as 1 hour with 36 sets, scaled to targetCycleDays)
  */
 async function createDemoModeJobFromCSV(
   simulation: Simulation,
   outcome: 'won' | 'lost',
   contactSeq: number,
-  setStartAt: Date
+  setStartAt: Date,
+  targetCycleDays: number = DEMO_TEMPLATE_CYCLE_DAYS
 ): Promise<{ jobId: number; stepsCount: number }> {
   console.log('🎮 Creating Demo Mode job from CSV template');
   
-  // Load the CSV template
-  const csvFileName = 'simulation_timing_1h_36sets_with_payloads_1755371217278.csv';
-  const csvPath = join(process.cwd(), 'attached_assets', csvFileName);
-  let csvContent: string;
-  
-  try {
-    csvContent = readFileSync(csvPath, 'utf-8');
-    console.log(`✅ Loaded Demo Mode CSV template: ${csvFileName}`);
-  } catch (error) {
-    console.error(`❌ Failed to load Demo Mode CSV template: ${csvFileName}`, error);
-    throw new Error(`Demo Mode CSV template not found: ${csvFileName}`);
-  }
-  
-  // Parse CSV content with new format
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const rows: DemoCsvRow[] = [];
-  
-  console.log(`CSV has ${lines.length} lines including header`);
-  
-  for (let i = 1; i < lines.length; i++) {
-    // Enhanced CSV parsing for complex fields with quotes and JSON
-    const line = lines[i];
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let bracketDepth = 0;
-    
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
-      const nextChar = line[j + 1];
-      
-      if (char === '"' && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        j++; // Skip next quote
-      } else if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === '{' && inQuotes) {
-        bracketDepth++;
-        current += char;
-      } else if (char === '}' && inQuotes) {
-        bracketDepth--;
-        current += char;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    values.push(current.trim()); // Don't forget the last value
-    
-    if (values.length >= 12) { // New CSV has 12 columns
-      rows.push({
-        simulationId: values[0]?.replace(/"/g, '') || '',
-        setId: values[1]?.replace(/"/g, '') || '',
-        timeToCreate: parseInt(values[2]) || 0,
-        actionId: parseInt(values[3]) || 0,
-        typeOfAction: values[4]?.replace(/"/g, '') || '',
-        recordType: values[5]?.replace(/"/g, '') || '',
-        recordId: values[6]?.replace(/"/g, '') || '',
-        associationType: values[7]?.replace(/"/g, '') || '',
-        associationTypeId: values[8]?.replace(/"/g, '') || '',
-        associatedRecordId: values[9]?.replace(/"/g, '') || '',
-        payload: values[10] || '{}',
-        details: values[11]?.replace(/"/g, '') || ''
-      });
-    }
-  }
+  const { fileName: csvFileName, rows } = loadDemoTemplate();
   
   console.log(`Parsed ${rows.length} rows from Demo Mode CSV template`);
   
+  // Each job runs one template set; sets beyond the template's count reuse its sets in order
+  const templateSetIds = Array.from(new Set(rows.map(row => row.setId)));
+  const setId = templateSetIds[(contactSeq - 1) % templateSetIds.length];
+  const setRows = rows.filter(row => row.setId === setId);
+  const setBaseSeconds = Math.min(...setRows.map(row => row.timeToCreate));
+  const scalingFactor = targetCycleDays / DEMO_TEMPLATE_CYCLE_DAYS;
+  console.log(`🎮 Demo set ${contactSeq} uses template set ${setId} (${setRows.length} rows)`);
+  
   // For demo mode, we process all rows but apply won/lost branching during execution
   // Store outcome preference in job metadata
   const simulationIdPlaceholder = `sim_${simulation.id}_${Date.now()}`;
@@ -726,17 +973,20 @@ async function createDemoModeJobFromCSV(
     industry: simulation.industry,
     contactSeq: contactSeq,
     originalSource: csvFileName,
-    acceleratorDays: '0.042', // 1 hour = 0.042 days
+    acceleratorDays: targetCycleDays.toString(),
     baseCycleDays: 1,
     jobStartAt: setStartAt,
     status: 'pending',
     metadata: {
       mode: 'demo',
       csvSource: csvFileName,
-      totalSets: 36,
-      durationHours: 1,
+      totalSets: simulation.config?.totalSets || 1,
+      templateSetId: setId,
+      durationHours: targetCycleDays * 24,
+      scalingFactor,
       simulationIdPlaceholder,
-      outcome // Store the chosen outcome for branching
+      outcome, // Store the chosen outcome for branching
+      backfill: simulation.config?.backfill === true
     },
     context: {} // Initialize context for recordId mapping
   };
@@ -747,8 +997,8 @@ async function createDemoModeJobFromCSV(
   // Generate job steps from CSV
   const jobStepsData: InsertJobStep[] = [];
   
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
+  for (let i = 0; i < setRows.length; i++) {
+    const row = setRows[i];
     
     // Replace simulationId placeholder
     const recordId = row.recordId.replace('{{simulationId}}', simulationIdPlaceholder);
@@ -757,10 +1007,11 @@ async function createDemoModeJobFromCSV(
       .filter(id => id.trim())
       .map(id => id.replace('{{simulationId}}', simulationIdPlaceholder));
     
-    // Calculate scheduled time
-    const scheduledAt = new Date(setStartAt.getTime() + row.timeToCreate * 1000);
+    // Calculate scheduled time relative to the set's first row, scaled to the target duration
+    const scaledSeconds = (row.timeToCreate - setBaseSeconds) * scalingFactor;
+    const scheduledAt = new Date(setStartAt.getTime() + scaledSeconds * 1000);
     
-    // Skip rows beyond 1 hour (3600 seconds)
+    // Skip rows beyond the template's 1 hour (3600 seconds)
     if (row.timeToCreate > 3600) {
       console.log(`Skipping row with timeToCreate ${row.timeToCreate} (beyond 1 hour)`);
       continue;
@@ -781,7 +1032,7 @@ async function createDemoModeJobFromCSV(
       jobId: createdJob.id,
       stepIndex: i,
       templateDay: Math.floor(row.timeToCreate / 86400), // Convert seconds to days
-      scaledDay: Math.floor(row.timeToCreate / 86400),
+      scaledDay: Math.floor(scaledSeconds / 86400),
       scheduledAt,
       typeOfAction: row.typeOfAction,
       recordType: row.recordType,
@@ -801,15 +1052,27 @@ async function createDemoModeJobFromCSV(
     });
   }
   
+  // Shift steps out of nights, weekends and holidays
+  applyCalendarPolicy(jobStepsData, simulation.config, setStartAt);
+  
+  // Keep this set's share of the requested record distribution
+  const { steps: setSteps, created, droppedRecords } = applySetRecordQuota(jobStepsData, getSetRecordQuota(simulation.config, contactSeq));
+  if (droppedRecords.length > 0) {
+    console.log(`📊 Set ${contactSeq}: dropped ${jobStepsData.length - setSteps.length} steps for ${droppedRecords.length} records beyond the set quota`, created);
+  }
+  
+  // Steps wait for the steps creating the records they reference
+  deriveStepDependencies(setSteps);
+  
   // Insert all job steps
-  if (jobStepsData.length > 0) {
-    await storage.createJobSteps(jobStepsData);
-    console.log(`Created ${jobStepsData.length} Demo Mode job steps for job ${createdJob.id}`);
+  if (setSteps.length > 0) {
+    await storage.createJobSteps(setSteps);
+    console.log(`Created ${setSteps.length} Demo Mode job steps for job ${createdJob.id}`);
   }
   
   return {
     jobId: createdJob.id,
-    stepsCount: jobStepsData.length
+    stepsCount: setSteps.length
   };
 }
 
@@ -1060,188 +1323,322 @@ async function storeRecordIdInContext(
   recordIdTpl: string, 
   actualCrmId: string
 ): Promise<void> {
-  const context = await storage.getJobContext(jobId);
-  context[recordIdTpl] = actualCrmId;
-  await storage.updateJobContext(jobId, context);
+  // Merged in place: other steps of the job may be storing their records at the same time
+  await storage.mergeJobContext(jobId, { [recordIdTpl]: actualCrmId });
   console.log(`💾 Stored in context: "${recordIdTpl}" -> "${actualCrmId}"`);
 }
 
 /**
- * Run due job steps by querying pending steps and executing their actions
+ * Run one claimed job step: check its simulation, resolve template references,
+ * execute the action and record the outcome. Returns true when the step succeeded.
  */
-export async function runDueJobSteps(): Promise<{ processed: number; successful: number; failed: number }> {
+export async function processJobStep(step: JobStep): Promise<boolean> {
   try {
-    const now = new Date();
-    const dueSteps = await storage.getDueJobSteps(now);
+    // Get job details to check simulation status
+    const jobForToken = await getJobById(step.jobId);
     
-    let processed = 0;
-    let successful = 0;
-    let failed = 0;
-
-    for (const step of dueSteps) {
-      try {
-        processed++;
-        
-        // Get job details to check simulation status
-        const jobForToken = await getJobById(step.jobId);
-        
-        // Skip if job doesn't exist
-        if (!jobForToken) {
-          console.warn(`Job ${step.jobId} not found - marking step as cancelled`);
-          await storage.updateJobStepStatus(step.id, 'cancelled', {
-            error: 'Job not found',
-            timestamp: new Date().toISOString()
-          });
-          failed++;
-          continue;
-        }
-        
-        // Check if simulation is marked for immediate cancellation
-        if (isSimulationCancelled(jobForToken.simulationId)) {
-          console.log(`🛑 Skipping step ${step.id} - simulation ${jobForToken.simulationId} marked for cancellation`);
-          await storage.updateJobStepStatus(step.id, 'cancelled', {
-            error: 'Simulation stopped',
-            timestamp: new Date().toISOString()
-          });
-          failed++;
-          continue;
-        }
-
-        // Also check if simulation status is 'stopped' or 'completed' in database
-        try {
-          const simulation = await storage.getSimulationById(jobForToken.simulationId);
-          if (simulation && (simulation.status === 'stopped' || simulation.status === 'completed')) {
-            console.log(`🛑 Skipping step ${step.id} - simulation ${jobForToken.simulationId} has status: ${simulation.status}`);
-            await storage.updateJobStepStatus(step.id, 'cancelled', {
-              error: `Simulation ${simulation.status}`,
-              timestamp: new Date().toISOString()
-            });
-            failed++;
-            continue;
-          }
-        } catch (error) {
-          console.warn(`⚠️ Could not verify simulation ${jobForToken.simulationId} status:`, error);
-        }
-        
-        // Mark step as processing only after all checks pass
-        await storage.updateJobStepStatus(step.id, 'processing');
-        
-        const hubspotToken = await getHubSpotToken(jobForToken.simulationId);
-        
-        // Skip this step if token not available (simulation deleted/invalid)
-        if (!hubspotToken) {
-          console.warn(`No HubSpot token for simulation ${jobForToken.simulationId} - marking step as cancelled`);
-          await storage.updateJobStepStatus(step.id, 'cancelled', {
-            error: 'Simulation deleted or HubSpot token not available',
-            timestamp: new Date().toISOString()
-          });
-          failed++;
-          continue;
-        }
-        
-        // Create correlation ID for template resolution
-        const correlationId = `${step.jobId}-${step.stepIndex}`;
-
-        // Resolve template references before execution (with search fallback)
-        const { resolvedRecordId, resolvedAssociations } = await resolveTemplateReferences(
-          step.jobId, 
-          step.recordIdTpl || '', 
-          step.associationsTpl || {},
-          step.actionTpl || undefined,
-          hubspotToken || undefined,
-          correlationId
-        );
-        
-        // Create enhanced step with resolved references
-        const enhancedStep = {
-          ...step,
-          recordIdTpl: resolvedRecordId,
-          associationsTpl: resolvedAssociations
-        };
+    // Skip if job doesn't exist
+    if (!jobForToken) {
+      console.warn(`Job ${step.jobId} not found - marking step as cancelled`);
+      await finishJobStep(step, 'cancelled', {
+        error: 'Job not found',
+        timestamp: new Date().toISOString()
+      });
+      return false;
+    }
+    
+    // Check if simulation is marked for immediate cancellation
+    if (isSimulationCancelled(jobForToken.simulationId)) {
+      console.log(`🛑 Skipping step ${step.id} - simulation ${jobForToken.simulationId} marked for cancellation`);
+      await finishJobStep(step, 'cancelled', {
+        error: 'Simulation stopped',
+        timestamp: new Date().toISOString()
+      });
+      return false;
+    }
 
-        // Execute the action based on step type
-        const result = await executeJobStepAction(enhancedStep);
-        
-        // Mark as completed with result
-        if (result.success) {
-          // Store the created record ID in context for future steps
-          if (result.recordId && step.recordIdTpl && step.typeOfAction?.startsWith('create_')) {
-            await storeRecordIdInContext(step.jobId, step.recordIdTpl, result.recordId);
-            console.log(`💾 Stored created record: ${step.recordIdTpl} -> ${result.recordId}`);
-          }
-          
-          await storage.updateJobStepStatus(step.id, 'completed', result);
-          successful++;
-        } else {
-          // Check if this is a non-retryable failure (e.g., validation error)
-          const status = result.nonRetryable ? 'failed_non_retryable' : 'failed';
-          await storage.updateJobStepStatus(step.id, status, result);
-          failed++;
-          
-          // Log validation errors more prominently
-          if (result.nonRetryable) {
-            console.error(`❌ Non-retryable failure for step ${step.id} (${step.typeOfAction}): ${result.error}`);
-          }
-        }
-        
-      } catch (error: any) {
-        // Mark as failed with error details
-        await storage.updateJobStepStatus(step.id, 'failed', {
-          error: error.message,
-          timestamp: new Date().toISOString(),
-          retryCount: 0
+    // Also check if simulation status is 'stopped' or 'completed' in database
+    try {
+      const simulation = await storage.getSimulationById(jobForToken.simulationId);
+      if (simulation && (simulation.status === 'stopped' || simulation.status === 'completed')) {
+        console.log(`🛑 Skipping step ${step.id} - simulation ${jobForToken.simulationId} has status: ${simulation.status}`);
+        await finishJobStep(step, 'cancelled', {
+          error: `Simulation ${simulation.status}`,
+          timestamp: new Date().toISOString()
         });
-        failed++;
-        
-        console.error(`Job step ${step.id} failed:`, error.message);
+        return false;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not verify simulation ${jobForToken.simulationId} status:`, error);
+    }
+    
+    const hubspotToken = await getHubSpotToken(jobForToken.simulationId);
+    
+    // Skip this step if token not available (simulation deleted/invalid)
+    if (!hubspotToken) {
+      console.warn(`No HubSpot token for simulation ${jobForToken.simulationId} - marking step as cancelled`);
+      await finishJobStep(step, 'cancelled', {
+        error: 'Simulation deleted or HubSpot token not available',
+        timestamp: new Date().toISOString()
+      });
+      return false;
+    }
+    
+    // Create correlation ID for template resolution
+    const correlationId = `${step.jobId}-${step.stepIndex}`;
+
+    // Resolve template references before execution (with search fallback)
+    const { resolvedRecordId, resolvedAssociations } = await resolveTemplateReferences(
+      step.jobId, 
+      step.recordIdTpl || '', 
+      step.associationsTpl || {},
+      step.actionTpl || undefined,
+      hubspotToken || undefined,
+      correlationId
+    );
+    
+    // Create enhanced step with resolved references
+    const enhancedStep = {
+      ...step,
+      recordIdTpl: resolvedRecordId,
+      associationsTpl: resolvedAssociations
+    };
+
+    // Execute the action based on step type
+    const result = await executeJobStepAction(enhancedStep);
+    
+    // Mark as completed with result
+    if (result.success) {
+      // Store the created record ID in context for future steps
+      if (result.recordId && step.recordIdTpl && isCreateAction(step.typeOfAction)) {
+        await storeRecordIdInContext(step.jobId, step.recordIdTpl, result.recordId);
+        console.log(`💾 Stored created record: ${step.recordIdTpl} -> ${result.recordId}`);
       }
+      
+      if (!await finishJobStep(step, 'completed', result)) {
+        return false;
+      }
+      await unblockDependentSteps(step);
+      return true;
+    } else {
+      await recordJobStepFailure(step, result);
+      return false;
     }
+  } catch (error: any) {
+    console.error(`Job step ${step.id} failed:`, error.message);
+    await recordJobStepFailure(step, {
+      error: error.message,
+      status: error.status,
+      timestamp: new Date().toISOString()
+    });
+    return false;
+  }
+}
+
+/**
+ * Record the outcome of a step this worker holds the lease on. Returns false, dropping the
+ * result, when the lease was lost and the step recovered or claimed by another worker.
+ */
+async function finishJobStep(step: JobStep, status: string, result: any): Promise<boolean> {
+  const finished = await storage.finishLeasedJobStep(step.id, step.leasedBy || '', status, result);
+  if (!finished) {
+    console.warn(`⚠️ Dropped ${status} result of step ${step.id} - its lease was lost, so another worker owns the step`);
+  }
+  return finished;
+}
 
-    if (processed > 0) {
-      console.log(`Job runner processed ${processed} steps: ${successful} successful, ${failed} failed`);
+/**
+ * Retry a failed step with backoff, or move it to dead letter / non-retryable.
+ * Every attempt's error is kept in result.attemptErrors for inspection.
+ */
+async function recordJobStepFailure(step: JobStep, result: any): Promise<void> {
+  const attempts = step.attempts || 1;
+  const previousErrors = (step.result as any)?.attemptErrors || [];
+  const failure = {
+    ...result,
+    attempts,
+    attemptErrors: [...previousErrors, { attempt: attempts, error: result.error, status: result.status, timestamp: new Date().toISOString() }]
+  };
+
+  const decision = decideStepFailure(result, attempts);
+  if (decision.status === 'pending') {
+    const rescheduled = await storage.retryJobStep(step.id, step.leasedBy || '', decision.nextAttemptAt, { ...failure, retryScheduledAt: decision.nextAttemptAt.toISOString() });
+    if (!rescheduled) {
+      console.warn(`⚠️ Dropped failure of step ${step.id} - its lease was lost, so another worker owns the step`);
+      return;
     }
+    console.warn(`🔁 Step ${step.id} (${step.typeOfAction}) failed on attempt ${attempts}/${retryPolicy.maxAttempts} - retrying at ${decision.nextAttemptAt.toISOString()}: ${result.error}`);
+    return;
+  }
 
-    return { processed, successful, failed };
+  if (!await finishJobStep(step, decision.status, failure)) {
+    return;
+  }
+  await blockDependentSteps(step, decision.status);
+  if (decision.status === DEAD_LETTER_STATUS) {
+    console.error(`☠️ Step ${step.id} (${step.typeOfAction}) moved to dead letter after ${attempts} attempts: ${result.error}`);
+  } else {
+    // Log validation errors more prominently
+    console.error(`❌ Non-retryable failure for step ${step.id} (${step.typeOfAction}): ${result.error}`);
+  }
+}
 
-  } catch (error: any) {
-    console.error('Error running due job steps:', error);
-    throw new Error(`Failed to run due job steps: ${error.message}`);
+/**
+ * Take every step that depends (directly or through other steps) on a step that failed for good
+ * out of the queue, so it is not run against a record that was never created. Dependents of a
+ * dead-lettered step are blocked until it is requeued; dependents of a non-retryable failure,
+ * which cannot be requeued, are skipped.
+ */
+export async function blockDependentSteps(failedStep: JobStep, failedStatus: string): Promise<void> {
+  const steps = await storage.getJobSteps(failedStep.jobId);
+  const queue = [failedStep.stepIndex];
+  const dependentStatus = failedStatus === DEAD_LETTER_STATUS ? BLOCKED_STATUS : SKIPPED_STATUS;
+  // A requeued step that now fails non-retryably also releases the steps it had blocked
+  const affectedStatuses = dependentStatus === SKIPPED_STATUS ? ['pending', 'paused', BLOCKED_STATUS] : ['pending', 'paused'];
+  let blockedCount = 0;
+  
+  while (queue.length > 0) {
+    const prerequisiteIndex = queue.shift();
+    for (const step of steps) {
+      if (!affectedStatuses.includes(step.status || '') || !step.dependsOn?.includes(prerequisiteIndex as number)) continue;
+      
+      await storage.updateJobStepStatus(step.id, dependentStatus, {
+        error: `Blocked by step ${failedStep.id} (${failedStep.typeOfAction} ${failedStep.recordIdTpl || ''}) which is ${failedStatus}`,
+        blockedBy: { stepId: failedStep.id, stepIndex: failedStep.stepIndex, status: failedStatus },
+        waitingOnStepIndex: prerequisiteIndex,
+        timestamp: new Date().toISOString()
+      });
+      step.status = dependentStatus;
+      queue.push(step.stepIndex);
+      blockedCount++;
+    }
+  }
+  
+  if (blockedCount > 0) {
+    console.warn(`⛔ ${dependentStatus === BLOCKED_STATUS ? 'Blocked' : 'Skipped'} ${blockedCount} steps of job ${failedStep.jobId} that depend on step ${failedStep.id}`);
   }
 }
 
 /**
- * Start the job runner with a configurable interval
+ * Return blocked steps to the queue once all of their prerequisites have completed. In a live
+ * run a step whose planned time has passed keeps its planned gap after the prerequisite, counted
+ * from now, rather than running straight away; backfill steps keep their past times.
  */
-export function startJobRunner(intervalMs: number = 30000): void {
-  if (jobRunnerInterval) {
-    console.log('Job runner is already running');
+async function unblockDependentSteps(completedStep: JobStep): Promise<void> {
+  const steps = await storage.getJobSteps(completedStep.jobId);
+  const statusByIndex = new Map(steps.map(step => [step.stepIndex, step.status]));
+  statusByIndex.set(completedStep.stepIndex, 'completed');
+  const blocked = steps.filter(step => step.status === BLOCKED_STATUS && step.dependsOn?.includes(completedStep.stepIndex as number));
+  if (blocked.length === 0) {
     return;
   }
-
-  console.log(`Starting job runner with ${intervalMs}ms interval`);
   
-  jobRunnerInterval = setInterval(async () => {
-    try {
-      await runDueJobSteps();
-    } catch (error: any) {
-      console.error('Job runner interval error:', error);
+  const job = await storage.getJobById(completedStep.jobId);
+  const isBackfill = !!(job?.metadata as any)?.backfill;
+  const now = Date.now();
+  // A rescheduled step still runs within the simulation's working hours
+  const calendarPolicy = job && !isBackfill ? (await storage.getSimulationById(job.simulationId))?.config?.calendarPolicy : undefined;
+  
+  for (const step of blocked) {
+    if (!step.dependsOn!.every(index => statusByIndex.get(index) === 'completed')) continue;
+    
+    let scheduledAt = step.scheduledAt || new Date(now);
+    if (!isBackfill && scheduledAt.getTime() < now) {
+      const plannedGapMs = Math.max(0, scheduledAt.getTime() - (completedStep.scheduledAt?.getTime() ?? scheduledAt.getTime()));
+      scheduledAt = new Date(now + plannedGapMs);
+      if (calendarPolicy) {
+        scheduledAt = nextBusinessTime(scheduledAt, calendarPolicy);
+      }
     }
-  }, intervalMs);
+    
+    await storage.unblockJobStep(step.id, scheduledAt, {
+      unblockedBy: { stepId: completedStep.id, stepIndex: completedStep.stepIndex },
+      timestamp: new Date().toISOString()
+    });
+    console.log(`▶️ Unblocked step ${step.id} (${step.typeOfAction}) for ${scheduledAt.toISOString()} - prerequisite step ${completedStep.id} completed`);
+  }
+}
 
-  // Run immediately on start
-  runDueJobSteps().catch((error: any) => {
-    console.error('Initial job runner execution error:', error);
-  });
+/**
+ * Set HubSpot's historical date properties for a backfill step: createdate on
+ * creates, hs_timestamp on notes and engagements, a meeting's start and end time
+ * and closedate when a deal is created or closed
+ */
+function applyHistoricalDates(typeOfAction: string, recordType: string, data: any, historicalAt: Date): void {
+  const action = (typeOfAction || '').toLowerCase();
+  const isCreate = isCreateAction(action);
+  const isDeal = action.endsWith('_deal') || recordType === 'Deal' || recordType === 'Opportunity';
+  const engagement = getEngagementStepType(action, recordType);
+
+  if (isCreate) {
+    data.createdate = historicalAt.toISOString();
+  }
+  if (action === 'create_note' || (action === 'create' && recordType === 'Note') || engagement) {
+    data.hs_timestamp = historicalAt.toISOString();
+  }
+  if (engagement === 'log_meeting') {
+    const durationMs = getMeetingDurationMs(data);
+    data.hs_meeting_start_time = historicalAt.toISOString();
+    data.hs_meeting_end_time = new Date(historicalAt.getTime() + durationMs).toISOString();
+  }
+  if (isDeal && isCreate) {
+    // Generated close dates are relative to today; keep the expected close a month after creation
+    data.closedate = new Date(historicalAt.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString();
+  } else if (isDeal && /closed/i.test(String(data.dealstage || ''))) {
+    data.closedate = historicalAt.toISOString();
+  }
+}
+
+// Standard objects whose created records are assigned an owner
+const OWNED_OBJECT_TYPES = ['contact', 'company', 'deal', 'ticket', 'note', 'task', 'call', 'meeting', 'email'];
+
+/**
+ * Object a create step makes, e.g. create_deal or Create/Opportunity -> deal, log_call -> call
+ */
+function getCreatedObjectType(typeOfAction: string, recordType: string): string | null {
+  const action = (typeOfAction || '').toLowerCase();
+  if (!isCreateAction(action)) {
+    return null;
+  }
+  const objectType = getCreatedRecordType(action, recordType);
+  return objectType === 'opportunity' ? 'deal' : objectType;
 }
 
 /**
- * Stop the job runner
+ * Apply the pipelines and owners chosen in setup to a create step's data. Deals and tickets
+ * go into the chosen pipelines (a generated stage from another pipeline is replaced), and
+ * records get one of the chosen owners, picked by weight. A generated owner is always
+ * replaced, even one of the chosen ones, so assignment follows the configured weights.
  */
-export function stopJobRunner(): void {
-  if (jobRunnerInterval) {
-    clearInterval(jobRunnerInterval);
-    jobRunnerInterval = null;
-    console.log('Job runner stopped');
+function applyCrmTargets(objectType: string | null, data: Record<string, any>, targets: CrmTargets | undefined, step: any, crmMetadata: any): void {
+  if (!objectType || !targets) {
+    return;
+  }
+  
+  if (objectType === 'deal' && targets.dealPipelineId) {
+    const pipeline = crmMetadata?.dealPipelines?.find((candidate: any) => candidate.id === targets.dealPipelineId);
+    data.pipeline = targets.dealPipelineId;
+    if (!pipeline?.stages.some((stage: any) => stage.id === data.dealstage)) {
+      // The stage is set for the chosen pipeline when the deal is validated and progressed
+      delete data.dealstage;
+    }
+  }
+  
+  if (objectType === 'ticket' && targets.ticketPipelineId) {
+    const pipeline = crmMetadata?.ticketPipelines?.find((candidate: any) => candidate.id === targets.ticketPipelineId);
+    data.hs_pipeline = targets.ticketPipelineId;
+    if (pipeline && !pipeline.stages.some((stage: any) => stage.id === data.hs_pipeline_stage)) {
+      const [firstStage] = [...pipeline.stages].sort((a: any, b: any) => a.displayOrder - b.displayOrder);
+      data.hs_pipeline_stage = firstStage?.id;
+    }
+  }
+  
+  const owners = targets.owners || [];
+  if (OWNED_OBJECT_TYPES.includes(objectType) && owners.length > 0) {
+    const ownerId = pickWeightedOwner(owners, getStepOwnerRandom(step));
+    if (ownerId) {
+      data.hubspot_owner_id = ownerId;
+    }
   }
 }
 
@@ -1275,8 +1672,13 @@ async function executeJobStepAction(step: any): Promise<any> {
       throw new Error('Simulation was stopped');
     }
     
+    // Line item changes are worked out from the product catalog, not generated
+    if (LINE_ITEM_STEP_TYPES.includes(typeOfAction)) {
+      return await executeLineItemStep(typeOfAction, hubspotToken, step, simulation);
+    }
+    
     // Fetch CRM metadata for pipeline/stage validation
-    let crmMetadata = null;
+    let crmMetadata: CrmMetadata | null = null;
     if (['create_deal', 'update_deal', 'create_ticket', 'update_ticket', 'close_ticket'].includes(typeOfAction)) {
       try {
         crmMetadata = await fetchCrmMetadata(hubspotToken, simulation.userId);
@@ -1287,6 +1689,28 @@ async function executeJobStepAction(step: any): Promise<any> {
       }
     }
     
+    // Record types the executors do not know are looked up among the portal's custom objects
+    const customObjectType = getCustomObjectRecordType(typeOfAction, recordType);
+    let customObjectSchema: CustomObjectSchema | null = null;
+    let customObjects: CustomObjectSchema[] = [];
+    if (customObjectType) {
+      customObjects = await fetchCustomObjects(hubspotToken, simulation.userId);
+      customObjectSchema = findCustomObjectSchema(customObjects, customObjectType);
+      if (!customObjectSchema) {
+        console.warn(`⚠️ Unknown record type for create: ${customObjectType} is not a custom object in this portal`);
+        return {
+          success: false,
+          error: `Unknown record type for create: ${customObjectType} is not a custom object in this portal`,
+          action: 'create_unknown',
+          timestamp: new Date().toISOString(),
+          nonRetryable: true
+        };
+      }
+    }
+    const generationAction = customObjectSchema ? 'create_custom_object' : typeOfAction;
+    // Custom object prompts are built from the record type's schema
+    const generationMetadata = customObjectSchema ? { ...crmMetadata, customObjectSchema } : crmMetadata;
+    
     // Check if we have a payload from the CSV (new demo mode format)
     let generatedData;
     if (actionTpl?.properties) {
@@ -1303,14 +1727,14 @@ async function executeJobStepAction(step: any): Promise<any> {
       
       // Generate data to fill in empty fields
       const llmData = await generateRealisticData(
-        typeOfAction, 
+        generationAction, 
         job.theme, 
         job.industry, 
         actionTpl,
         jobId,
         step.stepIndex,
         true, // useSeed
-        crmMetadata
+        generationMetadata
       );
       
       // Check for cancellation after LLM call
@@ -1337,14 +1761,14 @@ async function executeJobStepAction(step: any): Promise<any> {
     } else {
       // Old format or no payload - generate all data with LLM
       generatedData = await generateRealisticData(
-        typeOfAction, 
+        generationAction, 
         job.theme, 
         job.industry, 
         actionTpl,
         jobId,
         step.stepIndex,
         true, // useSeed
-        crmMetadata
+        generationMetadata
       );
     }
     
@@ -1361,6 +1785,28 @@ async function executeJobStepAction(step: any): Promise<any> {
       enrichedData.closedate = enrichedData.closedate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
     }
     
+    // Backfill jobs date records at the step's scaled (past) time instead of now
+    if (job.metadata?.backfill && step.scheduledAt) {
+      const historicalAt = new Date(step.scheduledAt);
+      applyHistoricalDates(typeOfAction, recordType, generatedData, historicalAt);
+      applyHistoricalDates(typeOfAction, recordType, enrichedData, historicalAt);
+      console.log(`🕰️ Backfill: dating ${typeOfAction} at ${historicalAt.toISOString()}`);
+    }
+    
+    // Pipelines and owners chosen in setup override generated values
+    const crmTargets = simulation.config?.crmTargets;
+    const createdObjectType = customObjectSchema ? null : getCreatedObjectType(typeOfAction, recordType);
+    if (crmTargets && createdObjectType) {
+      if (!crmMetadata && (crmTargets.dealPipelineId || crmTargets.ticketPipelineId)) {
+        crmMetadata = await fetchCrmMetadata(hubspotToken, simulation.userId).catch((error: any) => {
+          console.warn(`⚠️ Could not fetch CRM metadata for pipeline targets: ${error.message}`);
+          return null;
+        });
+      }
+      applyCrmTargets(createdObjectType, generatedData, crmTargets, step, crmMetadata);
+      applyCrmTargets(createdObjectType, enrichedData, crmTargets, step, crmMetadata);
+    }
+    
     // For update/close operations, resolve template references first
     let resolvedStep = step;
     if (['update_deal', 'update_ticket', 'close_ticket', 'Update', 'update'].includes(typeOfAction)) {
@@ -1400,6 +1846,10 @@ async function executeJobStepAction(step: any): Promise<any> {
       throw new Error('Simulation was stopped');
     }
     
+    if (customObjectSchema) {
+      return await executeCreateCustomObject(customObjectSchema, generatedData, hubspotToken, step, customObjects);
+    }
+    
     // Execute the specific action
     switch (typeOfAction) {
       case 'create_contact':
@@ -1419,6 +1869,12 @@ async function executeJobStepAction(step: any): Promise<any> {
       case 'create_ticket':
         return await executeCreateTicket(generatedData, hubspotToken, step);
         
+      case 'create_task':
+      case 'log_call':
+      case 'log_meeting':
+      case 'log_email':
+        return await executeCreateEngagement(typeOfAction, generatedData, hubspotToken, step);
+        
       case 'update_deal':
         return await executeUpdateDeal(generatedData, hubspotToken, resolvedStep);
         
@@ -1481,6 +1937,8 @@ async function executeJobStepAction(step: any): Promise<any> {
           return await executeCreateNote(generatedData, hubspotToken, step);
         } else if (recordType === 'Ticket') {
           return await executeCreateTicket(generatedData, hubspotToken, step);
+        } else if (getEngagementStepType(typeOfAction, recordType)) {
+          return await executeCreateEngagement(getEngagementStepType(typeOfAction, recordType)!, generatedData, hubspotToken, step);
         } else {
           console.warn(`⚠️ Unknown record type for create: ${recordType}`);
           return {
@@ -1501,7 +1959,7 @@ async function executeJobStepAction(step: any): Promise<any> {
     
     console.error(`Error executing job step ${step.id}:`, error.message);
     
-    // Handle specific error types as non-retryable
+    // LLM failures are usually transient - leave them to the retry policy
     if (error instanceof GenerateDataError) {
       logEvent('error', correlationId, 'generate.llm.error', {
         code: error.code,
@@ -1510,7 +1968,6 @@ async function executeJobStepAction(step: any): Promise<any> {
       });
       return {
         success: false,
-        nonRetryable: true,
         error: error.message,
         code: error.code,
         action: typeOfAction,
@@ -1553,10 +2010,11 @@ async function executeJobStepAction(step: any): Promise<any> {
       };
     }
     
-    // Default retryable error
+    // Default retryable error; the HTTP status (if any) decides whether a retry can help
     return {
       success: false,
       error: error.message,
+      status: error.status,
       action: typeOfAction,
       timestamp: new Date().toISOString()
     };
@@ -1721,7 +2179,7 @@ async function generateRealisticData(
     // Add demo details to prompts for notes and tickets in Demo Mode
     let enhancedPrompt = basePrompt;
     if (industry === 'demo' && demoDetailsSamples && demoDetailsSamples.length > 0 && 
-        (actionType.includes('note') || actionType.includes('ticket'))) {
+        (actionType.includes('note') || actionType.includes('ticket') || ENGAGEMENT_STEP_TYPES[actionType])) {
       const sampleDetails = demoDetailsSamples.slice(0, 6).join('\n• ');
       enhancedPrompt += `\n\nFor context, here are some example scenarios from this demo simulation:\n• ${sampleDetails}\n\nUse these as inspiration for realistic content that fits the ${theme} theme.`;
     }
@@ -2011,6 +2469,41 @@ function createLLMPrompt(actionType: string, theme: string, industry: string, te
       }
       return ticketPrompt;
       
+    case 'create_task':
+      return `${basePrompt} Create a follow-up task a sales rep would set themselves at this point in the ${theme} story. Keep the body under 300 characters. Return JSON with: {"hs_task_subject": "Send revised proposal", "hs_task_body": "", "hs_task_status": "NOT_STARTED", "hs_task_priority": "MEDIUM", "hs_task_type": "TODO"}
+      
+      hs_task_status must be one of NOT_STARTED, IN_PROGRESS, WAITING, COMPLETED, DEFERRED. hs_task_priority must be LOW, MEDIUM or HIGH. hs_task_type must be CALL, EMAIL or TODO.`;
+      
+    case 'log_call':
+      return `${basePrompt} Log a sales call with a short summary of what was discussed that fits the ${theme}. Keep the body under 300 characters. Return JSON with: {"hs_call_title": "Discovery call", "hs_call_body": "", "hs_call_direction": "OUTBOUND", "hs_call_status": "COMPLETED", "hs_call_duration": 900000}
+      
+      hs_call_direction must be INBOUND or OUTBOUND. hs_call_status must be one of COMPLETED, BUSY, NO_ANSWER, FAILED, CANCELED. hs_call_duration is in milliseconds.`;
+      
+    case 'log_meeting':
+      return `${basePrompt} Log a meeting with the customer, with meeting notes that fit the ${theme}. Keep the body under 300 characters. Return JSON with: {"hs_meeting_title": "Product demo", "hs_meeting_body": "", "hs_meeting_outcome": "COMPLETED", "hs_meeting_location": "Zoom"}
+      
+      hs_meeting_outcome must be one of SCHEDULED, COMPLETED, RESCHEDULED, NO_SHOW, CANCELED. DO NOT include start or end times - they are set from the simulation schedule.`;
+      
+    case 'log_email':
+      return `${basePrompt} Log a one-to-one sales email that fits the ${theme}. Keep the text under 500 characters. Return JSON with: {"hs_email_subject": "Following up on our demo", "hs_email_text": "", "hs_email_direction": "EMAIL", "hs_email_status": "SENT"}
+      
+      hs_email_direction must be EMAIL (sent by the rep), INCOMING_EMAIL (reply from the customer) or FORWARDED_EMAIL. hs_email_status must be SENT.`;
+      
+    case 'create_custom_object': {
+      const schema: CustomObjectSchema = crmMetadata.customObjectSchema;
+      return `Generate a realistic ${schema.labels.singular} record for a ${theme}-themed ${industry} simulation that maintains internal consistency. You MUST return valid JSON with every required property and any optional ones that fit.
+      
+      Properties (use these exact names; where options are listed use one of them exactly):
+${getCustomObjectPropertyOptions(schema)}
+      
+      Numbers must be plain numbers and dates ISO 8601 strings. DO NOT add properties that are not listed.`;
+    }
+      
+    case 'create_product_catalog':
+      return `${basePrompt} Create a product catalog of 6 products or services a ${industry} company in the ${theme} theme would sell, with realistic unit prices in USD. Return JSON with: {"products": [{"name": "Starter Plan", "description": "", "price": 49}]}
+      
+      Each price must be a positive number without a currency symbol. Product names must be unique.`;
+      
     case 'update_deal':
       let updateDealPrompt = `${basePrompt} Create data to update a deal that fits the ${theme} theme.`;
       if (crmMetadata) {
@@ -2090,25 +2583,6 @@ async function getJobById(jobId: number): Promise<any> {
   }
 }
 
-/**
- * Helper to get association type ID for HubSpot v4 API
- * Maps association type strings to their numeric IDs
- */
-function getAssociationTypeId(associationType: string): number {
-  const associationMap: Record<string, number> = {
-    'deal_to_contact': 3,
-    'deal_to_company': 5,
-    'ticket_to_contact': 15,
-    'ticket_to_company': 25,
-    'note_to_contact': 10,
-    'note_to_deal': 9,
-    'note_to_company': 11,
-    'contact_to_company': 1
-  };
-  
-  return associationMap[associationType] || 1;
-}
-
 /**
  * Get HubSpot API token for user
  */
@@ -2134,6 +2608,20 @@ async function getHubSpotToken(simulationId: number): Promise<string | null> {
  * Execute contact creation with deduplication
  */
 async function executeCreateContact(data: any, token: string, step?: any): Promise<any> {
+  // A retried step reuses the contact its earlier attempt created
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingContact = await findRecordByStepKey('contacts', idempotencyKey, token);
+  if (existingContact) {
+    return {
+      success: true,
+      recordId: existingContact.id,
+      action: 'create_contact',
+      data: existingContact.properties,
+      idempotentReplay: true,
+      timestamp: new Date().toISOString()
+    };
+  }
+
   // Check for existing contact if search fallback is enabled and email exists
   if (ENABLE_SEARCH_FALLBACK && data.email) {
     const searchResult = await searchContact(data.email, token);
@@ -2207,7 +2695,7 @@ async function executeCreateContact(data: any, token: string, step?: any): Promi
   const hubspotData = convertPropertiesToHubSpotFormat(legacyValidatedData);
   
   // Create contact via HubSpot API with retry logic
-  const response = await createRecordWithRetry('contacts', hubspotData, token, legacyValidatedData);
+  const response = await createRecordWithRetry('contacts', hubspotData, token, legacyValidatedData, await getRecordProvenance(step));
   
   return {
     success: true,
@@ -2223,6 +2711,20 @@ async function executeCreateContact(data: any, token: string, step?: any): Promi
  * Execute company creation with deduplication
  */
 async function executeCreateCompany(data: any, token: string, step?: any): Promise<any> {
+  // A retried step reuses the company its earlier attempt created
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingCompany = await findRecordByStepKey('companies', idempotencyKey, token);
+  if (existingCompany) {
+    return {
+      success: true,
+      recordId: existingCompany.id,
+      action: 'create_company',
+      data: existingCompany.properties,
+      idempotentReplay: true,
+      timestamp: new Date().toISOString()
+    };
+  }
+
   // IMPORTANT: If this company is being associated to a contact, use the contact's company name
   // to avoid LLM-generated mismatches in the CRM
   if (step?.associationsTpl && Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
@@ -2342,7 +2844,7 @@ async function executeCreateCompany(data: any, token: string, step?: any): Promi
   const hubspotData = convertPropertiesToHubSpotFormat(legacyValidatedData);
   
   // Create company via HubSpot API with retry logic
-  const response = await createRecordWithRetry('companies', hubspotData, token, legacyValidatedData);
+  const response = await createRecordWithRetry('companies', hubspotData, token, legacyValidatedData, await getRecordProvenance(step));
   
   return {
     success: true,
@@ -2386,157 +2888,563 @@ async function executeCreateDeal(data: any, token: string, step: any): Promise<a
     console.error(`Deal stage validation failed: ${validation.error}`);
     return {
       success: false,
-      error: `Pipeline/Stage validation failed: ${validation.error}`,
-      action: 'create_deal',
+      error: `Pipeline/Stage validation failed: ${validation.error}`,
+      action: 'create_deal',
+      timestamp: new Date().toISOString(),
+      nonRetryable: true // Mark as non-retryable failure
+    };
+  }
+
+  // Use validated data with resolved pipeline and stage IDs
+  const validatedData = validation.resolvedData;
+  
+  // Remove generatedAt property if present (HubSpot doesn't allow camelCase)
+  delete validatedData.generatedAt;
+  delete validatedData.generated_at; // Also remove snake_case version from record data
+  
+  console.log(`✅ Deal stage validation passed. Pipeline: ${validatedData.pipeline}, Stage: ${validatedData.dealstage}`);
+  
+  // The starting stage follows the template's milestone, not whatever stage was generated
+  const stageProgression = await applyDealStageProgression(validatedData, step, job, simulation.userId, token);
+
+  // Resolve owner email to HubSpot owner ID if provided
+  const resolvedData = await resolveOwnerEmail(simulation.userId, validatedData, token);
+  
+  // Pre-persistence validation (if enabled)
+  let finalData = resolvedData;
+  if (process.env.STRICT_VALIDATION_BEFORE_PERSISTENCE !== 'false') {
+    finalData = trimStringsDeep(finalData);
+    finalData = validateDataOrThrow(finalData, 'create_deal');
+    
+    // Remove internal fields
+    delete finalData.generatedAt;
+    delete finalData.generated_at;
+    delete (finalData as any).metadata;
+  }
+
+  // A retried step reuses the deal its earlier attempt created, but still makes its associations
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingDeal = await findRecordByStepKey('deals', idempotencyKey, token);
+
+  // With a product catalog the deal amount is the sum of its line items (seeded so a retry plans the same ones)
+  const catalog = await getProductCatalog(simulation, token);
+  let lineItemPlans: LineItemPlan[] = [];
+  if (catalog) {
+    lineItemPlans = planLineItems(catalog.products, parseFloat(finalData.amount) || undefined, createSeededRandom(idempotencyKey || `${step.jobId}-${step.recordIdTpl}`));
+    finalData.amount = getLineItemsTotal(lineItemPlans);
+  }
+
+  // Check for existing deal if search fallback is enabled and dealname exists
+  if (!existingDeal && ENABLE_SEARCH_FALLBACK && finalData.dealname) {
+    const searchResult = await searchDeal(finalData.dealname, token);
+    
+    if (searchResult.found) {
+      if (searchResult.ambiguous) {
+        return {
+          success: false,
+          error: `Ambiguous deal match for name: ${finalData.dealname}`,
+          action: 'create_deal',
+          timestamp: new Date().toISOString()
+        };
+      } else if (searchResult.recordId) {
+        console.log(`🔍 Deduplication: Using existing deal ${searchResult.recordId} for ${finalData.dealname}`);
+        
+        // Still handle associations for existing deal
+        if (step.associationsTpl) {
+          if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
+            // New CSV format - use association type from actionTpl
+            const associationType = step.actionTpl?.associationType || 'deal_to_contact';
+            await createAssociationsV4Batch(searchResult.recordId, 'deals', step.associationsTpl, associationType, token, step.actionTpl?.associationTypeId, step.jobId);
+          } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
+            // Old format
+            await createAssociations(searchResult.recordId, 'deals', step.associationsTpl, token, step.jobId);
+          }
+        }
+        
+        return {
+          success: true,
+          recordId: searchResult.recordId,
+          action: 'create_deal',
+          data: finalData,
+          deduplicated: true,
+          timestamp: new Date().toISOString()
+        };
+      }
+    }
+  }
+  
+  let response = existingDeal;
+  if (!response) {
+    // Legacy validation and coercion
+    const { validData: coercedData, errors } = validateAndCoerceRecordData(finalData, 'deals');
+    if (errors.length > 0) {
+      console.warn(`⚠️ Data validation warnings for deal:`, errors);
+    }
+
+    // Validate and ensure properties exist
+    await ensureHubSpotProperties('deals', Object.keys(coercedData), token, coercedData);
+    
+    // Convert property names to HubSpot-compatible format
+    const hubspotData = convertPropertiesToHubSpotFormat(coercedData);
+    
+    // Create deal via HubSpot API with retry logic
+    response = await createRecordWithRetry('deals', hubspotData, token, coercedData, await getRecordProvenance(step));
+  }
+  
+  // Store the deal ID in job context for future template resolution
+  await storeRecordIdInContext(step.jobId, step.recordIdTpl, response.id);
+  
+  // Handle associations if specified
+  if (step.associationsTpl) {
+    if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
+      // New CSV format - use association type from actionTpl
+      const associationType = step.actionTpl?.associationType || 'deal_to_contact';
+      await createAssociationsV4Batch(response.id, 'deals', step.associationsTpl, associationType, token, step.actionTpl?.associationTypeId, step.jobId);
+    } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
+      // Old format
+      await createAssociations(response.id, 'deals', step.associationsTpl, token, step.jobId);
+    }
+  }
+  
+  // A retried step keeps the line items its earlier attempt created
+  let lineItems = existingDeal && lineItemPlans.length > 0 ? await getDealLineItems(response.id, token) : [];
+  if (lineItems.length === 0 && lineItemPlans.length > 0) {
+    const provenance = await getRecordProvenance(step);
+    if (provenance) {
+      await ensureSimCrmProperties('line_items', token);
+    }
+    lineItems = await createDealLineItems(response.id, lineItemPlans, token, provenance);
+    console.log(`🧾 Added ${lineItems.length} line items to deal ${response.id} totalling ${finalData.amount}`);
+  }
+  
+  return {
+    success: true,
+    recordId: response.id,
+    action: 'create_deal',
+    data: response.properties,
+    hubspotResponse: response,
+    lineItemIds: lineItems.map(lineItem => lineItem.id),
+    lineItems,
+    stageProgression,
+    idempotentReplay: !!existingDeal,
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Execute custom object creation with associations
+ */
+async function executeCreateCustomObject(
+  schema: CustomObjectSchema,
+  data: any,
+  token: string,
+  step: any,
+  customObjects: CustomObjectSchema[] = []
+): Promise<any> {
+  const objectType = schema.objectTypeId;
+  const action = `create_${schema.name}`;
+  
+  // Generated values are limited to the schema's own properties. The only properties SimCRM adds to
+  // the custom object are its simcrm_* provenance properties, which retries find the record by.
+  const allowedProperties = new Set(schema.properties.map(property => property.name));
+  let recordData: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data || {})) {
+    if (allowedProperties.has(key) && value !== null && value !== undefined && value !== '') {
+      recordData[key] = value;
+    }
+  }
+  
+  // Pre-persistence validation (if enabled) against the portal's property definitions
+  if (process.env.STRICT_VALIDATION_BEFORE_PERSISTENCE !== 'false') {
+    recordData = validateDataOrThrow(recordData, action, createCustomObjectSchema(schema.properties, schema.requiredProperties));
+  }
+  
+  // A retried step reuses the record its earlier attempt created, but still makes its associations
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingRecord = await findRecordByStepKey(objectType, idempotencyKey, token);
+  
+  let response = existingRecord;
+  if (!response) {
+    response = await createRecordWithRetry(objectType, recordData, token, undefined, await getRecordProvenance(step));
+  }
+  
+  // Store the record ID in job context for future template resolution
+  await storeRecordIdInContext(step.jobId, step.recordIdTpl, response.id);
+  
+  const associations = await createCustomObjectAssociations(schema, response.id, step, token, customObjects);
+  
+  return {
+    success: true,
+    recordId: response.id,
+    action,
+    objectType,
+    data: response.properties,
+    hubspotResponse: response,
+    associations,
+    idempotentReplay: !!existingRecord,
+    timestamp: new Date().toISOString()
+  };
+}
+
+// Object types of the standard records a custom object can be associated with
+const STANDARD_ASSOCIATION_TARGETS: Record<string, string> = {
+  contact: 'contacts',
+  company: 'companies',
+  deal: 'deals',
+  opportunity: 'deals',
+  ticket: 'tickets',
+  note: 'notes',
+  task: 'tasks',
+  call: 'calls',
+  meeting: 'meetings',
+  email: 'emails'
+};
+
+/**
+ * Associate a custom object record with the records its step names. Custom objects have no
+ * fixed association type IDs, so each pair's type is discovered from the portal at runtime.
+ * Targets come from resolved ID lists (typed by actionTpl.associationType, e.g.
+ * "shipment_to_contact|shipment_to_deal", labeled by actionTpl.associationTypeId),
+ * lifecycle text ("Contact X (Billing Contact), Deal Y") or { Contact: id } objects.
+ */
+async function createCustomObjectAssociations(
+  schema: CustomObjectSchema,
+  recordId: string,
+  step: any,
+  token: string,
+  customObjects: CustomObjectSchema[]
+): Promise<{ successful: number; failed: number; errors: Array<{ association: string; error: string }> }> {
+  const results = { successful: 0, failed: 0, errors: [] as Array<{ association: string; error: string }> };
+  const associationsTpl = step.associationsTpl;
+  const targets: Array<{ type: string; id: string; label?: string }> = [];
+  
+  if (Array.isArray(associationsTpl)) {
+    const types = String(step.actionTpl?.associationType || '').split('|');
+    const labels = String(step.actionTpl?.associationTypeId || '').split('|');
+    associationsTpl.forEach((id: any, index: number) => {
+      const type = (types[index] || '').split('_to_').pop() || '';
+      targets.push({ type, id: String(id), label: getRequestedAssociationLabel(labels[index]) });
+    });
+  } else if (typeof associationsTpl?.original === 'string') {
+    const context = await storage.getJobContext(step.jobId);
+    for (const part of associationsTpl.original.split(',')) {
+      const labelMatch = part.match(/\(([^)]+)\)\s*$/);
+      const words = part.replace(/\([^)]*\)\s*$/, '').trim().split(/\s+/);
+      const ref = words.pop() || '';
+      targets.push({ type: words.join(' '), id: context[ref] || ref, label: getRequestedAssociationLabel(labelMatch?.[1]) });
+    }
+  } else if (associationsTpl && typeof associationsTpl === 'object') {
+    for (const [type, values] of Object.entries(associationsTpl)) {
+      for (const value of ([] as any[]).concat(values)) {
+        const id = value && typeof value === 'object' ? value.id : value;
+        targets.push({ type, id: String(id), label: getRequestedAssociationLabel(value?.label) });
+      }
+    }
+  }
+  const userId = await getJobUserId(step.jobId);
+  
+  for (const target of targets) {
+    const typeKey = target.type.toLowerCase().replace(/ies$/, 'y').replace(/s$/, '');
+    const toObjectType = STANDARD_ASSOCIATION_TARGETS[typeKey]
+      || findCustomObjectSchema(customObjects, target.type)?.objectTypeId;
+    const association = `${schema.name} → ${target.type}:${target.id}`;
+    
+    if (!toObjectType || !/^\d+$/.test(target.id)) {
+      console.warn(`⚠️ Skipping custom object association ${association}: unknown type or unresolved record`);
+      results.failed++;
+      results.errors.push({ association, error: 'Unknown object type or unresolved record ID' });
+      continue;
+    }
+    
+    try {
+      const types = await resolveAssociationTypes(schema.objectTypeId, toObjectType, target.label, token, userId);
+      await makeHubSpotRequest('PUT', `/crm/v4/objects/${schema.objectTypeId}/${recordId}/associations/${toObjectType}/${target.id}`, types, token);
+      console.log(`✅ Created association: ${schema.objectTypeId}:${recordId} → ${toObjectType}:${target.id} (types ${types.map(type => type.associationTypeId).join(', ')})`);
+      results.successful++;
+    } catch (error: any) {
+      console.error(`❌ Failed to create custom object association ${association}:`, error.message);
+      results.failed++;
+      results.errors.push({ association, error: error.message });
+    }
+  }
+  
+  return results;
+}
+
+/**
+ * Add, remove or reprice a line item on a deal, then set the deal amount to its new line item total
+ */
+async function executeLineItemStep(stepType: string, token: string, step: any, simulation: Simulation): Promise<any> {
+  const dealId = String(step.recordIdTpl || '');
+  if (!/^\d+$/.test(dealId)) {
+    return {
+      success: false,
+      error: `Deal ${step.recordIdTpl} has not been created`,
+      action: stepType,
       timestamp: new Date().toISOString(),
-      nonRetryable: true // Mark as non-retryable failure
+      nonRetryable: true
     };
   }
-
-  // Use validated data with resolved pipeline and stage IDs
-  const validatedData = validation.resolvedData;
-  
-  // Remove generatedAt property if present (HubSpot doesn't allow camelCase)
-  delete validatedData.generatedAt;
-  delete validatedData.generated_at; // Also remove snake_case version from record data
-  
-  console.log(`✅ Deal stage validation passed. Pipeline: ${validatedData.pipeline}, Stage: ${validatedData.dealstage}`);
-
-  // Resolve owner email to HubSpot owner ID if provided
-  const resolvedData = await resolveOwnerEmail(simulation.userId, validatedData, token);
   
-  // Pre-persistence validation (if enabled)
-  let finalData = resolvedData;
-  if (process.env.STRICT_VALIDATION_BEFORE_PERSISTENCE !== 'false') {
-    finalData = trimStringsDeep(finalData);
-    finalData = validateDataOrThrow(finalData, 'create_deal');
-    
-    // Remove internal fields
-    delete finalData.generatedAt;
-    delete finalData.generated_at;
-    delete (finalData as any).metadata;
+  const catalog = await getProductCatalog(simulation, token);
+  if (!catalog) {
+    console.log(`⏭️ Skipping ${stepType} - simulation ${simulation.id} has no product catalog`);
+    return {
+      success: true,
+      recordId: 'skipped',
+      action: `${stepType}_skipped`,
+      message: 'Simulation has no product catalog',
+      timestamp: new Date().toISOString()
+    };
   }
-
-  // Check for existing deal if search fallback is enabled and dealname exists
-  if (ENABLE_SEARCH_FALLBACK && finalData.dealname) {
-    const searchResult = await searchDeal(finalData.dealname, token);
+  
+  const change = parseLineItemChange(step.actionTpl, catalog.products);
+  let lineItems = await getDealLineItems(dealId, token);
+  const lineItemIds: string[] = [];
+  const removedLineItemIds: string[] = [];
+  
+  if (stepType === 'add_line_item') {
+    // A retried step reuses the line item its earlier attempt added
+    const idempotencyKey = getStepIdempotencyKey(step);
+    const existing = await findRecordByStepKey('line_items', idempotencyKey, token);
+    if (existing) {
+      lineItemIds.push(String(existing.id));
+    } else {
+      // Without a named product, upsell one the deal does not have yet
+      const random = createSeededRandom(idempotencyKey || `${dealId}-${step.stepIndex}`);
+      const unused = catalog.products.filter(product => !lineItems.some(lineItem => lineItem.productId === product.id));
+      const candidates = unused.length > 0 ? unused : catalog.products;
+      const product = change.product || candidates[Math.floor(random() * candidates.length)];
+      const listPrice = change.percent !== undefined ? product.price * (1 + change.percent / 100) : product.price;
+      
+      const provenance = await getRecordProvenance(step);
+      if (provenance) {
+        await ensureSimCrmProperties('line_items', token);
+      }
+      const [created] = await createDealLineItems(dealId, [{
+        productId: product.id,
+        name: product.name,
+        quantity: change.quantity || 1,
+        price: Math.round((change.price ?? listPrice) * 100) / 100
+      }], token, provenance);
+      lineItems = [...lineItems, created];
+      lineItemIds.push(created.id);
+    }
+  } else {
+    const targets = change.product
+      ? lineItems.filter(lineItem => lineItem.productId === change.product!.id)
+      : stepType === 'reprice_line_item' && change.percent !== undefined ? lineItems : lineItems.slice(-1);
     
-    if (searchResult.found) {
-      if (searchResult.ambiguous) {
+    if (targets.length === 0) {
+      // Nothing to change - already removed by an earlier attempt, or never on the deal
+      console.log(`⏭️ No matching line item on deal ${dealId} for ${stepType}`);
+    } else if (stepType === 'remove_line_item') {
+      for (const lineItem of targets) {
+        await makeHubSpotRequest('DELETE', `/crm/v3/objects/line_items/${lineItem.id}`, null, token);
+        removedLineItemIds.push(lineItem.id);
+      }
+      lineItems = lineItems.filter(lineItem => !removedLineItemIds.includes(lineItem.id));
+    } else {
+      if (change.price === undefined && change.percent === undefined) {
         return {
           success: false,
-          error: `Ambiguous deal match for name: ${finalData.dealname}`,
-          action: 'create_deal',
-          timestamp: new Date().toISOString()
-        };
-      } else if (searchResult.recordId) {
-        console.log(`🔍 Deduplication: Using existing deal ${searchResult.recordId} for ${finalData.dealname}`);
-        
-        // Still handle associations for existing deal
-        if (step.associationsTpl) {
-          if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
-            // New CSV format - use association type from actionTpl
-            const associationType = step.actionTpl?.associationType || 'deal_to_contact';
-            await createAssociationsV4Batch(searchResult.recordId, 'deals', step.associationsTpl, associationType, token);
-          } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
-            // Old format
-            await createAssociations(searchResult.recordId, 'deals', step.associationsTpl, token);
-          }
-        }
-        
-        return {
-          success: true,
-          recordId: searchResult.recordId,
-          action: 'create_deal',
-          data: finalData,
-          deduplicated: true,
-          timestamp: new Date().toISOString()
+          error: 'Reprice step needs a price or a percentage',
+          action: stepType,
+          timestamp: new Date().toISOString(),
+          nonRetryable: true
         };
       }
+      
+      // A new unit price replaces the line's price; a percentage scales the price the job's earlier
+      // steps left it at, so a retry after a failed deal update does not apply it twice
+      const recordedPrices = change.percent !== undefined ? await getRecordedLineItemPrices(step) : new Map<string, number>();
+      await Promise.all(targets.map(lineItem => {
+        const basePrice = recordedPrices.get(lineItem.id) ?? lineItem.price;
+        lineItem.price = Math.round((change.price ?? basePrice * (1 + change.percent! / 100)) * 100) / 100;
+        if (change.quantity) {
+          lineItem.quantity = change.quantity;
+        }
+        return hubspotBatcher.update('line_items', lineItem.id, {
+          price: String(lineItem.price),
+          quantity: String(lineItem.quantity)
+        }, token);
+      }));
     }
   }
   
-  // Legacy validation and coercion
-  const { validData: coercedData, errors } = validateAndCoerceRecordData(finalData, 'deals');
-  if (errors.length > 0) {
-    console.warn(`⚠️ Data validation warnings for deal:`, errors);
+  // Keep the deal worth exactly what its line items add up to
+  const amount = getLineItemsTotal(lineItems);
+  await hubspotBatcher.update('deals', dealId, { amount: String(amount) }, token);
+  console.log(`🧾 ${stepType} on deal ${dealId}: ${lineItems.length} line items, amount ${amount}`);
+  
+  return {
+    success: true,
+    recordId: dealId,
+    action: stepType,
+    data: { amount, lineItems },
+    lineItemIds,
+    removedLineItemIds,
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Unit prices of the deal's line items as the job's other completed steps left them, read from
+ * the line items those steps recorded in their results. They do not change while a step is
+ * retried, unlike the prices on HubSpot, which an earlier attempt may already have updated.
+ */
+async function getRecordedLineItemPrices(step: any): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  const steps = await storage.getJobSteps(step.jobId);
+  for (const jobStep of steps) {
+    if (jobStep.status !== 'completed' || jobStep.stepIndex === step.stepIndex) continue;
+    const result = (jobStep.result as any) || {};
+    for (const lineItem of result.data?.lineItems || result.lineItems || []) {
+      if (lineItem?.id && Number.isFinite(Number(lineItem.price))) {
+        prices.set(String(lineItem.id), Number(lineItem.price));
+      }
+    }
   }
+  return prices;
+}
 
-  // Validate and ensure properties exist
-  await ensureHubSpotProperties('deals', Object.keys(coercedData), token, coercedData);
+/**
+ * Execute note creation with associations
+ */
+async function executeCreateNote(data: any, token: string, step: any): Promise<any> {
+  // Remove generatedAt property if present (HubSpot doesn't allow camelCase)
+  delete data.generatedAt;
+  delete data.generated_at; // Also remove snake_case version from record data
   
-  // Convert property names to HubSpot-compatible format
-  const hubspotData = convertPropertiesToHubSpotFormat(coercedData);
+  // Add ISO timestamp for HubSpot (backfill steps arrive with their historical timestamp)
+  data.hs_timestamp = data.hs_timestamp || new Date().toISOString();
   
-  // Create deal via HubSpot API with retry logic
-  const response = await createRecordWithRetry('deals', hubspotData, token, coercedData);
+  // A retried step reuses the note its earlier attempt created, but still makes its associations
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingNote = await findRecordByStepKey('notes', idempotencyKey, token);
   
-  // Store the deal ID in job context for future template resolution
+  let response = existingNote;
+  if (!response) {
+    // Validate and ensure properties exist
+    await ensureHubSpotProperties('notes', Object.keys(data), token, data);
+    
+    // Convert property names to HubSpot-compatible format
+    const hubspotData = convertPropertiesToHubSpotFormat(data);
+    
+    // Create note via HubSpot API with retry logic
+    response = await createRecordWithRetry('notes', hubspotData, token, data, await getRecordProvenance(step));
+  }
+  
+  // Store the note ID in job context for future template resolution
   await storeRecordIdInContext(step.jobId, step.recordIdTpl, response.id);
   
   // Handle associations if specified
   if (step.associationsTpl) {
     if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
       // New CSV format - use association type from actionTpl
-      const associationType = step.actionTpl?.associationType || 'deal_to_contact';
-      await createAssociationsV4Batch(response.id, 'deals', step.associationsTpl, associationType, token);
+      const associationType = step.actionTpl?.associationType || 'note_to_contact';
+      await createAssociationsV4Batch(response.id, 'notes', step.associationsTpl, associationType, token, step.actionTpl?.associationTypeId, step.jobId);
     } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
       // Old format
-      await createAssociations(response.id, 'deals', step.associationsTpl, token);
+      await createAssociations(response.id, 'notes', step.associationsTpl, token, step.jobId);
     }
   }
   
   return {
     success: true,
     recordId: response.id,
-    action: 'create_deal',
+    action: 'create_note',
     data: response.properties,
     hubspotResponse: response,
+    idempotentReplay: !!existingNote,
     timestamp: new Date().toISOString()
   };
 }
 
+// Meetings the LLM gives no end time for are logged as half an hour long
+const DEFAULT_MEETING_DURATION_MS = 30 * 60 * 1000;
+
 /**
- * Execute note creation with associations
+ * Length of a generated meeting, from its start and end time when both are valid
  */
-async function executeCreateNote(data: any, token: string, step: any): Promise<any> {
+function getMeetingDurationMs(data: any): number {
+  const start = new Date(data.hs_meeting_start_time || '').getTime();
+  const end = new Date(data.hs_meeting_end_time || '').getTime();
+  return !isNaN(start) && !isNaN(end) && end > start ? end - start : DEFAULT_MEETING_DURATION_MS;
+}
+
+/**
+ * Execute task, call, meeting or email creation with associations
+ */
+async function executeCreateEngagement(stepType: string, data: any, token: string, step: any): Promise<any> {
+  const engagement = ENGAGEMENT_STEP_TYPES[stepType];
+  if (!engagement) {
+    throw new Error(`Unknown engagement step type: ${stepType}`);
+  }
+  const { objectType } = engagement;
+  
   // Remove generatedAt property if present (HubSpot doesn't allow camelCase)
   delete data.generatedAt;
   delete data.generated_at; // Also remove snake_case version from record data
   
-  // Add ISO timestamp for HubSpot
-  data.hs_timestamp = new Date().toISOString();
+  // Every engagement is placed on the timeline by hs_timestamp (backfill steps arrive with their historical timestamp)
+  data.hs_timestamp = data.hs_timestamp || new Date().toISOString();
+  if (stepType === 'log_meeting') {
+    const durationMs = getMeetingDurationMs(data);
+    data.hs_meeting_start_time = data.hs_meeting_start_time || data.hs_timestamp;
+    data.hs_meeting_end_time = new Date(new Date(data.hs_meeting_start_time).getTime() + durationMs).toISOString();
+  }
   
-  // Validate and ensure properties exist
-  await ensureHubSpotProperties('notes', Object.keys(data), token, data);
+  // Pre-persistence validation (if enabled)
+  let validatedData = data;
+  if (process.env.STRICT_VALIDATION_BEFORE_PERSISTENCE !== 'false') {
+    validatedData = trimStringsDeep(validatedData);
+    validatedData = validateDataOrThrow(validatedData, stepType);
+    
+    // Remove internal fields
+    delete validatedData.generatedAt;
+    delete validatedData.generated_at;
+    delete (validatedData as any).metadata;
+  }
   
-  // Convert property names to HubSpot-compatible format
-  const hubspotData = convertPropertiesToHubSpotFormat(data);
+  // A retried step reuses the engagement its earlier attempt created, but still makes its associations
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingRecord = await findRecordByStepKey(objectType, idempotencyKey, token);
   
-  // Create note via HubSpot API with retry logic
-  const response = await createRecordWithRetry('notes', hubspotData, token, data);
+  let response = existingRecord;
+  if (!response) {
+    // Validate and ensure properties exist
+    await ensureHubSpotProperties(objectType, Object.keys(validatedData), token, validatedData);
+    
+    // Convert property names to HubSpot-compatible format
+    const hubspotData = convertPropertiesToHubSpotFormat(validatedData);
+    
+    // Create engagement via HubSpot API with retry logic
+    response = await createRecordWithRetry(objectType, hubspotData, token, validatedData, await getRecordProvenance(step));
+  }
   
-  // Store the note ID in job context for future template resolution
+  // Store the engagement ID in job context for future template resolution
   await storeRecordIdInContext(step.jobId, step.recordIdTpl, response.id);
   
   // Handle associations if specified
   if (step.associationsTpl) {
     if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
       // New CSV format - use association type from actionTpl
-      const associationType = step.actionTpl?.associationType || 'note_to_contact';
-      await createAssociationsV4Batch(response.id, 'notes', step.associationsTpl, associationType, token);
+      const associationType = step.actionTpl?.associationType || `${engagement.recordType.toLowerCase()}_to_contact`;
+      await createAssociationsV4Batch(response.id, objectType, step.associationsTpl, associationType, token, step.actionTpl?.associationTypeId, step.jobId);
     } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
       // Old format
-      await createAssociations(response.id, 'notes', step.associationsTpl, token);
+      await createAssociations(response.id, objectType, step.associationsTpl, token, step.jobId);
     }
   }
   
   return {
     success: true,
     recordId: response.id,
-    action: 'create_note',
+    action: stepType,
     data: response.properties,
     hubspotResponse: response,
+    idempotentReplay: !!existingRecord,
     timestamp: new Date().toISOString()
   };
 }
@@ -2561,14 +3469,21 @@ async function executeCreateTicket(data: any, token: string, step: any): Promise
     delete (validatedData as any).metadata;
   }
 
-  // Validate and ensure properties exist
-  await ensureHubSpotProperties('tickets', Object.keys(validatedData), token);
-  
-  // Convert property names to HubSpot-compatible format
-  const hubspotData = convertPropertiesToHubSpotFormat(validatedData);
-  
-  // Create ticket via HubSpot API with retry logic
-  const response = await createRecordWithRetry('tickets', hubspotData, token, validatedData);
+  // A retried step reuses the ticket its earlier attempt created, but still makes its associations
+  const idempotencyKey = getStepIdempotencyKey(step);
+  const existingTicket = await findRecordByStepKey('tickets', idempotencyKey, token);
+
+  let response = existingTicket;
+  if (!response) {
+    // Validate and ensure properties exist
+    await ensureHubSpotProperties('tickets', Object.keys(validatedData), token);
+    
+    // Convert property names to HubSpot-compatible format
+    const hubspotData = convertPropertiesToHubSpotFormat(validatedData);
+    
+    // Create ticket via HubSpot API with retry logic
+    response = await createRecordWithRetry('tickets', hubspotData, token, validatedData, await getRecordProvenance(step));
+  }
   
   // Store the ticket ID in job context for future template resolution
   await storeRecordIdInContext(step.jobId, step.recordIdTpl, response.id);
@@ -2578,10 +3493,10 @@ async function executeCreateTicket(data: any, token: string, step: any): Promise
     if (Array.isArray(step.associationsTpl) && step.associationsTpl.length > 0) {
       // New CSV format - use association type from actionTpl
       const associationType = step.actionTpl?.associationType || 'ticket_to_contact';
-      await createAssociationsV4Batch(response.id, 'tickets', step.associationsTpl, associationType, token);
+      await createAssociationsV4Batch(response.id, 'tickets', step.associationsTpl, associationType, token, step.actionTpl?.associationTypeId, step.jobId);
     } else if (typeof step.associationsTpl === 'object' && Object.keys(step.associationsTpl).length > 0) {
       // Old format
-      await createAssociations(response.id, 'tickets', step.associationsTpl, token);
+      await createAssociations(response.id, 'tickets', step.associationsTpl, token, step.jobId);
     }
   }
   
@@ -2591,6 +3506,7 @@ async function executeCreateTicket(data: any, token: string, step: any): Promise
     action: 'create_ticket',
     data: response.properties,
     hubspotResponse: response,
+    idempotentReplay: !!existingTicket,
     timestamp: new Date().toISOString()
   };
 }
@@ -2617,9 +3533,29 @@ async function executeUpdateDeal(data: any, token: string, step: any): Promise<a
     };
   }
   
+  // Stage changes follow the pipeline's order and the job's outcome, not the generated stage
+  const job = await getJobById(step.jobId);
+  const userId = await getJobUserId(step.jobId);
+  let stageProgression: StageProgression | null = null;
+  if (userId) {
+    const currentDeal = await makeHubSpotRequest('GET', `/crm/v3/objects/deals/${dealId}?properties=dealstage,pipeline`, null, token);
+    stageProgression = await applyDealStageProgression(data, step, job, userId, token, currentDeal?.properties || {});
+  }
+  
+  if (Object.keys(data).length === 0) {
+    console.log(`⏭️ Deal ${dealId} update has nothing left to write: ${stageProgression?.reason}`);
+    return {
+      success: true,
+      recordId: dealId,
+      action: 'update_deal',
+      data: {},
+      stageProgression,
+      timestamp: new Date().toISOString()
+    };
+  }
+  
   // Get user ID from job for validation if pipeline/stage data is being updated
   if (data.pipeline || data.dealstage) {
-    const job = await getJobById(step.jobId);
     if (!job) {
       return {
         success: false,
@@ -2664,10 +3600,8 @@ async function executeUpdateDeal(data: any, token: string, step: any): Promise<a
   // Convert property names to HubSpot-compatible format
   const hubspotData = convertPropertiesToHubSpotFormat(data);
   
-  // Update deal via HubSpot API
-  const response = await makeHubSpotRequest('PATCH', `/crm/v3/objects/deals/${dealId}`, {
-    properties: hubspotData
-  }, token);
+  // Update deal via HubSpot API, batched with other deal updates due at the same time
+  const response = await hubspotBatcher.update('deals', dealId, hubspotData, token);
   
   return {
     success: true,
@@ -2675,10 +3609,69 @@ async function executeUpdateDeal(data: any, token: string, step: any): Promise<a
     action: 'update_deal',
     data: response.properties,
     hubspotResponse: response,
+    stageProgression,
     timestamp: new Date().toISOString()
   };
 }
 
+/**
+ * Set the stage a deal create or update step moves the deal to. Only the stage the template
+ * asks for is mapped onto the deal's pipeline, so deals move forward only and close in the
+ * stage for the job's outcome; a generated stage never moves a deal. `current` holds the
+ * existing deal's pipeline and stage; without it the deal is being created. Stage fields are
+ * removed when the deal does not move, and a create keeps its data when the pipeline cannot
+ * be loaded.
+ */
+async function applyDealStageProgression(
+  data: Record<string, any>,
+  step: any,
+  job: any,
+  userId: number,
+  token: string,
+  current?: { pipeline?: string; dealstage?: string }
+): Promise<StageProgression | null> {
+  const requested = getRequestedDealStage(step.actionTpl);
+  if (!requested && current) {
+    delete data.dealstage;
+  }
+  
+  let metadata;
+  try {
+    metadata = await fetchCrmMetadata(token, userId);
+  } catch (error: any) {
+    console.warn(`⚠️ Deal stage progression skipped, pipelines unavailable: ${error.message}`);
+    return null;
+  }
+  
+  const pipelineId = current?.pipeline || data.pipeline;
+  const pipeline = metadata.dealPipelines.find(candidate => candidate.id === pipelineId);
+  if (!pipeline) {
+    console.warn(`⚠️ Deal stage progression skipped, pipeline ${pipelineId} not found`);
+    return null;
+  }
+  
+  const outcome = job?.outcome === 'won' || job?.outcome === 'lost' ? job.outcome : undefined;
+  const progression = progressDealStage(orderPipelineStages(pipeline.stages), current?.dealstage, requested, outcome);
+  console.log(`📈 Deal stage progression: ${progression.reason}`);
+  
+  if (progression.changed && progression.stageId) {
+    data.pipeline = pipeline.id;
+    data.dealstage = progression.stageId;
+    if (progression.closed && !data.closedate) {
+      data.closedate = (job?.metadata?.backfill && step.scheduledAt ? new Date(step.scheduledAt) : new Date()).toISOString();
+    }
+  } else {
+    delete data.pipeline;
+    delete data.dealstage;
+    if (progression.closed) {
+      // A deal closed by an earlier step keeps its close date
+      delete data.closedate;
+    }
+  }
+  
+  return progression;
+}
+
 /**
  * Execute ticket update
  */
@@ -2707,10 +3700,8 @@ async function executeUpdateTicket(data: any, token: string, step: any): Promise
   // Convert property names to HubSpot-compatible format
   const hubspotData = convertPropertiesToHubSpotFormat(data);
   
-  // Update ticket via HubSpot API
-  const response = await makeHubSpotRequest('PATCH', `/crm/v3/objects/tickets/${ticketId}`, {
-    properties: hubspotData
-  }, token);
+  // Update ticket via HubSpot API, batched with other ticket updates due at the same time
+  const response = await hubspotBatcher.update('tickets', ticketId, hubspotData, token);
   
   return {
     success: true,
@@ -2750,10 +3741,8 @@ async function executeCloseTicket(data: any, token: string, step: any): Promise<
   // Convert property names to HubSpot-compatible format
   const hubspotData = convertPropertiesToHubSpotFormat(data);
   
-  // Close ticket via HubSpot API
-  const response = await makeHubSpotRequest('PATCH', `/crm/v3/objects/tickets/${ticketId}`, {
-    properties: hubspotData
-  }, token);
+  // Close ticket via HubSpot API, batched with other ticket updates due at the same time
+  const response = await hubspotBatcher.update('tickets', ticketId, hubspotData, token);
   
   return {
     success: true,
@@ -2879,11 +3868,18 @@ async function ensureHubSpotProperties(objectType: string, propertyNames: string
     
     console.log(`🔧 Need to create ${missingProperties.length} custom properties for ${objectType}`);
     
+    // Provenance properties live in the SimCRM group, created the first time one is needed
+    if (missingProperties.some(name => SIMCRM_PROPERTIES[name])) {
+      await ensureSimCrmPropertyGroup(objectType, token);
+    }
+    
     // Create only truly missing custom properties
     for (const hubspotPropertyName of missingProperties) {
       const originalPropertyName = propertyNames[hubspotPropertyNames.indexOf(hubspotPropertyName)];
       
-      const propertyConfig = await createComprehensivePropertyConfig(hubspotPropertyName, objectType, recordData);
+      const propertyConfig = SIMCRM_PROPERTIES[hubspotPropertyName]
+        ? createSimCrmPropertyConfig(hubspotPropertyName, objectType)
+        : await createComprehensivePropertyConfig(hubspotPropertyName, objectType, recordData);
       try {
         const createdProperty = await makeHubSpotRequest('POST', `/crm/v3/properties/${objectType}`, propertyConfig, token);
         console.log(`✅ Created missing property: ${originalPropertyName} → ${hubspotPropertyName} (${propertyConfig.type}/${propertyConfig.fieldType}) for ${objectType}`);
@@ -2907,6 +3903,39 @@ async function ensureHubSpotProperties(objectType: string, propertyNames: string
   }
 }
 
+/**
+ * Create the SimCRM property group for an object type if it is missing
+ */
+async function ensureSimCrmPropertyGroup(objectType: string, token: string): Promise<void> {
+  try {
+    await makeHubSpotRequest('POST', `/crm/v3/properties/${objectType}/groups`, {
+      name: SIMCRM_PROPERTY_GROUP,
+      label: 'SimCRM',
+      displayOrder: -1
+    }, token);
+    console.log(`✅ Created SimCRM property group for ${objectType}`);
+  } catch (error: any) {
+    if (error.status !== 409 && !error.message?.includes('already exists')) {
+      console.warn(`❌ Failed to create SimCRM property group for ${objectType}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Property configuration for a SimCRM provenance property
+ */
+function createSimCrmPropertyConfig(propertyName: string, objectType: string): any {
+  return {
+    name: propertyName,
+    label: SIMCRM_PROPERTIES[propertyName].label,
+    type: 'string',
+    fieldType: 'text',
+    groupName: SIMCRM_PROPERTY_GROUP,
+    description: SIMCRM_PROPERTIES[propertyName].description,
+    hasUniqueValue: propertyName === STEP_KEY_PROPERTY && hasUniqueStepKey(objectType)
+  };
+}
+
 /**
  * Create comprehensive property configuration for HubSpot with all types
  */
@@ -3091,7 +4120,11 @@ function getPropertyGroup(objectType: string): string {
     'companies': 'companyinformation', 
     'deals': 'dealinformation',
     'tickets': 'ticketinformation',
-    'notes': 'noteinformation'
+    'notes': 'noteinformation',
+    'tasks': 'taskinformation',
+    'calls': 'callinformation',
+    'meetings': 'meetinginformation',
+    'emails': 'emailinformation'
   };
   
   return groupMap[objectType] || 'contactinformation';
@@ -3280,7 +4313,9 @@ function validateAndCoerceRecordData(recordData: any, objectType: string): { val
 }
 
 /**
- * Create associations between HubSpot records with comprehensive validation
+ * Create associations between HubSpot records with the association types the portal defines.
+ * Each target is a record ID template, or { id, label } to add a labeled association
+ * such as { contacts: { id: "{{contact_1}}", label: "Decision Maker" } }.
  */
 async function createAssociations(fromObjectId: string, fromObjectType: string, associations: any, token: string, jobId?: number): Promise<{ 
   successful: number; 
@@ -3292,22 +4327,16 @@ async function createAssociations(fromObjectId: string, fromObjectType: string,
     failed: 0,
     errors: [] as Array<{ association: string; error: string }>
   };
+  const userId = await getJobUserId(jobId);
 
-  for (const [toObjectType, toObjectIdTemplate] of Object.entries(associations)) {
+  for (const [targetObjectType, target] of Object.entries(associations)) {
+    const toObjectType = targetObjectType.toLowerCase();
+    const toObjectIdTemplate = target && typeof target === 'object' ? (target as any).id : target;
+    const label = target && typeof target === 'object' ? getRequestedAssociationLabel((target as any).label) : undefined;
+    
     try {
-      // Validate association before attempting to create
-      const validation = validateAssociation(fromObjectType, toObjectType as string);
-      
-      if (!validation.isValid) {
-        const errorMsg = validation.error || 'Unknown validation error';
-        console.error(`❌ Association validation failed: ${fromObjectType} → ${toObjectType}: ${errorMsg}`);
-        results.failed++;
-        results.errors.push({
-          association: `${fromObjectType} → ${toObjectType}`,
-          error: errorMsg
-        });
-        continue;
-      }
+      // Fails for pairs the portal cannot associate and for unknown labels
+      const types = await resolveAssociationTypes(fromObjectType, toObjectType, label, token, userId);
 
       const toObjectId = await resolveRecordIdWithFallback(
         toObjectIdTemplate as string, 
@@ -3327,11 +4356,14 @@ async function createAssociations(fromObjectId: string, fromObjectType: string,
         continue;
       }
 
-      // Create the association using v4 API for default associations (no custom labels)
-      // For default associations, we use the /default/ endpoint without payload
-      await makeHubSpotRequest('PUT', `/crm/v4/objects/${fromObjectType}/${fromObjectId}/associations/default/${toObjectType}/${toObjectId}`, {}, token);
+      // Default associations use the /default/ endpoint without payload; labeled ones send their types
+      if (label) {
+        await makeHubSpotRequest('PUT', `/crm/v4/objects/${fromObjectType}/${fromObjectId}/associations/${toObjectType}/${toObjectId}`, types, token);
+      } else {
+        await makeHubSpotRequest('PUT', `/crm/v4/objects/${fromObjectType}/${fromObjectId}/associations/default/${toObjectType}/${toObjectId}`, {}, token);
+      }
       
-      console.log(`✅ Created association: ${fromObjectType}:${fromObjectId} → ${toObjectType}:${toObjectId} (default association)`);
+      console.log(`✅ Created association: ${fromObjectType}:${fromObjectId} → ${toObjectType}:${toObjectId} (${label || 'default association'})`);
       results.successful++;
       
     } catch (error: any) {
@@ -3355,15 +4387,19 @@ async function createAssociations(fromObjectId: string, fromObjectType: string,
 }
 
 /**
- * Create associations using v4 individual API (for new CSV format)
- * Uses individual PUT requests as batch should only be used for 1-to-many scenarios
+ * Create associations using v4 API (for new CSV format)
+ * Labels come from the CSV's associationTypeId column, one per association separated by "|":
+ * a label name ("Decision Maker") or type ID adds that label, while an empty value or an
+ * unfilled {{assocId...}} placeholder makes a default association.
  */
 async function createAssociationsV4Batch(
   fromObjectId: string,
   fromObjectType: string,
   toObjectIds: string[],
   associationType: string,
-  token: string
+  token: string,
+  associationLabels?: string,
+  jobId?: number
 ): Promise<void> {
   if (!toObjectIds || toObjectIds.length === 0) {
     return;
@@ -3372,6 +4408,8 @@ async function createAssociationsV4Batch(
   // Parse multiple association types separated by "|"
   // Example: "deal_to_contact|deal_to_company" -> ["deal_to_contact", "deal_to_company"]
   const associationTypes = associationType.split('|');
+  const labels = String(associationLabels || '').split('|');
+  const userId = await getJobUserId(jobId);
   
   // Map to HubSpot object type names for v4 API
   const typeMap: Record<string, string> = {
@@ -3379,10 +4417,17 @@ async function createAssociationsV4Batch(
     'company': 'companies', 
     'deal': 'deals',
     'ticket': 'tickets',
-    'note': 'notes'
+    'note': 'notes',
+    'task': 'tasks',
+    'call': 'calls',
+    'meeting': 'meetings',
+    'email': 'emails'
   };
   
-  console.log(`🔗 Creating ${toObjectIds.length} v4 individual associations from ${fromObjectType}:${fromObjectId}`);
+  console.log(`🔗 Creating ${toObjectIds.length} v4 associations from ${fromObjectType}:${fromObjectId}`);
+  
+  // Associations are sent together so they batch with those of other steps due at the same time
+  const pending: Promise<void>[] = [];
   
   // Process each association type with corresponding target IDs
   for (let i = 0; i < associationTypes.length && i < toObjectIds.length; i++) {
@@ -3404,229 +4449,134 @@ async function createAssociationsV4Batch(
     
     const toType = parts[parts.length - 1]; // Get the last part (target type)
     const toObjectType = typeMap[toType] || toType;
+    const label = getRequestedAssociationLabel(labels[i]);
     
-    try {
-      // Use individual PUT request for 1-to-1 associations
-      // /crm/v4/objects/{fromObjectType}/{fromObjectId}/associations/default/{toObjectType}/{toObjectId}
-      await makeHubSpotRequest('PUT', `/crm/v4/objects/${fromObjectType}/${fromObjectId}/associations/default/${toObjectType}/${toObjectId}`, {}, token);
-      
-      console.log(`✅ Created association: ${fromObjectType}:${fromObjectId} → ${toObjectType}:${toObjectId} (${assocType})`);
-    } catch (error: any) {
-      console.error(`❌ Failed to create association ${assocType}:`, error.message);
-      // Continue with other associations even if one fails
-    }
+    // Batched per object type pair; labeled associations carry their discovered types
+    pending.push(
+      (label ? resolveAssociationTypes(fromObjectType, toObjectType, label, token, userId) : Promise.resolve(undefined))
+        .then(types => hubspotBatcher.associate(fromObjectType, fromObjectId, toObjectType, toObjectId, token, types))
+        .then(() => {
+          console.log(`✅ Created association: ${fromObjectType}:${fromObjectId} → ${toObjectType}:${toObjectId} (${assocType}${label ? `, ${label}` : ''})`);
+        })
+        .catch((error: any) => {
+          console.error(`❌ Failed to create association ${assocType}:`, error.message);
+          // Continue with other associations even if one fails
+        })
+    );
   }
+  
+  await Promise.all(pending);
 }
 
+// Owning user of each job, for the per-user HubSpot caches
+const jobUserIds = new Map<number, number>();
+
 /**
- * Comprehensive HubSpot Association Type Mapping
- * 
- * This centralized mapping covers all supported object relationships in HubSpot.
- * Association type IDs are HubSpot-defined constants for standard relationships.
+ * User whose simulation a job belongs to
  */
-const HUBSPOT_ASSOCIATION_MAP: Record<string, Record<string, number>> = {
-  // Contact associations
-  'contacts': {
-    'companies': 1,      // Contact to Company (Primary)
-    'deals': 4,          // Contact to Deal
-    'tickets': 15,       // Contact to Ticket
-    'calls': 193,        // Contact to Call
-    'emails': 197,       // Contact to Email
-    'meetings': 199,     // Contact to Meeting
-    'notes': 201,        // Contact to Note
-    'tasks': 203,        // Contact to Task
-    'quotes': 69,        // Contact to Quote
-    'line_items': 19,    // Contact to Line Item
-  },
-  
-  // Company associations  
-  'companies': {
-    'contacts': 2,       // Company to Contact (Primary)
-    'deals': 6,          // Company to Deal
-    'tickets': 26,       // Company to Ticket  
-    'calls': 181,        // Company to Call
-    'emails': 185,       // Company to Email
-    'meetings': 187,     // Company to Meeting
-    'notes': 189,        // Company to Note
-    'tasks': 191,        // Company to Task
-    'quotes': 70,        // Company to Quote
-    'line_items': 20,    // Company to Line Item
-  },
-  
-  // Deal associations
-  'deals': {
-    'contacts': 3,       // Deal to Contact
-    'companies': 5,      // Deal to Company
-    'tickets': 27,       // Deal to Ticket
-    'calls': 205,        // Deal to Call
-    'emails': 209,       // Deal to Email
-    'meetings': 211,     // Deal to Meeting
-    'notes': 213,        // Deal to Note
-    'tasks': 215,        // Deal to Task
-    'quotes': 67,        // Deal to Quote
-    'line_items': 21,    // Deal to Line Item
-    'products': 22,      // Deal to Product
-  },
-  
-  // Ticket associations
-  'tickets': {
-    'contacts': 16,      // Ticket to Contact
-    'companies': 25,     // Ticket to Company
-    'deals': 28,         // Ticket to Deal
-    'calls': 217,        // Ticket to Call
-    'emails': 221,       // Ticket to Email
-    'meetings': 223,     // Ticket to Meeting
-    'notes': 225,        // Ticket to Note
-    'tasks': 227,        // Ticket to Task
-  },
-  
-  // Note associations
-  'notes': {
-    'contacts': 202,     // Note to Contact
-    'companies': 190,    // Note to Company
-    'deals': 214,        // Note to Deal
-    'tickets': 226,      // Note to Ticket
-    'calls': 229,        // Note to Call
-    'emails': 233,       // Note to Email
-    'meetings': 235,     // Note to Meeting
-    'tasks': 237,        // Note to Task
-  },
-  
-  // Call associations
-  'calls': {
-    'contacts': 194,     // Call to Contact
-    'companies': 182,    // Call to Company
-    'deals': 206,        // Call to Deal
-    'tickets': 218,      // Call to Ticket
-    'notes': 230,        // Call to Note
-    'emails': 241,       // Call to Email
-    'meetings': 243,     // Call to Meeting
-    'tasks': 245,        // Call to Task
-  },
-  
-  // Email associations
-  'emails': {
-    'contacts': 198,     // Email to Contact
-    'companies': 186,    // Email to Company
-    'deals': 210,        // Email to Deal
-    'tickets': 222,      // Email to Ticket
-    'notes': 234,        // Email to Note
-    'calls': 242,        // Email to Call
-    'meetings': 247,     // Email to Meeting
-    'tasks': 249,        // Email to Task
-  },
-  
-  // Meeting associations
-  'meetings': {
-    'contacts': 200,     // Meeting to Contact
-    'companies': 188,    // Meeting to Company
-    'deals': 212,        // Meeting to Deal
-    'tickets': 224,      // Meeting to Ticket
-    'notes': 236,        // Meeting to Note
-    'calls': 244,        // Meeting to Call
-    'emails': 248,       // Meeting to Email
-    'tasks': 251,        // Meeting to Task
-  },
-  
-  // Task associations
-  'tasks': {
-    'contacts': 204,     // Task to Contact
-    'companies': 192,    // Task to Company
-    'deals': 216,        // Task to Deal
-    'tickets': 228,      // Task to Ticket
-    'notes': 238,        // Task to Note
-    'calls': 246,        // Task to Call
-    'emails': 250,       // Task to Email
-    'meetings': 252,     // Task to Meeting
-  },
-  
-  // Product associations
-  'products': {
-    'deals': 23,         // Product to Deal
-    'line_items': 24,    // Product to Line Item
-    'quotes': 71,        // Product to Quote
-  },
-  
-  // Line Item associations
-  'line_items': {
-    'contacts': 17,      // Line Item to Contact
-    'companies': 18,     // Line Item to Company
-    'deals': 29,         // Line Item to Deal
-    'products': 30,      // Line Item to Product
-    'quotes': 72,        // Line Item to Quote
-  },
-  
-  // Quote associations
-  'quotes': {
-    'contacts': 73,      // Quote to Contact
-    'companies': 74,     // Quote to Company
-    'deals': 68,         // Quote to Deal
-    'products': 75,      // Quote to Product
-    'line_items': 76,    // Quote to Line Item
+async function getJobUserId(jobId?: number): Promise<number | undefined> {
+  if (!jobId) {
+    return undefined;
   }
-};
+  if (!jobUserIds.has(jobId)) {
+    const job = await storage.getJobById(jobId);
+    const simulation = job ? await storage.getSimulationById(job.simulationId) : undefined;
+    if (!simulation) {
+      return undefined;
+    }
+    jobUserIds.set(jobId, simulation.userId);
+  }
+  return jobUserIds.get(jobId);
+}
 
+// Cached association types are rediscovered after this long, so labels edited in HubSpot are picked up
+const ASSOCIATION_LABEL_CACHE_TTL_MS = 60 * 60 * 1000;
 
 /**
- * Validate if an association combination is supported
+ * Association types the portal defines from one object type to another, read from the
+ * user's cache or discovered through the v4 labels API and cached. `refresh` skips the
+ * cache, for a label added in HubSpot since it was filled.
  */
-function validateAssociation(fromType: string, toType: string): { 
-  isValid: boolean; 
-  associationTypeId?: number; 
-  error?: string; 
-  supportedAssociations?: string[] 
-} {
-  const normalizedFromType = fromType.toLowerCase();
-  const normalizedToType = toType.toLowerCase();
-  
-  // Check if source object type is supported
-  if (!HUBSPOT_ASSOCIATION_MAP[normalizedFromType]) {
-    const supportedTypes = Object.keys(HUBSPOT_ASSOCIATION_MAP);
-    return {
-      isValid: false,
-      error: `Unsupported source object type '${fromType}'. Supported types: ${supportedTypes.join(', ')}`,
-      supportedAssociations: supportedTypes
-    };
+async function getAssociationLabels(
+  fromObjectType: string,
+  toObjectType: string,
+  token: string,
+  userId?: number,
+  refresh: boolean = false
+): Promise<AssociationLabel[]> {
+  if (userId && !refresh) {
+    const cached = await storage.getHubspotAssociationLabels(userId, fromObjectType, toObjectType);
+    const cachedAt = cached[0]?.updatedAt?.getTime() ?? 0;
+    if (cached.length > 0 && Date.now() - cachedAt < ASSOCIATION_LABEL_CACHE_TTL_MS) {
+      return cached.map(row => ({
+        associationCategory: row.category as AssociationType['associationCategory'],
+        associationTypeId: row.associationTypeId,
+        label: row.label
+      }));
+    }
   }
   
-  // Check if target object type is supported for this source
-  const associationTypeId = HUBSPOT_ASSOCIATION_MAP[normalizedFromType][normalizedToType];
-  if (!associationTypeId) {
-    const supportedTargets = Object.keys(HUBSPOT_ASSOCIATION_MAP[normalizedFromType]);
-    return {
-      isValid: false,
-      error: `Unsupported association '${fromType} → ${toType}'. Supported associations from ${fromType}: ${supportedTargets.join(', ')}`,
-      supportedAssociations: supportedTargets.map(target => `${fromType} → ${target}`)
-    };
+  const labels = await fetchAssociationLabels(token, fromObjectType, toObjectType);
+  if (userId && labels.length > 0) {
+    await storage.cacheHubspotAssociationLabels(userId, fromObjectType, toObjectType, labels.map(label => ({
+      userId,
+      fromObjectType,
+      toObjectType,
+      associationTypeId: label.associationTypeId,
+      category: label.associationCategory,
+      label: label.label
+    })));
+    console.log(`📋 Cached ${labels.length} association types for ${fromObjectType} → ${toObjectType}`);
   }
-  
-  return {
-    isValid: true,
-    associationTypeId
-  };
+  return labels;
 }
 
 /**
- * Get all supported associations for a given object type
+ * Association label a template asks for, if any. Empty values and unfilled
+ * placeholders such as {{assocId.deal_contact}} mean the default association.
  */
-function getSupportedAssociations(objectType?: string): Record<string, string[]> | string[] {
-  if (!objectType) {
-    // Return all supported associations
-    const allAssociations: Record<string, string[]> = {};
-    Object.keys(HUBSPOT_ASSOCIATION_MAP).forEach(fromType => {
-      allAssociations[fromType] = Object.keys(HUBSPOT_ASSOCIATION_MAP[fromType]);
-    });
-    return allAssociations;
+function getRequestedAssociationLabel(value: any): string | undefined {
+  const label = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  return label && !label.includes('{{') ? label : undefined;
+}
+
+/**
+ * Association types to write from one object type to another: the default type, plus the
+ * requested label (by name, case-insensitively, or by type ID) such as "Decision Maker".
+ * Throws when the portal defines no association for the pair or does not have the label.
+ */
+async function resolveAssociationTypes(
+  fromObjectType: string,
+  toObjectType: string,
+  label: string | undefined,
+  token: string,
+  userId?: number
+): Promise<AssociationType[]> {
+  const findLabel = (labels: AssociationLabel[]) => labels.find(candidate =>
+    String(candidate.associationTypeId) === label || candidate.label?.toLowerCase() === label!.toLowerCase());
+  
+  let labels = await getAssociationLabels(fromObjectType, toObjectType, token, userId);
+  if (label && !findLabel(labels)) {
+    labels = await getAssociationLabels(fromObjectType, toObjectType, token, userId, true);
+  }
+  if (labels.length === 0) {
+    throw new Error(`Unsupported association '${fromObjectType} → ${toObjectType}': no association types are defined for this pair`);
   }
   
-  const normalizedType = objectType.toLowerCase();
-  const supportedTargets = HUBSPOT_ASSOCIATION_MAP[normalizedType];
-  
-  if (!supportedTargets) {
-    return [];
+  const defaultType = labels.find(candidate => !candidate.label) || labels[0];
+  const types = [defaultType];
+  if (label) {
+    const labeledType = findLabel(labels);
+    if (!labeledType) {
+      const available = labels.filter(candidate => candidate.label).map(candidate => candidate.label);
+      throw new Error(`Unknown association label '${label}' for ${fromObjectType} → ${toObjectType}. Available labels: ${available.join(', ') || 'none'}`);
+    }
+    if (labeledType !== defaultType) {
+      types.push(labeledType);
+    }
   }
   
-  return Object.keys(supportedTargets);
+  return types.map(({ associationCategory, associationTypeId }) => ({ associationCategory, associationTypeId }));
 }
 
 /**
@@ -3794,6 +4744,12 @@ async function makeHubSpotRequest(method: string, endpoint: string, data: any, t
       throw error;
     }
     
+    // Archive endpoints answer with no content
+    if (response.status === 204) {
+      console.log(`✅ HUBSPOT SUCCESS: ${method} ${endpoint} (no content)`);
+      return null;
+    }
+    
     const responseData = await response.json();
     console.log(`✅ HUBSPOT SUCCESS: ${JSON.stringify(responseData, null, 2)}`);
     return responseData;
@@ -3822,51 +4778,50 @@ function parseJsonSafely(str: string): any {
 }
 
 /**
- * Fetch and cache HubSpot pipelines and stages for a user
+ * Fetch and cache HubSpot deal and ticket pipelines and stages for a user
  */
 async function fetchAndCachePipelinesAndStages(userId: number, token: string): Promise<void> {
   try {
     console.log(`Fetching and caching pipelines and stages for user ${userId}`);
     
-    // Fetch deal pipelines from HubSpot
-    const pipelinesResponse = await makeHubSpotRequest('GET', '/crm/v3/pipelines/deals', null, token);
+    // Fetch deal and ticket pipelines from HubSpot
+    const [dealPipelinesResponse, ticketPipelinesResponse] = await Promise.all([
+      makeHubSpotRequest('GET', '/crm/v3/pipelines/deals', null, token),
+      // Portals without ticket access still get their deal pipelines cached
+      makeHubSpotRequest('GET', '/crm/v3/pipelines/tickets', null, token).catch((error: any) => {
+        console.warn(`⚠️ Ticket pipelines not cached: ${error.message}`);
+        return null;
+      })
+    ]);
+    const pipelinesByType: Record<string, any[]> = {
+      deals: dealPipelinesResponse?.results || [],
+      tickets: ticketPipelinesResponse?.results || []
+    };
     
-    if (!pipelinesResponse.results || pipelinesResponse.results.length === 0) {
+    if (pipelinesByType.deals.length === 0) {
       console.warn('No deal pipelines found in HubSpot');
       return;
     }
 
-    // Prepare pipeline data for caching
-    const pipelineData = pipelinesResponse.results.map((pipeline: any) => ({
+    // Prepare pipeline and stage data for caching
+    const pipelineData = Object.entries(pipelinesByType).flatMap(([objectType, pipelines]) => pipelines.map((pipeline: any) => ({
       userId,
       hubspotId: pipeline.id,
       label: pipeline.label,
       displayOrder: pipeline.displayOrder,
-      objectType: 'deals'
-    }));
-
-    // Cache pipelines in database
+      objectType,
+      stages: (pipeline.stages || []).map((stage: any) => ({
+        hubspotId: stage.id,
+        label: stage.label,
+        displayOrder: stage.displayOrder,
+        probability: stage.metadata?.probability || 0,
+        isClosed: stage.metadata?.isClosed || false
+      }))
+    })));
+
+    // Cache pipelines and their stages in database
     const cachedPipelines = await storage.cacheHubspotPipelines(userId, pipelineData);
-    console.log(`Cached ${cachedPipelines.length} pipelines`);
-
-    // Fetch and cache stages for each pipeline
-    for (const cachedPipeline of cachedPipelines) {
-      const originalPipeline = pipelinesResponse.results.find((p: any) => p.id === cachedPipeline.hubspotId);
-      
-      if (originalPipeline && originalPipeline.stages && originalPipeline.stages.length > 0) {
-        const stageData = originalPipeline.stages.map((stage: any) => ({
-          pipelineId: cachedPipeline.id,
-          hubspotId: stage.id,
-          label: stage.label,
-          displayOrder: stage.displayOrder,
-          probability: stage.metadata?.probability || 0,
-          isClosed: stage.metadata?.isClosed || false
-        }));
-
-        const cachedStages = await storage.cacheHubspotStages(stageData);
-        console.log(`Cached ${cachedStages.length} stages for pipeline ${cachedPipeline.label}`);
-      }
-    }
+    console.log(`Cached ${cachedPipelines.length} pipelines with ${pipelineData.reduce((sum, pipeline) => sum + pipeline.stages.length, 0)} stages`);
 
     console.log('Pipeline and stage caching completed successfully');
     
@@ -3899,16 +4854,22 @@ async function fetchAndCacheOwners(userId: number, token: string, forceRefresh:
     
     console.log(`Fetching and caching owners for user ${userId}${forceRefresh ? ' (forced refresh)' : ''}`);
     
-    // Fetch owners from HubSpot
-    const ownersResponse = await makeHubSpotRequest('GET', '/crm/v3/owners', null, token);
+    // Fetch every page of owners, so an owner missing from the list really is gone
+    const hubspotOwners: any[] = [];
+    let after: string | undefined;
+    do {
+      const ownersResponse = await makeHubSpotRequest('GET', `/crm/v3/owners?limit=500${after ? `&after=${after}` : ''}`, null, token);
+      hubspotOwners.push(...(ownersResponse?.results || []));
+      after = ownersResponse?.paging?.next?.after;
+    } while (after);
     
-    if (!ownersResponse.results || ownersResponse.results.length === 0) {
+    if (hubspotOwners.length === 0) {
       console.warn('No owners found in HubSpot');
       return;
     }
 
     // Prepare owner data for caching
-    const ownerData = ownersResponse.results.map((owner: any) => ({
+    const ownerData = hubspotOwners.map((owner: any) => ({
       userId,
       hubspotId: owner.id,
       email: owner.email,
@@ -3919,7 +4880,11 @@ async function fetchAndCacheOwners(userId: number, token: string, forceRefresh:
 
     // Cache owners in database
     await storage.cacheHubspotOwners(ownerData);
-    console.log(`Cached ${ownerData.length} owners`);
+    const deactivated = await storage.deactivateMissingHubspotOwners(
+      userId,
+      ownerData.filter((owner: any) => owner.isActive).map((owner: any) => owner.hubspotId)
+    );
+    console.log(`Cached ${ownerData.length} owners${deactivated.length > 0 ? `, deactivated ${deactivated.length} no longer listed` : ''}`);
     
   } catch (error: any) {
     console.error('Error fetching and caching owners:', error.message);
@@ -3983,16 +4948,17 @@ async function resolveOwnerEmail(userId: number, recordData: Record<string, any>
 
 // Export functions for testing and external use
 export { 
+  generateRealisticData,
   resolveOwnerEmail, 
   getOwnerIdByEmail, 
   fetchAndCacheOwners,
   fetchAndCachePipelinesAndStages,
+  getStepOwnerRandom,
   makeHubSpotRequest,
   determinePropertyType,
   determineFieldType,
   validateAndCoerceRecordData,
-  validateAssociation,
-  getSupportedAssociations,
+  resolveAssociationTypes,
   createAssociations,
   createAssociationsV4Batch,
   storeRecordIdInContext,
@@ -4001,6 +4967,9 @@ export {
   executeCreateDeal,
   executeCreateTicket,
   executeCreateNote,
+  executeCreateEngagement,
+  executeLineItemStep,
+  executeCreateCustomObject,
   executeUpdateDeal,
   executeUpdateTicket,
   executeCloseTicket
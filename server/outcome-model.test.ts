@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveOutcomeModel, drawSetOutcomes } from './outcome-model';
+
+test('theme and industry rates match names in any case', () => {
+  const byTheme = resolveOutcomeModel('Demo', 'pirates', { themeWinRates: { Pirates: 0.4 }, seed: 'x' });
+  assert.equal(byTheme.winRate, 0.4);
+  assert.equal(byTheme.winRateSource, 'theme');
+
+  const byIndustry = resolveOutcomeModel('ecommerce', 'Space', { industryWinRates: { ECommerce: 0.2 }, seed: 'x' });
+  assert.equal(byIndustry.winRate, 0.2);
+  assert.equal(byIndustry.winRateSource, 'industry');
+});
+
+test('user industry rates override the defaults whatever their case', () => {
+  const model = resolveOutcomeModel('demo', 'Space', { industryWinRates: { DEMO: 0.9 }, seed: 'x' });
+  assert.equal(model.winRate, 0.9);
+  assert.equal(model.industryWinRates.demo, 0.9);
+});
+
+test('defaults close between 25% and 35% of sets', () => {
+  for (const industry of ['demo', 'ecommerce', 'business', 'saas']) {
+    const { winRate } = resolveOutcomeModel(industry, 'Space', { seed: 'x' });
+    assert.ok(winRate >= 0.25 && winRate <= 0.35, `${industry} win rate ${winRate}`);
+  }
+  assert.equal(resolveOutcomeModel('saas', 'Space', { seed: 'x' }).winRateSource, 'default');
+});
+
+test('a fixed seed reproduces the same outcomes', () => {
+  const model = resolveOutcomeModel('ecommerce', 'Space', { seed: 'run-42' });
+  const outcomes = drawSetOutcomes(model, 50);
+  assert.deepEqual(drawSetOutcomes(resolveOutcomeModel('ecommerce', 'Space', { seed: 'run-42' }), 50), outcomes);
+  assert.notDeepEqual(drawSetOutcomes(resolveOutcomeModel('ecommerce', 'Space', { seed: 'run-43' }), 50), outcomes);
+  assert.ok(outcomes.includes('won') && outcomes.includes('lost'));
+});
+
+test('outcomes without a template variant fall back to the available one', () => {
+  const model = resolveOutcomeModel('demo', 'Space', { themeWinRates: { space: 0.5 }, seed: 'x' });
+  assert.deepEqual(drawSetOutcomes(model, 20, ['won']), new Array(20).fill('won'));
+  assert.deepEqual(drawSetOutcomes(model, 20, ['lost']), new Array(20).fill('lost'));
+});
@@ -0,0 +1,120 @@
+/**
+ * Outcome Model
+ * Decides won/lost per prospect set from a configurable win rate per industry,
+ * optional per-theme overrides and a seed so runs can be reproduced
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { SimulationConfig } from '../shared/schema';
+
+// Close rates used when a simulation does not configure its own, in the 25-35% band
+// real sales pipelines close at
+const DEFAULT_INDUSTRY_WIN_RATES: Record<string, number> = {
+  'demo': 0.3,
+  'ecommerce': 0.35,
+  'business': 0.25
+};
+const DEFAULT_WIN_RATE = 0.3;
+
+export type OutcomeModelSettings = NonNullable<SimulationConfig['outcomeModel']>;
+
+export interface ResolvedOutcomeModel {
+  winRate: number;
+  winRateSource: 'theme' | 'industry' | 'default';
+  seed: string;
+  industryWinRates: Record<string, number>;
+  themeWinRates: Record<string, number>;
+}
+
+function isValidRate(rate: unknown): rate is number {
+  return typeof rate === 'number' && Number.isFinite(rate) && rate >= 0 && rate <= 1;
+}
+
+// Theme and industry names are matched case-insensitively, so rate maps are keyed in lower case
+function lowercaseKeys(rates: Record<string, number> | undefined): Record<string, number> {
+  return Object.fromEntries(Object.entries(rates || {}).map(([name, rate]) => [name.toLowerCase(), rate]));
+}
+
+/**
+ * Validate user supplied outcome settings, returning a list of problems (empty when valid)
+ */
+export function validateOutcomeModelSettings(settings: any): string[] {
+  const problems: string[] = [];
+  if (settings === undefined || settings === null) return problems;
+
+  if (typeof settings !== 'object') {
+    return ['outcomeModel must be an object'];
+  }
+
+  for (const field of ['industryWinRates', 'themeWinRates'] as const) {
+    const rates = settings[field];
+    if (rates === undefined) continue;
+    if (typeof rates !== 'object' || rates === null) {
+      problems.push(`${field} must map names to win rates`);
+      continue;
+    }
+    for (const [name, rate] of Object.entries(rates)) {
+      if (!isValidRate(rate)) {
+        problems.push(`${field}.${name} must be a number between 0 and 1`);
+      }
+    }
+  }
+
+  if (settings.seed !== undefined && typeof settings.seed !== 'string' && typeof settings.seed !== 'number') {
+    problems.push('seed must be a string or number');
+  }
+
+  return problems;
+}
+
+/**
+ * Resolve the win rate for a simulation: theme override, then industry rate, then default
+ */
+export function resolveOutcomeModel(industry: string, theme: string, settings?: OutcomeModelSettings): ResolvedOutcomeModel {
+  const industryKey = (industry || '').toLowerCase();
+  const themeKey = (theme || '').toLowerCase();
+  const industryWinRates = { ...DEFAULT_INDUSTRY_WIN_RATES, ...lowercaseKeys(settings?.industryWinRates) };
+  const themeWinRates = lowercaseKeys(settings?.themeWinRates);
+  const seed = settings?.seed !== undefined && settings.seed !== '' ? String(settings.seed) : randomBytes(4).toString('hex');
+
+  if (isValidRate(themeWinRates[themeKey])) {
+    return { winRate: themeWinRates[themeKey], winRateSource: 'theme', seed, industryWinRates, themeWinRates };
+  }
+  if (isValidRate(industryWinRates[industryKey])) {
+    return { winRate: industryWinRates[industryKey], winRateSource: 'industry', seed, industryWinRates, themeWinRates };
+  }
+  return { winRate: DEFAULT_WIN_RATE, winRateSource: 'default', seed, industryWinRates, themeWinRates };
+}
+
+/**
+ * Deterministic random number generator (mulberry32) seeded from a string
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = createHash('md5').update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one outcome per set. Outcomes not in `available` (e.g. a custom template
+ * without a lost variant) fall back to the remaining outcome.
+ */
+export function drawSetOutcomes(
+  model: ResolvedOutcomeModel,
+  setCount: number,
+  available: Array<'won' | 'lost'> = ['won', 'lost']
+): Array<'won' | 'lost'> {
+  const random = createSeededRandom(model.seed);
+  const outcomes: Array<'won' | 'lost'> = [];
+
+  for (let i = 0; i < setCount; i++) {
+    const drawn: 'won' | 'lost' = random() < model.winRate ? 'won' : 'lost';
+    outcomes.push(available.includes(drawn) ? drawn : available[0]);
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,250 @@
+/**
+ * Product Catalog and Line Items
+ * Gives a simulation a product catalog, either generated once per theme/industry and
+ * kept in the portal for reuse, or taken from the portal's existing products, and turns
+ * deal amounts into line items whose quantities and prices add up to that amount.
+ * Template steps add, remove and reprice line items on a deal later in its lifecycle.
+ */
+
+import { storage } from './storage';
+import { makeHubSpotRequest, generateRealisticData } from './orchestrator';
+import type { Simulation } from '../shared/schema';
+import type { CatalogProduct, LineItemPlan } from './line-item-plan';
+
+// Products a generated catalog holds
+const GENERATED_CATALOG_SIZE = 6;
+
+// Portal catalogs are read up to this many products
+const MAX_PORTAL_PRODUCTS = 500;
+
+// HubSpot-defined association type for line item -> deal
+const LINE_ITEM_TO_DEAL_ASSOCIATION_TYPE_ID = 20;
+
+const LINE_ITEM_PROPERTIES = ['hs_product_id', 'name', 'quantity', 'price'];
+
+export interface ProductCatalog {
+  source: 'generated' | 'portal';
+  products: CatalogProduct[];
+  loadedAt: string;
+}
+
+export interface DealLineItem extends LineItemPlan {
+  id: string;
+}
+
+export interface LineItemChange {
+  product?: CatalogProduct;
+  quantity?: number;
+  price?: number;
+  percent?: number;
+}
+
+// Catalogs being loaded, so steps running together share one load
+const catalogLoads = new Map<number, Promise<ProductCatalog | null>>();
+
+function toProduct(record: any): CatalogProduct | null {
+  const price = parseFloat(record.properties?.price);
+  if (!record.properties?.name || !(price > 0)) {
+    return null;
+  }
+  return { id: String(record.id), name: record.properties.name, price, sku: record.properties.hs_sku || undefined };
+}
+
+function toLineItem(record: any): DealLineItem {
+  return {
+    id: String(record.id),
+    productId: String(record.properties?.hs_product_id || ''),
+    name: record.properties?.name || '',
+    quantity: parseFloat(record.properties?.quantity) || 0,
+    price: parseFloat(record.properties?.price) || 0
+  };
+}
+
+/**
+ * SKUs of the generated catalog for a theme and industry, e.g. SIMCRM-pirates-saas-01
+ */
+function getGeneratedSkus(theme: string, industry: string): string[] {
+  const slug = `${theme}-${industry}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return Array.from({ length: GENERATED_CATALOG_SIZE }, (_, i) => `SIMCRM-${slug}-${String(i + 1).padStart(2, '0')}`);
+}
+
+/**
+ * Generated catalog for the simulation's theme and industry, created in the portal the
+ * first time it is needed and found again by SKU afterwards
+ */
+async function loadGeneratedCatalog(simulation: Simulation, token: string): Promise<CatalogProduct[]> {
+  const theme = simulation.theme || 'generic';
+  const industry = simulation.industry || 'generic';
+  const skus = getGeneratedSkus(theme, industry);
+
+  const existing = await makeHubSpotRequest('POST', '/crm/v3/objects/products/search', {
+    filterGroups: [{ filters: [{ propertyName: 'hs_sku', operator: 'IN', values: skus }] }],
+    properties: ['name', 'price', 'hs_sku'],
+    limit: GENERATED_CATALOG_SIZE
+  }, token);
+  const found = (existing?.results || []).map(toProduct).filter(Boolean) as CatalogProduct[];
+  if (found.length > 0) {
+    console.log(`🛒 Reusing ${found.length} generated products for ${theme}/${industry}`);
+    return found;
+  }
+
+  const generated = await generateRealisticData('create_product_catalog', theme, industry, null, undefined, undefined, false);
+  const products = (generated?.products || []).slice(0, GENERATED_CATALOG_SIZE);
+  if (products.length === 0) {
+    throw new Error(`No products generated for ${theme}/${industry}`);
+  }
+
+  const created = await makeHubSpotRequest('POST', '/crm/v3/objects/products/batch/create', {
+    inputs: products.map((product: any, index: number) => ({
+      properties: {
+        name: product.name,
+        description: product.description || '',
+        price: String(product.price),
+        hs_sku: skus[index]
+      }
+    }))
+  }, token);
+  console.log(`🛒 Created ${created?.results?.length || 0} generated products for ${theme}/${industry}`);
+  return (created?.results || []).map(toProduct).filter(Boolean) as CatalogProduct[];
+}
+
+/**
+ * The portal's own products, limited to the IDs the simulation picked if it picked any
+ */
+async function loadPortalCatalog(productIds: string[] | undefined, token: string): Promise<CatalogProduct[]> {
+  const products: CatalogProduct[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = await makeHubSpotRequest(
+      'GET',
+      `/crm/v3/objects/products?limit=100&properties=name,price,hs_sku${after ? `&after=${after}` : ''}`,
+      null,
+      token
+    );
+    products.push(...((page?.results || []).map(toProduct).filter(Boolean) as CatalogProduct[]));
+    after = page?.paging?.next?.after;
+  } while (after && products.length < MAX_PORTAL_PRODUCTS);
+
+  return productIds?.length ? products.filter(product => productIds.includes(product.id)) : products;
+}
+
+/**
+ * The simulation's product catalog, or null when it does not use one. Loaded once and
+ * kept in the simulation results so every step prices against the same products.
+ */
+export async function getProductCatalog(simulation: Simulation, token: string): Promise<ProductCatalog | null> {
+  const settings = simulation.config?.productCatalog;
+  if (!settings) {
+    return null;
+  }
+
+  const saved = (simulation.results as any)?.productCatalog as ProductCatalog | undefined;
+  if (saved?.products?.length) {
+    return saved;
+  }
+
+  if (!catalogLoads.has(simulation.id)) {
+    const load = (async () => {
+      const products = settings.source === 'portal'
+        ? await loadPortalCatalog(settings.productIds, token)
+        : await loadGeneratedCatalog(simulation, token);
+      if (products.length === 0) {
+        console.warn(`⚠️ Simulation ${simulation.id} has no priced ${settings.source} products - deals get no line items`);
+        return null;
+      }
+
+      const catalog: ProductCatalog = { source: settings.source, products, loadedAt: new Date().toISOString() };
+      const current = await storage.getSimulationById(simulation.id);
+      await storage.updateSimulation(simulation.id, {
+        results: { ...((current?.results as any) || {}), productCatalog: catalog }
+      });
+      return catalog;
+    })();
+    catalogLoads.set(simulation.id, load);
+    load.finally(() => catalogLoads.delete(simulation.id)).catch(() => {});
+  }
+
+  return catalogLoads.get(simulation.id)!;
+}
+
+/**
+ * Line items currently on a deal
+ */
+export async function getDealLineItems(dealId: string, token: string): Promise<DealLineItem[]> {
+  const associations = await makeHubSpotRequest('GET', `/crm/v4/objects/deals/${dealId}/associations/line_items`, null, token);
+  const ids: string[] = (associations?.results || []).map((result: any) => String(result.toObjectId));
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const response = await makeHubSpotRequest('POST', '/crm/v3/objects/line_items/batch/read', {
+    inputs: ids.map(id => ({ id })),
+    properties: LINE_ITEM_PROPERTIES
+  }, token);
+  return (response?.results || []).map(toLineItem);
+}
+
+/**
+ * Create line items already associated to a deal, with any extra properties (e.g. provenance) on each
+ */
+export async function createDealLineItems(
+  dealId: string,
+  plans: LineItemPlan[],
+  token: string,
+  properties: Record<string, string> = {}
+): Promise<DealLineItem[]> {
+  if (plans.length === 0) {
+    return [];
+  }
+
+  const response = await makeHubSpotRequest('POST', '/crm/v3/objects/line_items/batch/create', {
+    inputs: plans.map(plan => ({
+      properties: {
+        ...properties,
+        hs_product_id: plan.productId,
+        name: plan.name,
+        quantity: String(plan.quantity),
+        price: String(plan.price)
+      },
+      associations: [{
+        to: { id: dealId },
+        types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: LINE_ITEM_TO_DEAL_ASSOCIATION_TYPE_ID }]
+      }]
+    }))
+  }, token);
+  return (response?.results || []).map(toLineItem);
+}
+
+/**
+ * What a line item step asks for: the product it names and any quantity, unit price or
+ * percentage change. Reads a CSV payload's properties ({product, quantity, price, percent})
+ * or the imperative action text, e.g. "Add 5 x Premium Support" or "Reprice Starter Plan -10%".
+ */
+export function parseLineItemChange(actionTpl: any, products: CatalogProduct[]): LineItemChange {
+  const payload = actionTpl?.properties;
+  if (payload && typeof payload === 'object') {
+    const productRef = String(payload.product || payload.hs_product_id || '').toLowerCase();
+    return {
+      product: productRef
+        ? products.find(product => product.id === productRef || product.sku?.toLowerCase() === productRef || product.name.toLowerCase() === productRef)
+        : undefined,
+      quantity: payload.quantity ? parseInt(payload.quantity) : undefined,
+      price: payload.price ? parseFloat(payload.price) : undefined,
+      percent: payload.percent ? parseFloat(payload.percent) : undefined
+    };
+  }
+
+  const text = String(actionTpl?.original ?? (typeof actionTpl === 'string' ? actionTpl : '')).toLowerCase();
+  const quantity = text.match(/(?:qty|quantity)\s*:?\s*(\d+)|(\d+)\s*x\b/);
+  const price = text.match(/\$\s*([\d,]+(?:\.\d+)?)/);
+  const percent = text.match(/([+-]?\d+(?:\.\d+)?)\s*%/);
+  return {
+    product: [...products]
+      .sort((a, b) => b.name.length - a.name.length)
+      .find(product => text.includes(product.name.toLowerCase()) || (!!product.sku && text.includes(product.sku.toLowerCase()))),
+    quantity: quantity ? parseInt(quantity[1] || quantity[2]) : undefined,
+    price: price ? parseFloat(price[1].replace(/,/g, '')) : undefined,
+    percent: percent ? parseFloat(percent[1]) : undefined
+  };
+}
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { retryPolicy, isTransientFailure, getRetryDelayMs, decideStepFailure, DEAD_LETTER_STATUS } from './retry-policy';
+
+/**
+ * Run `fn` with a retry policy overridden, restoring it afterwards
+ */
+function withPolicy(overrides: Partial<typeof retryPolicy>, fn: () => void): void {
+  const saved = { ...retryPolicy };
+  Object.assign(retryPolicy, overrides);
+  try {
+    fn();
+  } finally {
+    Object.assign(retryPolicy, saved);
+  }
+}
+
+test('server errors, rate limits, timeouts and errors without a status are transient', () => {
+  for (const status of [undefined, 408, 429, 500, 503]) {
+    assert.equal(isTransientFailure({ status }), true, `status ${status}`);
+  }
+  for (const status of [400, 401, 404, 409]) {
+    assert.equal(isTransientFailure({ status }), false, `status ${status}`);
+  }
+  assert.equal(isTransientFailure({ status: 503, nonRetryable: true }), false);
+});
+
+test('backoff doubles with every attempt up to the cap', () => {
+  withPolicy({ baseDelayMs: 1000, maxDelayMs: 5000, jitterFactor: 0 }, () => {
+    assert.deepEqual([1, 2, 3, 4].map(getRetryDelayMs), [1000, 2000, 4000, 5000]);
+  });
+
+  withPolicy({ baseDelayMs: 1000, maxDelayMs: 60000, jitterFactor: 0.1 }, () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelayMs(3);
+      assert.ok(delay >= 3600 && delay <= 4400, `delay ${delay}`);
+    }
+  });
+});
+
+test('a transient failure is retried until its attempts run out, then dead lettered', () => {
+  withPolicy({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000, jitterFactor: 0 }, () => {
+    const now = new Date('2026-03-09T12:00:00Z');
+
+    const retry = decideStepFailure({ status: 503 }, 2, now);
+    assert.equal(retry.status, 'pending');
+    assert.equal(retry.status === 'pending' && retry.nextAttemptAt.toISOString(), '2026-03-09T12:00:02.000Z');
+
+    assert.deepEqual(decideStepFailure({ status: 503 }, 3, now), { status: DEAD_LETTER_STATUS });
+  });
+});
+
+test('a permanent failure is never retried', () => {
+  withPolicy({ maxAttempts: 3 }, () => {
+    assert.deepEqual(decideStepFailure({ status: 400 }, 1), { status: 'failed_non_retryable' });
+    assert.deepEqual(decideStepFailure({ nonRetryable: true }, 3), { status: 'failed_non_retryable' });
+  });
+});
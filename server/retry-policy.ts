@@ -0,0 +1,69 @@
+/**
+ * Job Step Retry Policy
+ * Decides whether a failed step is retried with exponential backoff, has run out of
+ * attempts (dead letter) or failed for good. Transient failures are HubSpot 5xx/429,
+ * timeouts and network errors and LLM errors; other HTTP 4xx responses and failures
+ * flagged nonRetryable are permanent.
+ */
+
+export const DEAD_LETTER_STATUS = 'dead_letter';
+// Steps that depend on a step that failed non-retryably; they will never run
+export const SKIPPED_STATUS = 'skipped';
+
+interface RetryPolicyConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterFactor: number;
+}
+
+export const retryPolicy: RetryPolicyConfig = {
+  maxAttempts: Math.max(1, parseInt(process.env.JOB_STEP_MAX_ATTEMPTS || '5')),
+  baseDelayMs: parseInt(process.env.JOB_STEP_RETRY_BASE_MS || '60000'),
+  maxDelayMs: parseInt(process.env.JOB_STEP_RETRY_MAX_MS || '3600000'),
+  jitterFactor: parseFloat(process.env.JOB_STEP_RETRY_JITTER || '0.1')
+};
+
+export type StepFailureDecision =
+  | { status: 'pending'; nextAttemptAt: Date }
+  | { status: typeof DEAD_LETTER_STATUS }
+  | { status: 'failed_non_retryable' };
+
+/**
+ * Whether a failed step result is worth retrying
+ */
+export function isTransientFailure(result: { nonRetryable?: boolean; status?: number }): boolean {
+  if (result.nonRetryable) {
+    return false;
+  }
+
+  const status = Number(result.status);
+  if (Number.isFinite(status) && status >= 400 && status < 500) {
+    return status === 408 || status === 429;
+  }
+
+  // 5xx, timeouts, network and LLM errors carry no client error status
+  return true;
+}
+
+/**
+ * Backoff before the given attempt number is retried: base * 2^(attempt - 1), capped, with jitter
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = Math.min(retryPolicy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)), retryPolicy.maxDelayMs);
+  const jitter = delay * retryPolicy.jitterFactor * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+}
+
+/**
+ * Next status for a step whose attempt number `attempts` just failed
+ */
+export function decideStepFailure(result: { nonRetryable?: boolean; status?: number }, attempts: number, now: Date = new Date()): StepFailureDecision {
+  if (!isTransientFailure(result)) {
+    return { status: 'failed_non_retryable' };
+  }
+  if (attempts >= retryPolicy.maxAttempts) {
+    return { status: DEAD_LETTER_STATUS };
+  }
+  return { status: 'pending', nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)) };
+}
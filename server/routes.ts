@@ -7,11 +7,21 @@ import { DatabaseStorage } from "./storage";
 import { scheduleSimulationJob, fetchAndCacheOwners, fetchAndCachePipelinesAndStages, makeHubSpotRequest } from './orchestrator';
 import { rateLimiter } from './rate-limiter';
 import { validateDataOrThrow } from './validation';
+import { calculateSetOffset, validateCalendarPolicy } from './time-utils';
+import { validateOutcomeModelSettings, resolveOutcomeModel, drawSetOutcomes } from './outcome-model';
+import { validateCrmTargets, normalizeCrmTargets } from './crm-targets';
+import { getRegisteredIndustries, getLifecycleTemplate, listLifecycleTemplates, lintTemplate, loadLifecycleTemplate, previewLifecycleTimeline, getDefaultCycleDays, LIFECYCLE_TARGET_CYCLE_DAYS, MIN_TARGET_CYCLE_DAYS, MAX_TARGET_CYCLE_DAYS } from './template-registry';
+import { estimateSimulationLoad } from './simulation-estimate';
+import { notifyJobStepsScheduled } from './job-worker';
+import { teardownSimulation, isTeardownRunning } from './simulation-teardown';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
 const storage = new DatabaseStorage();
 
+// Simulations that may still be creating HubSpot records
+const ACTIVE_SIMULATION_STATUSES = ['active', 'running', 'processing', 'paused'];
+
 export function registerRoutes(app: Express) {
   
   // Authentication routes
@@ -431,10 +441,11 @@ export function registerRoutes(app: Express) {
       try {
         await fetchAndCachePipelinesAndStages(userId, token);
         const cachedPipelines = await storage.getHubspotPipelines(userId, 'deals');
+        const cachedTicketPipelines = await storage.getHubspotPipelines(userId, 'tickets');
         validationResults.push({
           step: 'Pipelines & Stages',
           status: 'success',
-          message: `Cached ${cachedPipelines.length} deal pipelines successfully`
+          message: `Cached ${cachedPipelines.length} deal pipelines and ${cachedTicketPipelines.length} ticket pipelines successfully`
         });
       } catch (error: any) {
         validationResults.push({
@@ -516,6 +527,68 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Cached pipelines, stages and owners of the connected portal, for choosing simulation targets
+  app.get("/api/user/:userId/hubspot/crm-options", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      let dealPipelines = await storage.getHubspotPipelines(userId, 'deals');
+      let owners = await storage.getHubspotOwners(userId);
+      
+      // Fill an empty cache from HubSpot when the portal is connected
+      const session = await storage.getSession(userId);
+      if (session?.hubspotToken && (dealPipelines.length === 0 || owners.length === 0)) {
+        try {
+          if (dealPipelines.length === 0) {
+            await fetchAndCachePipelinesAndStages(userId, session.hubspotToken);
+            dealPipelines = await storage.getHubspotPipelines(userId, 'deals');
+          }
+          if (owners.length === 0) {
+            await fetchAndCacheOwners(userId, session.hubspotToken);
+            owners = await storage.getHubspotOwners(userId);
+          }
+        } catch (error: any) {
+          console.warn(`⚠️ Could not refresh HubSpot cache for user ${userId}: ${error.message}`);
+        }
+      }
+      const ticketPipelines = await storage.getHubspotPipelines(userId, 'tickets');
+      
+      const withStages = async (pipelines: typeof dealPipelines) => Promise.all(pipelines.map(async pipeline => ({
+        id: pipeline.hubspotId,
+        label: pipeline.label,
+        stages: (await storage.getHubspotStages(pipeline.id)).map(stage => ({
+          id: stage.hubspotId,
+          label: stage.label,
+          isClosed: !!stage.isClosed
+        }))
+      })));
+      
+      res.json({
+        dealPipelines: await withStages(dealPipelines),
+        ticketPipelines: await withStages(ticketPipelines),
+        owners: owners.map(owner => ({
+          id: owner.hubspotId,
+          email: owner.email,
+          firstName: owner.firstName,
+          lastName: owner.lastName
+        }))
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pipeline, stage and owner changes found by the scheduled metadata refresh, newest first
+  app.get("/api/user/:userId/hubspot/metadata-changes", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const changes = await storage.getHubspotMetadataChanges(userId, limit);
+      res.json(changes);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Simulation logs endpoint
   app.get("/api/simulation/:simulationId/logs", async (req, res) => {
     try {
@@ -657,6 +730,154 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Lifecycle template registry - industries that can be simulated
+  app.get("/api/templates", async (_req, res) => {
+    try {
+      res.json({
+        industries: ['demo', ...getRegisteredIndustries()],
+        templates: listLifecycleTemplates()
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Dry-run a CSV template and report line-numbered problems without scheduling anything
+  app.post("/api/templates/lint", async (req, res) => {
+    try {
+      const { content, kind } = req.body;
+
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "Template content is required" });
+      }
+      if (kind !== undefined && kind !== 'lifecycle' && kind !== 'demo') {
+        return res.status(400).json({ message: "Template kind must be 'lifecycle' or 'demo'" });
+      }
+
+      res.json(lintTemplate(content, kind));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // User uploaded lifecycle templates - one row per name/outcome/version, content omitted
+  app.get("/api/user/:userId/templates", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const templates = await storage.getLifecycleTemplates(userId);
+      res.json(templates.map(({ content, ...summary }) => summary));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/user/:userId/templates", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { name, outcome, industry, content } = req.body;
+      
+      if (typeof name !== 'string' || !name.trim() || name.trim().length > 255) {
+        return res.status(400).json({ message: "Template name is required (max 255 characters)" });
+      }
+      if (outcome !== 'won' && outcome !== 'lost') {
+        return res.status(400).json({ message: "Template outcome must be 'won' or 'lost'" });
+      }
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "Template content is required" });
+      }
+      
+      const { rows, errors } = loadLifecycleTemplate(content);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Template has validation errors", errors });
+      }
+      
+      const template = await storage.createLifecycleTemplate({
+        userId,
+        name: name.trim(),
+        outcome,
+        industry: typeof industry === 'string' && industry.trim() ? industry.trim() : null,
+        content,
+        rowCount: rows.length,
+        baseCycleDays: Math.max(...rows.map(row => row.templateDay))
+      });
+      
+      console.log(`📚 User ${userId} uploaded lifecycle template '${template.name}' v${template.version} (${outcome}, ${rows.length} rows)`);
+      
+      const { content: _content, ...summary } = template;
+      res.status(201).json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Preview the scaled timeline of CSV content before uploading it
+  app.post("/api/user/:userId/templates/preview", async (req, res) => {
+    try {
+      const { content, targetCycleDays } = req.body;
+      
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "Template content is required" });
+      }
+      
+      const { rows, errors } = loadLifecycleTemplate(content);
+      const cycleDays = Number(targetCycleDays) > 0 ? Number(targetCycleDays) : LIFECYCLE_TARGET_CYCLE_DAYS;
+      res.json({
+        valid: errors.length === 0,
+        errors,
+        targetCycleDays: cycleDays,
+        timeline: errors.length === 0 ? previewLifecycleTimeline(rows, cycleDays) : []
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/user/:userId/templates/:templateId/preview", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const template = await storage.getLifecycleTemplateById(parseInt(req.params.templateId));
+      
+      if (!template || template.userId !== userId) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const { rows } = loadLifecycleTemplate(template.content);
+      const cycleDays = Number(req.query.targetCycleDays) > 0 ? Number(req.query.targetCycleDays) : LIFECYCLE_TARGET_CYCLE_DAYS;
+      res.json({
+        id: template.id,
+        name: template.name,
+        outcome: template.outcome,
+        version: template.version,
+        targetCycleDays: cycleDays,
+        timeline: previewLifecycleTimeline(rows, cycleDays)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete one template version, or every version of its name with ?allVersions=true
+  app.delete("/api/user/:userId/templates/:templateId", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const template = await storage.getLifecycleTemplateById(parseInt(req.params.templateId));
+      
+      if (!template || template.userId !== userId) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      if (req.query.allVersions === 'true') {
+        const deletedCount = await storage.deleteLifecycleTemplatesByName(userId, template.name);
+        return res.json({ message: `Deleted ${deletedCount} versions of template '${template.name}'` });
+      }
+      
+      await storage.deleteLifecycleTemplate(template.id);
+      res.json({ message: `Deleted template '${template.name}' v${template.version} (${template.outcome})` });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Helper function to format theme and industry names for simulation titles
   const formatSimulationName = (theme: string, industry: string): string => {
     // Theme name mappings - these match what's used in theme-selection.tsx
@@ -715,6 +936,29 @@ export function registerRoutes(app: Express) {
     return `${formattedIndustry} ${formattedTheme} Simulation`;
   };
 
+  // Step density and expected HubSpot call rate for simulation settings, before starting
+  app.post("/api/simulation/estimate", async (req, res) => {
+    try {
+      const { settings } = req.body;
+      const userId = Number(req.body.userId);
+      
+      if (!Number.isInteger(userId) || userId <= 0) {
+        return res.status(400).json({ message: "userId must be a positive integer user id" });
+      }
+      if (!settings?.industry) {
+        return res.status(400).json({ message: "Industry is required" });
+      }
+      const durationDays = Number(settings.duration_days);
+      if (settings.duration_days !== undefined && !(durationDays >= MIN_TARGET_CYCLE_DAYS && durationDays <= MAX_TARGET_CYCLE_DAYS)) {
+        return res.status(400).json({ message: `Duration must be between 1 minute and ${MAX_TARGET_CYCLE_DAYS} days` });
+      }
+      
+      res.json(await estimateSimulationLoad(userId, settings));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Simulation routes
   app.post("/api/simulation/start", async (req, res) => {
     try {
@@ -738,10 +982,117 @@ export function registerRoutes(app: Express) {
         });
       }
       
+      // Resolve a selected custom lifecycle template to the versions available for each outcome
+      let availableOutcomes: Array<'won' | 'lost'> = ['won', 'lost'];
+      const customTemplateVersions: Partial<Record<'won' | 'lost', number>> = {};
+      if (settings.customTemplate?.name) {
+        for (const candidate of ['won', 'lost'] as const) {
+          const record = await storage.getLifecycleTemplateVersion(userId, settings.customTemplate.name, candidate);
+          if (record) {
+            customTemplateVersions[candidate] = record.version;
+          }
+        }
+        availableOutcomes = availableOutcomes.filter(candidate => customTemplateVersions[candidate] !== undefined);
+        
+        if (availableOutcomes.length === 0) {
+          return res.status(400).json({ 
+            message: `Lifecycle template '${settings.customTemplate.name}' was not found`,
+            invalidTemplate: settings.customTemplate.name
+          });
+        }
+        
+        // Pin the versions used for this run
+        settings.customTemplate = { name: settings.customTemplate.name, versions: customTemplateVersions };
+      } else if (settings.industry.toLowerCase() !== 'demo' && !(['won', 'lost'] as const).every(candidate => getLifecycleTemplate(settings.industry, candidate))) {
+        // Checked before the simulation is created so a start never leaves a half scheduled run behind
+        return res.status(400).json({
+          message: `Unsupported industry: ${settings.industry}. Available lifecycle templates: ${['demo', ...getRegisteredIndustries()].join(', ')}`,
+          invalidIndustry: settings.industry
+        });
+      }
+      
+      // Each set is one prospect journey (1-36)
+      settings.totalSets = Math.min(Math.max(1, parseInt(settings.totalSets) || 1), 36);
+      
+      // Target duration - any template is scaled onto it; omitted means the template's own cycle
+      if (settings.duration_days !== undefined && settings.duration_days !== null) {
+        const durationDays = Number(settings.duration_days);
+        if (!(durationDays >= MIN_TARGET_CYCLE_DAYS && durationDays <= MAX_TARGET_CYCLE_DAYS)) {
+          return res.status(400).json({ 
+            message: `Duration must be between 1 minute and ${MAX_TARGET_CYCLE_DAYS} days`,
+            invalidDuration: settings.duration_days
+          });
+        }
+        settings.duration_days = durationDays;
+      } else {
+        settings.duration_days = getDefaultCycleDays(settings.industry, !!settings.customTemplate);
+      }
+      
+      // Outcome model - win rate per industry with optional theme overrides and a reproducible seed
+      const outcomeModelProblems = validateOutcomeModelSettings(settings.outcomeModel);
+      if (outcomeModelProblems.length > 0) {
+        return res.status(400).json({ 
+          message: "Invalid outcome model settings",
+          errors: outcomeModelProblems
+        });
+      }
+      // Optional calendar policy - steps are moved into working hours when scheduled
+      const calendarProblems = validateCalendarPolicy(settings.calendarPolicy);
+      if (calendarProblems.length > 0) {
+        return res.status(400).json({ 
+          message: "Invalid calendar policy",
+          errors: calendarProblems
+        });
+      }
+      // Backfill mode - the schedule is laid out in the past so the portal starts with history
+      if (settings.backfill !== undefined && typeof settings.backfill !== 'boolean') {
+        return res.status(400).json({
+          message: "backfill must be true or false",
+          invalidBackfill: settings.backfill
+        });
+      }
+      settings.backfill = settings.backfill === true;
+      // Optional product catalog - deals get line items priced from generated or existing portal products
+      if (settings.productCatalog !== undefined && settings.productCatalog !== null) {
+        const { source, productIds } = settings.productCatalog;
+        const validProductIds = productIds === undefined || (Array.isArray(productIds) && productIds.every((id: any) => /^\d+$/.test(String(id))));
+        if ((source !== 'generated' && source !== 'portal') || !validProductIds) {
+          return res.status(400).json({
+            message: "productCatalog needs a source of 'generated' or 'portal' and productIds must be HubSpot product IDs",
+            invalidProductCatalog: settings.productCatalog
+          });
+        }
+        settings.productCatalog = { source, ...(productIds?.length ? { productIds: productIds.map(String) } : {}) };
+      }
+      // Optional pipelines and weighted owners - checked against the portal's cached pipelines and owners
+      if (settings.crmTargets !== undefined && settings.crmTargets !== null) {
+        const crmTargetProblems = validateCrmTargets(settings.crmTargets, {
+          dealPipelineIds: (await storage.getHubspotPipelines(userId, 'deals')).map(pipeline => pipeline.hubspotId),
+          ticketPipelineIds: (await storage.getHubspotPipelines(userId, 'tickets')).map(pipeline => pipeline.hubspotId),
+          ownerIds: (await storage.getHubspotOwners(userId)).map(owner => owner.hubspotId)
+        });
+        if (crmTargetProblems.length > 0) {
+          return res.status(400).json({
+            message: "Invalid pipeline or owner selection",
+            errors: crmTargetProblems
+          });
+        }
+        settings.crmTargets = normalizeCrmTargets(settings.crmTargets);
+      }
+
+      const outcomeModel = resolveOutcomeModel(settings.industry, settings.theme, settings.outcomeModel);
+      settings.outcomeModel = {
+        ...settings.outcomeModel,
+        seed: outcomeModel.seed,
+        winRate: outcomeModel.winRate,
+        winRateSource: outcomeModel.winRateSource
+      };
+      
       console.log('Starting simulation with settings:', {
         theme: settings.theme,
         industry: settings.industry,
-        frequency: settings.frequency
+        frequency: settings.frequency,
+        customTemplate: settings.customTemplate
       });
       
       // Create simulation record with properly formatted name
@@ -802,31 +1153,86 @@ export function registerRoutes(app: Express) {
         acceleratorDays: settings.duration_days
       });
 
-      // Determine outcome and accelerator days
-      const outcome = Math.random() < 0.5 ? 'won' : 'lost';
-      const acceleratorDays = settings.duration_days || 0.5;
+      // Stagger the sets across the simulation duration, each with its own outcome
+      const acceleratorDays = settings.duration_days;
+      // The planned schedule runs until the last set's cycle ends
+      const scheduleSpanMs = calculateSetOffset(settings.totalSets, settings.totalSets, acceleratorDays) + acceleratorDays * 24 * 60 * 60 * 1000;
+      // Backfill runs start one full schedule ago, so every step is already due
+      const simulationStartAt = new Date(Date.now() - (settings.backfill ? scheduleSpanMs : 0));
+      const sets: Array<{ contactSeq: number; jobId: number; stepsCount: number; outcome: 'won' | 'lost'; startAt: string }> = [];
       
-      // Schedule simulation job with proper parameters
-      const { jobId, stepsCount } = await scheduleSimulationJob(
-        simulation, 
-        outcome, 
-        acceleratorDays,
-        1, // contactSeq
-        new Date() // setStartAt
-      );
+      const setOutcomes = drawSetOutcomes(outcomeModel, settings.totalSets, availableOutcomes);
+      
+      try {
+        for (let contactSeq = 1; contactSeq <= settings.totalSets; contactSeq++) {
+          const outcome = setOutcomes[contactSeq - 1];
+          const setStartAt = new Date(simulationStartAt.getTime() + calculateSetOffset(contactSeq, settings.totalSets, acceleratorDays));
+          
+          const { jobId, stepsCount } = await scheduleSimulationJob(
+            simulation, 
+            outcome, 
+            acceleratorDays,
+            contactSeq,
+            setStartAt
+          );
+          sets.push({ contactSeq, jobId, stepsCount, outcome, startAt: setStartAt.toISOString() });
+        }
+      } catch (error: any) {
+        // Sets scheduled so far never run: their steps are only claimed while the simulation is running
+        await storage.updateSimulation(simulation.id, {
+          status: 'failed',
+          completedAt: new Date(),
+          results: { error: `Scheduling failed: ${error.message}` }
+        });
+        throw error;
+      }
+      
+      const jobId = sets[0].jobId;
+      const stepsCount = sets.reduce((total, set) => total + set.stepsCount, 0);
+      
+      // A simulation without steps would never finish, since completion is checked as steps run
+      if (stepsCount === 0) {
+        await storage.deleteSimulation(simulation.id);
+        return res.status(400).json({
+          message: "The record distribution leaves no steps to run in any set",
+          invalidRecordDistribution: settings.record_distribution
+        });
+      }
+      const outcomes = {
+        won: sets.filter(set => set.outcome === 'won').length,
+        lost: sets.filter(set => set.outcome === 'lost').length
+      };
 
       // Get job metadata to extract CSV template information
       const job = await storage.getJobById(jobId);
       const jobMetadata = job?.metadata as any;
       
-      // Update simulation with job info and CSV template details
+      // Update simulation with job info, CSV template details and the outcome model used
       await storage.updateSimulation(simulation.id, {
         status: 'processing',
+        results: {
+          outcomeModel: {
+            winRate: outcomeModel.winRate,
+            winRateSource: outcomeModel.winRateSource,
+            seed: outcomeModel.seed
+          },
+          outcomes: {
+            ...outcomes,
+            actualWinRate: outcomes.won / sets.length
+          },
+          plannedSchedule: {
+            startAt: simulationStartAt.toISOString(),
+            endAt: new Date(simulationStartAt.getTime() + scheduleSpanMs).toISOString(),
+            durationMs: scheduleSpanMs
+          }
+        },
         config: { 
           ...settings, 
-          outcome, 
+          outcomes, 
           acceleratorDays, 
           jobId, 
+          jobIds: sets.map(set => set.jobId),
+          sets,
           stepsCount,
           csvTemplate: jobMetadata?.csvSource || 'unknown',
           usingIndustrySpecificTemplate: jobMetadata?.usingIndustrySpecificTemplate || false,
@@ -834,12 +1240,16 @@ export function registerRoutes(app: Express) {
         }
       });
 
-      console.log('Simulation job scheduled:', {
+      // Wake the runner for the first set instead of waiting for its next poll
+      notifyJobStepsScheduled(simulationStartAt);
+
+      console.log('Simulation jobs scheduled:', {
         simulationId: simulation.id,
-        jobId,
+        sets: sets.length,
         stepsCount,
-        outcome,
-        acceleratorDays
+        outcomes,
+        acceleratorDays,
+        backfill: settings.backfill
       });
 
       res.json({ 
@@ -847,9 +1257,12 @@ export function registerRoutes(app: Express) {
         message: "Simulation started with job scheduling",
         simulationId: simulation.id,
         jobId,
+        jobIds: sets.map(set => set.jobId),
+        totalSets: sets.length,
         stepsCount,
-        outcome,
-        acceleratorDays
+        outcomes,
+        acceleratorDays,
+        backfill: settings.backfill
       });
       
     } catch (error) {
@@ -861,6 +1274,28 @@ export function registerRoutes(app: Express) {
   app.delete("/api/simulation/:simulationId", async (req, res) => {
     try {
       const simulationId = parseInt(req.params.simulationId);
+      
+      // ?teardown=true archives the simulation's HubSpot records before the local rows go
+      if (req.query.teardown === 'true') {
+        const simulation = await storage.getSimulationById(simulationId);
+        if (!simulation) {
+          return res.status(404).json({ message: "Simulation not found" });
+        }
+        if (ACTIVE_SIMULATION_STATUSES.includes(simulation.status || '')) {
+          return res.status(400).json({ message: "Stop the simulation before tearing it down" });
+        }
+        
+        const teardown = await teardownSimulation(simulationId, { saveProgress: false });
+        if (teardown.failed > 0) {
+          return res.status(500).json({ 
+            message: "Some HubSpot records could not be archived; the simulation was kept so teardown can be retried",
+            teardown
+          });
+        }
+        await storage.deleteSimulation(simulationId);
+        return res.json({ message: "Simulation deleted", teardown });
+      }
+      
       await storage.deleteSimulation(simulationId);
       res.json({ message: "Simulation deleted" });
     } catch (error: any) {
@@ -868,12 +1303,94 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Archive the HubSpot records a simulation created; dryRun lists them without removing anything
+  app.post("/api/simulation/:simulationId/teardown", async (req, res) => {
+    try {
+      const simulationId = parseInt(req.params.simulationId);
+      const dryRun = req.body?.dryRun === true;
+      
+      const simulation = await storage.getSimulationById(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ message: "Simulation not found" });
+      }
+      if (ACTIVE_SIMULATION_STATUSES.includes(simulation.status || '')) {
+        return res.status(400).json({ message: "Stop the simulation before tearing it down" });
+      }
+      // A teardown cut short by a restart stops saving progress and can be started again
+      if (isTeardownRunning((simulation.results as any)?.teardown)) {
+        return res.status(400).json({ message: "Teardown is already running" });
+      }
+      
+      const plan = await teardownSimulation(simulationId, { dryRun: true });
+      if (dryRun) {
+        return res.json(plan);
+      }
+      
+      // Archiving runs in the background; progress is polled from GET .../teardown
+      teardownSimulation(simulationId).catch((error: any) => {
+        console.error(`Teardown of simulation ${simulationId} failed:`, error.message);
+      });
+      
+      res.status(202).json({ 
+        status: "running",
+        message: "Teardown started",
+        total: plan.total,
+        byType: plan.byType
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/simulation/:simulationId/teardown", async (req, res) => {
+    try {
+      const simulationId = parseInt(req.params.simulationId);
+      const simulation = await storage.getSimulationById(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ message: "Simulation not found" });
+      }
+      
+      const teardown = (simulation.results as any)?.teardown;
+      if (!teardown) {
+        return res.status(404).json({ message: "No teardown has run for this simulation" });
+      }
+      res.json(teardown);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Comprehensive user data reset endpoint
   app.delete("/api/user/:userId/reset", async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
       console.log(`🧹 User ${userId} requested comprehensive data reset`);
+      
+      // ?teardown=true archives every simulation's HubSpot records first; the reset stops if any are left behind
+      const teardowns: Array<{ simulationId: number; archived: number; failed: number }> = [];
+      if (req.query.teardown === 'true') {
+        const { markSimulationForCancellation } = await import('./orchestrator');
+        const userSimulations = await storage.getSimulationsByUser(userId);
+        
+        for (const simulation of userSimulations) {
+          if (ACTIVE_SIMULATION_STATUSES.includes(simulation.status || '')) {
+            markSimulationForCancellation(simulation.id);
+            await storage.updateSimulation(simulation.id, { status: 'stopped', completedAt: new Date() });
+          }
+          const teardown = await teardownSimulation(simulation.id, { saveProgress: false });
+          teardowns.push({ simulationId: simulation.id, archived: teardown.archived, failed: teardown.failed });
+        }
+        
+        if (teardowns.some(teardown => teardown.failed > 0)) {
+          return res.status(500).json({ 
+            error: "Reset failed", 
+            message: "Some HubSpot records could not be archived; local data was kept so the reset can be retried",
+            teardowns
+          });
+        }
+      }
+      
       await storage.resetUserData(userId);
       
       res.json({ 
@@ -884,7 +1401,8 @@ export function registerRoutes(app: Express) {
           "API tokens removed",
           "Session configuration reset",
           "Cached owners and pipelines cleared"
-        ]
+        ],
+        teardowns
       });
       
     } catch (error: any) {
@@ -900,8 +1418,24 @@ export function registerRoutes(app: Express) {
     try {
       const simulationId = parseInt(req.params.simulationId);
       
-      // Update simulation status to paused
-      await storage.updateSimulation(simulationId, { status: 'paused' });
+      const simulation = await storage.getSimulationById(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ message: "Simulation not found" });
+      }
+      if (simulation.status !== 'running' && simulation.status !== 'processing') {
+        return res.status(400).json({ message: `Simulation is ${simulation.status}, only running simulations can be paused` });
+      }
+      
+      // Update simulation status to paused and record when, so resume can shift the schedule
+      const pausedAt = new Date();
+      const results = (simulation.results as any) || {};
+      await storage.updateSimulation(simulationId, { 
+        status: 'paused',
+        results: {
+          ...results,
+          pauseHistory: [...(results.pauseHistory || []), { pausedAt: pausedAt.toISOString() }]
+        }
+      });
       
       // Update all pending job steps to paused status
       await db.update(jobSteps)
@@ -917,7 +1451,8 @@ export function registerRoutes(app: Express) {
       
       res.json({ 
         status: "paused",
-        message: "Simulation paused successfully"
+        message: "Simulation paused successfully",
+        pausedAt: pausedAt.toISOString()
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -927,25 +1462,61 @@ export function registerRoutes(app: Express) {
   app.post("/api/simulation/:simulationId/resume", async (req, res) => {
     try {
       const simulationId = parseInt(req.params.simulationId);
+      // 'shift' moves the rest of the schedule out by the paused time; 'compress' keeps the planned end
+      const mode = req.body?.mode || 'shift';
       
-      // Update simulation status to processing
-      await storage.updateSimulation(simulationId, { status: 'processing' });
+      if (mode !== 'shift' && mode !== 'compress') {
+        return res.status(400).json({ message: "mode must be 'shift' or 'compress'", invalidMode: mode });
+      }
       
-      // Update all paused job steps back to pending status
-      await db.update(jobSteps)
-        .set({ status: 'pending' })
-        .where(and(
-          eq(jobSteps.status, 'paused'),
-          inArray(jobSteps.jobId, 
-            db.select({ id: jobs.id })
-              .from(jobs)
-              .where(eq(jobs.simulationId, simulationId))
-          )
-        ));
+      const simulation = await storage.getSimulationById(simulationId);
+      if (!simulation) {
+        return res.status(404).json({ message: "Simulation not found" });
+      }
+      if (simulation.status !== 'paused') {
+        return res.status(400).json({ message: `Simulation is ${simulation.status}, only paused simulations can be resumed` });
+      }
+      
+      const resumedAt = new Date();
+      const results = (simulation.results as any) || {};
+      const pauseHistory = [...(results.pauseHistory || [])];
+      const openPause = pauseHistory.length > 0 && !pauseHistory[pauseHistory.length - 1].resumedAt
+        ? pauseHistory[pauseHistory.length - 1]
+        : null;
+      // Pauses recorded before pause times were tracked resume without shifting
+      const pausedAt = openPause ? new Date(openPause.pausedAt) : resumedAt;
+      
+      // Return paused job steps to pending with their remaining schedule moved past the pause
+      const stepsRescheduled = await storage.resumePausedJobSteps(simulationId, pausedAt, resumedAt, mode);
+      const pausedMs = resumedAt.getTime() - pausedAt.getTime();
+      
+      const resumeRecord = { 
+        pausedAt: pausedAt.toISOString(), 
+        resumedAt: resumedAt.toISOString(), 
+        pausedMs, 
+        mode, 
+        stepsRescheduled 
+      };
+      if (openPause) {
+        pauseHistory[pauseHistory.length - 1] = resumeRecord;
+      } else {
+        pauseHistory.push(resumeRecord);
+      }
+      
+      await storage.updateSimulation(simulationId, { 
+        status: 'processing',
+        results: { ...results, pauseHistory }
+      });
+      
+      console.log(`▶️ Simulation ${simulationId} resumed after ${Math.round(pausedMs / 1000)}s (${mode}), ${stepsRescheduled} steps rescheduled`);
+      notifyJobStepsScheduled(new Date());
       
       res.json({ 
         status: "processing",
-        message: "Simulation resumed successfully"
+        message: "Simulation resumed successfully",
+        mode,
+        pausedMs,
+        stepsRescheduled
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -986,6 +1557,7 @@ export function registerRoutes(app: Express) {
             or(
               eq(jobSteps.status, 'pending'), 
               eq(jobSteps.status, 'paused'),
+              eq(jobSteps.status, 'blocked'),
               eq(jobSteps.status, 'processing') // Also cancel processing steps
             ),
             inArray(jobSteps.jobId, 
@@ -1013,6 +1585,59 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Steps that ran out of retry attempts
+  app.get("/api/simulation/:simulationId/dead-letter", async (req, res) => {
+    try {
+      const simulationId = parseInt(req.params.simulationId);
+      const steps = await storage.getDeadLetterJobSteps(simulationId);
+      
+      res.json(steps.map(step => ({
+        id: step.id,
+        jobId: step.jobId,
+        stepIndex: step.stepIndex,
+        typeOfAction: step.typeOfAction,
+        recordType: step.recordType,
+        recordIdTpl: step.recordIdTpl,
+        scheduledAt: step.scheduledAt,
+        attempts: step.attempts,
+        error: (step.result as any)?.error,
+        attemptErrors: (step.result as any)?.attemptErrors || []
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Put dead-letter steps back in the queue with a fresh set of attempts (all of them when stepIds is omitted)
+  app.post("/api/simulation/:simulationId/dead-letter/requeue", async (req, res) => {
+    try {
+      const simulationId = parseInt(req.params.simulationId);
+      const { stepIds } = req.body || {};
+      
+      if (stepIds !== undefined && (!Array.isArray(stepIds) || !stepIds.every((id: any) => Number.isInteger(id)))) {
+        return res.status(400).json({ message: "stepIds must be an array of step ids" });
+      }
+      
+      const requeued = await storage.requeueDeadLetterJobSteps(simulationId, stepIds);
+      console.log(`🔁 Requeued ${requeued.length} dead-letter steps for simulation ${simulationId}`);
+      if (requeued.length > 0) {
+        // A simulation that already finished runs again until the requeued steps are done
+        const simulation = await storage.getSimulationById(simulationId);
+        if (simulation && (simulation.status === 'completed' || simulation.status === 'partially_failed')) {
+          await storage.updateSimulation(simulationId, { status: 'processing', completedAt: null });
+        }
+        notifyJobStepsScheduled(new Date());
+      }
+      
+      res.json({ 
+        requeued: requeued.length,
+        stepIds: requeued.map(step => step.id)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Live progress tracking endpoint
   app.get('/api/simulation/progress', async (req, res) => {
     try {
@@ -1022,9 +1647,12 @@ export function registerRoutes(app: Express) {
         jobId: jobs.id,
         completedSteps: sql<number>`count(case when ${jobSteps.status} = 'completed' then 1 end)`,
         processingSteps: sql<number>`count(case when ${jobSteps.status} = 'processing' then 1 end)`,
-        failedSteps: sql<number>`count(case when ${jobSteps.status} = 'failed' then 1 end)`,
+        failedSteps: sql<number>`count(case when ${jobSteps.status} in ('failed', 'failed_non_retryable') then 1 end)`,
+        retryingSteps: sql<number>`count(case when ${jobSteps.status} = 'pending' and ${jobSteps.nextAttemptAt} is not null then 1 end)`,
+        deadLetterSteps: sql<number>`count(case when ${jobSteps.status} = 'dead_letter' then 1 end)`,
+        blockedSteps: sql<number>`count(case when ${jobSteps.status} = 'blocked' then 1 end)`,
         totalSteps: sql<number>`count(*)`,
-        nextStepTime: sql<string>`min(case when ${jobSteps.status} = 'pending' then ${jobSteps.scheduledAt} end)`
+        nextStepTime: sql<string>`min(case when ${jobSteps.status} = 'pending' then coalesce(${jobSteps.nextAttemptAt}, ${jobSteps.scheduledAt}) end)`
       })
       .from(simulations)
       .innerJoin(jobs, eq(jobs.simulationId, simulations.id))
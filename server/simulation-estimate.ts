@@ -0,0 +1,139 @@
+/**
+ * Simulation Load Estimate
+ * Lays out a simulation's steps the way the scheduler would (before per-set record
+ * quotas and calendar shifts) to report step density and the expected HubSpot call rate
+ */
+
+import { storage } from './storage';
+import type { SimulationConfig } from '../shared/schema';
+import { calculateSetOffset } from './time-utils';
+import { resolveOutcomeModel, drawSetOutcomes } from './outcome-model';
+import {
+  getLifecycleTemplate,
+  loadDemoTemplate,
+  loadLifecycleTemplate,
+  getDefaultCycleDays,
+  DEMO_TEMPLATE_CYCLE_DAYS
+} from './template-registry';
+
+// HubSpot private apps allow 100 requests per 10 seconds on most tiers
+const HUBSPOT_BURST_LIMIT_PER_10S = parseInt(process.env.HUBSPOT_BURST_LIMIT_PER_10S || '100');
+
+export interface SimulationEstimate {
+  durationDays: number;
+  totalSets: number;
+  totalSteps: number;
+  totalHubSpotCalls: number;
+  spanHours: number;
+  stepsPerHour: number;
+  callsPerMinute: number;
+  peakCallsPer10Seconds: number;
+  burstLimitPer10Seconds: number;
+  exceedsBurstLimit: boolean;
+}
+
+// One step at an offset from its set's start; a create plus one call per association
+interface StepTiming {
+  offsetMs: number;
+  calls: number;
+}
+
+function countCalls(associationIds: string[]): number {
+  return 1 + associationIds.filter(id => id.trim()).length;
+}
+
+/**
+ * Step timings of a single set, scaled to the target duration
+ */
+async function getSetTimings(
+  userId: number,
+  settings: Partial<SimulationConfig>,
+  outcome: 'won' | 'lost',
+  contactSeq: number,
+  targetCycleDays: number
+): Promise<StepTiming[]> {
+  const industry = (settings.industry || '').toLowerCase();
+
+  if (industry === 'demo' && !settings.customTemplate) {
+    const { rows } = loadDemoTemplate();
+    const setIds = Array.from(new Set(rows.map(row => row.setId)));
+    const setRows = rows.filter(row => row.setId === setIds[(contactSeq - 1) % setIds.length] && row.timeToCreate <= 3600);
+    const baseSeconds = Math.min(...setRows.map(row => row.timeToCreate));
+    const scalingFactor = targetCycleDays / DEMO_TEMPLATE_CYCLE_DAYS;
+
+    return setRows.map(row => ({
+      offsetMs: (row.timeToCreate - baseSeconds) * scalingFactor * 1000,
+      calls: countCalls(row.associatedRecordId.split('|'))
+    }));
+  }
+
+  let rows = getLifecycleTemplate(industry, outcome)?.rows;
+  if (settings.customTemplate) {
+    const record = await storage.getLifecycleTemplateVersion(userId, settings.customTemplate.name, outcome);
+    rows = record ? loadLifecycleTemplate(record.content).rows : undefined;
+  }
+  if (!rows || rows.length === 0) {
+    return [];
+  }
+
+  const scalingFactor = targetCycleDays / Math.max(...rows.map(row => row.templateDay));
+  return rows.map(row => ({
+    offsetMs: row.templateDay * scalingFactor * 24 * 60 * 60 * 1000,
+    calls: countCalls(row.associationsTpl.split(','))
+  }));
+}
+
+/**
+ * Estimate step density and HubSpot call rate for simulation settings
+ */
+export async function estimateSimulationLoad(userId: number, settings: Partial<SimulationConfig>): Promise<SimulationEstimate> {
+  const totalSets = Math.min(Math.max(1, Number(settings.totalSets) || 1), 36);
+  const durationDays = Number(settings.duration_days) > 0
+    ? Number(settings.duration_days)
+    : getDefaultCycleDays(settings.industry || '', !!settings.customTemplate);
+
+  // Custom templates may only have one outcome variant; the scheduler uses the one that exists
+  const outcomeModel = resolveOutcomeModel(settings.industry || '', settings.theme || '', settings.outcomeModel);
+  const outcomes = drawSetOutcomes(outcomeModel, totalSets);
+
+  const events: StepTiming[] = [];
+  for (let contactSeq = 1; contactSeq <= totalSets; contactSeq++) {
+    const setOffsetMs = calculateSetOffset(contactSeq, totalSets, durationDays);
+    let timings = await getSetTimings(userId, settings, outcomes[contactSeq - 1], contactSeq, durationDays);
+    if (timings.length === 0) {
+      timings = await getSetTimings(userId, settings, outcomes[contactSeq - 1] === 'won' ? 'lost' : 'won', contactSeq, durationDays);
+    }
+    timings.forEach(timing => events.push({ offsetMs: setOffsetMs + timing.offsetMs, calls: timing.calls }));
+  }
+  events.sort((a, b) => a.offsetMs - b.offsetMs);
+
+  const totalHubSpotCalls = events.reduce((total, event) => total + event.calls, 0);
+  // A simulation spans at least one minute so rates stay finite
+  const spanMs = Math.max(60 * 1000, events.length > 0 ? events[events.length - 1].offsetMs : 0);
+
+  // Busiest 10 second window
+  let peakCallsPer10Seconds = 0;
+  let windowCalls = 0;
+  let windowStart = 0;
+  for (let i = 0; i < events.length; i++) {
+    windowCalls += events[i].calls;
+    while (events[i].offsetMs - events[windowStart].offsetMs >= 10 * 1000) {
+      windowCalls -= events[windowStart].calls;
+      windowStart++;
+    }
+    peakCallsPer10Seconds = Math.max(peakCallsPer10Seconds, windowCalls);
+  }
+
+  return {
+    durationDays,
+    totalSets,
+    totalSteps: events.length,
+    totalHubSpotCalls,
+    spanHours: spanMs / (60 * 60 * 1000),
+    stepsPerHour: events.length / (spanMs / (60 * 60 * 1000)),
+    callsPerMinute: totalHubSpotCalls / (spanMs / (60 * 1000)),
+    peakCallsPer10Seconds,
+    burstLimitPer10Seconds: HUBSPOT_BURST_LIMIT_PER_10S,
+    exceedsBurstLimit: peakCallsPer10Seconds > HUBSPOT_BURST_LIMIT_PER_10S
+  };
+}
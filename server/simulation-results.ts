@@ -0,0 +1,174 @@
+/**
+ * Simulation Results
+ * Detects when every job of a simulation has reached a terminal state, marks the
+ * simulation completed (or partially failed) and writes its final results document
+ */
+
+import { storage } from './storage';
+import { DEAD_LETTER_STATUS, SKIPPED_STATUS } from './retry-policy';
+import { isCreateAction, getCreatedRecordType } from './csv-template';
+import type { JobStep, Simulation } from '../shared/schema';
+
+// Steps in these states will not run again unless they are requeued
+const TERMINAL_STEP_STATUSES = ['completed', 'failed', 'failed_non_retryable', DEAD_LETTER_STATUS, 'blocked', SKIPPED_STATUS, 'cancelled'];
+
+// Each HubSpot action a simulation completes costs one credit
+const CREDITS_PER_COMPLETED_STEP = 1;
+
+export interface SimulationResultsSummary {
+  status: 'completed' | 'partially_failed';
+  completedAt: string;
+  steps: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+  recordsCreated: Record<string, number>;
+  hubspotIds: Record<string, string[]>;
+  failures: {
+    byStatus: Record<string, number>;
+    byCategory: Record<string, number>;
+  };
+  creditsUsed: number;
+  duration: {
+    plannedMs: number | null;
+    actualMs: number;
+    pausedMs: number;
+  };
+}
+
+function isTerminal(step: JobStep): boolean {
+  return TERMINAL_STEP_STATUSES.includes(step.status || '');
+}
+
+/**
+ * Plural object type a create step produced, e.g. create_company -> companies, log_call -> calls
+ */
+function getCreatedObjectType(step: JobStep): string {
+  const objectType = getCreatedRecordType(step.typeOfAction, step.recordType) || 'record';
+  if (objectType.endsWith('s')) return objectType;
+  return objectType.endsWith('y') ? `${objectType.slice(0, -1)}ies` : `${objectType}s`;
+}
+
+/**
+ * Why a step did not complete, from its final status and the last HubSpot response
+ */
+function getFailureCategory(step: JobStep): string {
+  if (step.status === 'blocked' || step.status === SKIPPED_STATUS || step.status === 'cancelled') {
+    return step.status;
+  }
+
+  const status = Number((step.result as any)?.status);
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 400 && status < 500) return 'validation';
+  if (status >= 500) return 'hubspot_server';
+  return 'error';
+}
+
+/**
+ * Build the results document for a simulation whose steps have all finished
+ */
+export function buildSimulationResults(simulation: Simulation, steps: JobStep[], completedAt: Date): SimulationResultsSummary {
+  const recordsCreated: Record<string, number> = {};
+  const hubspotIds: Record<string, string[]> = {};
+  const byStatus: Record<string, number> = {};
+  const byCategory: Record<string, number> = {};
+  let completed = 0;
+
+  for (const step of steps) {
+    if (step.status === 'completed') {
+      completed++;
+      const recordId = (step.result as any)?.recordId;
+      if (isCreateAction(step.typeOfAction) && recordId) {
+        const objectType = getCreatedObjectType(step);
+        recordsCreated[objectType] = (recordsCreated[objectType] || 0) + 1;
+        hubspotIds[objectType] = [...(hubspotIds[objectType] || []), String(recordId)];
+      }
+      const lineItemIds: string[] = ((step.result as any)?.lineItemIds || []).map(String);
+      if (lineItemIds.length > 0) {
+        recordsCreated.line_items = (recordsCreated.line_items || 0) + lineItemIds.length;
+        hubspotIds.line_items = [...(hubspotIds.line_items || []), ...lineItemIds];
+      }
+      continue;
+    }
+
+    const status = step.status || 'unknown';
+    byStatus[status] = (byStatus[status] || 0) + 1;
+    const category = getFailureCategory(step);
+    byCategory[category] = (byCategory[category] || 0) + 1;
+  }
+
+  const previousResults = (simulation.results as any) || {};
+  const pausedMs = (previousResults.pauseHistory || [])
+    .reduce((total: number, pause: any) => total + (pause.pausedMs || 0), 0);
+  const startedAt = simulation.startedAt || simulation.createdAt || completedAt;
+
+  return {
+    status: completed === steps.length ? 'completed' : 'partially_failed',
+    completedAt: completedAt.toISOString(),
+    steps: {
+      total: steps.length,
+      completed,
+      failed: steps.length - completed
+    },
+    recordsCreated,
+    hubspotIds,
+    failures: { byStatus, byCategory },
+    creditsUsed: completed * CREDITS_PER_COMPLETED_STEP,
+    duration: {
+      plannedMs: previousResults.plannedSchedule?.durationMs ?? null,
+      actualMs: completedAt.getTime() - new Date(startedAt).getTime(),
+      pausedMs
+    }
+  };
+}
+
+/**
+ * Close the job a step belongs to once all of its steps are terminal, then finish the
+ * simulation when every one of its jobs is closed. Returns the summary if it finished.
+ */
+export async function checkSimulationCompletion(jobId: number): Promise<SimulationResultsSummary | null> {
+  const job = await storage.getJobById(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const jobSteps = await storage.getJobSteps(jobId);
+  if (!jobSteps.every(isTerminal)) {
+    return null;
+  }
+
+  const jobStatus = jobSteps.every(step => step.status === 'completed') ? 'done' : 'failed';
+  if (job.status !== jobStatus) {
+    await storage.updateJobStatus(jobId, jobStatus);
+  }
+
+  // Paused and stopped simulations are finished by their own routes, not here
+  const simulation = await storage.getSimulationById(job.simulationId);
+  if (!simulation || (simulation.status !== 'running' && simulation.status !== 'processing')) {
+    return null;
+  }
+
+  const steps = await storage.getSimulationJobSteps(simulation.id);
+  if (!steps.every(isTerminal)) {
+    return null;
+  }
+
+  const completedAt = new Date();
+  const summary = buildSimulationResults(simulation, steps, completedAt);
+  const finished = await storage.finishSimulation(
+    simulation.id,
+    summary.status,
+    { ...((simulation.results as any) || {}), summary },
+    summary.creditsUsed,
+    completedAt
+  );
+  if (!finished) {
+    // Another worker finished it first
+    return null;
+  }
+
+  console.log(`🏁 Simulation ${simulation.id} ${summary.status}: ${summary.steps.completed}/${summary.steps.total} steps completed, ${summary.creditsUsed} credits used`);
+  return summary;
+}
@@ -0,0 +1,221 @@
+/**
+ * Simulation Teardown
+ * Archives the HubSpot records a simulation created, using the IDs kept in job context
+ * and step results. Custom objects, engagements and child records go first, contacts
+ * last, in batches through the rate limiter. Records the simulation only found
+ * (deduplicated or search fallback matches) existed before it ran and are left alone,
+ * as are catalog products, which later simulations of the same theme and industry reuse.
+ */
+
+import { storage } from './storage';
+import { makeHubSpotRequest } from './orchestrator';
+import { isCreateAction, getCreatedRecordType } from './csv-template';
+import type { JobStep } from '../shared/schema';
+
+// Children before the records they hang off
+const TEARDOWN_ORDER = ['line_items', 'notes', 'tasks', 'calls', 'meetings', 'emails', 'tickets', 'deals', 'companies', 'contacts'];
+
+// HubSpot batch archive accepts up to 100 IDs per request
+const ARCHIVE_BATCH_SIZE = 100;
+
+// A running teardown that has not saved progress for this long was cut short (e.g. by a restart)
+const TEARDOWN_STALE_MS = parseInt(process.env.TEARDOWN_STALE_MS || '900000');
+
+export interface TeardownRecord {
+  objectType: string;
+  id: string;
+  stepId: number;
+  jobId: number;
+}
+
+export interface TeardownProgress {
+  status: 'running' | 'completed' | 'partially_failed' | 'failed';
+  dryRun: boolean;
+  startedAt: string;
+  updatedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  total: number;
+  archived: number;
+  failed: number;
+  byType: Record<string, { total: number; archived: number; failed: number }>;
+  errors: Array<{ objectType: string; ids: string[]; error: string }>;
+}
+
+/**
+ * HubSpot object type a create step wrote to, e.g. create_company -> companies, log_call -> calls.
+ * Custom object steps record their object type ID (e.g. 2-1234567) in the step result.
+ */
+function getObjectType(step: JobStep): string | null {
+  const resultObjectType = (step.result as any)?.objectType;
+  if (typeof resultObjectType === 'string' && /^2-\d+$/.test(resultObjectType)) {
+    return resultObjectType;
+  }
+  const objectType = getCreatedRecordType(step.typeOfAction, step.recordType);
+  const normalized = objectType === 'opportunity' ? 'deal' : objectType.replace(/s$/, '');
+  const plural = normalized === 'company' ? 'companies' : `${normalized}s`;
+  return TEARDOWN_ORDER.includes(plural) ? plural : null;
+}
+
+/**
+ * Every HubSpot record the simulation created, in teardown order (custom objects first)
+ */
+export async function collectSimulationRecords(simulationId: number): Promise<TeardownRecord[]> {
+  const steps = await storage.getSimulationJobSteps(simulationId);
+  const contexts = new Map<number, Record<string, string>>();
+  const records: TeardownRecord[] = [];
+  const seen = new Set<string>();
+
+  // Line items added by deal and line item steps, less those a later step removed
+  const removedLineItems = new Set<string>(steps.flatMap(step => ((step.result as any)?.removedLineItemIds || []).map(String)));
+  for (const step of steps) {
+    for (const id of ((step.result as any)?.lineItemIds || []).map(String)) {
+      if (step.status !== 'completed' || removedLineItems.has(id) || seen.has(`line_items:${id}`)) continue;
+      seen.add(`line_items:${id}`);
+      records.push({ objectType: 'line_items', id, stepId: step.id, jobId: step.jobId });
+    }
+  }
+
+  for (const step of steps) {
+    const result = (step.result as any) || {};
+    if (step.status !== 'completed' || !isCreateAction(step.typeOfAction) || result.deduplicated) {
+      continue;
+    }
+
+    const objectType = getObjectType(step);
+    if (!objectType) {
+      console.warn(`⚠️ Teardown skipping step ${step.id}: unknown object type for ${step.typeOfAction}/${step.recordType}`);
+      continue;
+    }
+
+    if (!contexts.has(step.jobId)) {
+      contexts.set(step.jobId, await storage.getJobContext(step.jobId));
+    }
+    const id = String(result.recordId || contexts.get(step.jobId)![step.recordIdTpl || ''] || '');
+    if (!id || id === 'skipped' || seen.has(`${objectType}:${id}`)) {
+      continue;
+    }
+
+    seen.add(`${objectType}:${id}`);
+    records.push({ objectType, id, stepId: step.id, jobId: step.jobId });
+  }
+
+  return records.sort((a, b) => TEARDOWN_ORDER.indexOf(a.objectType) - TEARDOWN_ORDER.indexOf(b.objectType));
+}
+
+/**
+ * Whether saved teardown progress belongs to a teardown that is still running; one that stopped
+ * saving progress long ago died without finishing and can be restarted
+ */
+export function isTeardownRunning(progress: TeardownProgress | undefined, now: Date = new Date()): boolean {
+  if (progress?.status !== 'running') {
+    return false;
+  }
+  const lastUpdate = new Date(progress.updatedAt || progress.startedAt).getTime();
+  return Number.isFinite(lastUpdate) && now.getTime() - lastUpdate < TEARDOWN_STALE_MS;
+}
+
+/**
+ * Save teardown progress on the simulation so it can be polled
+ */
+async function saveProgress(simulationId: number, progress: TeardownProgress): Promise<void> {
+  const simulation = await storage.getSimulationById(simulationId);
+  if (!simulation) return;
+  progress.updatedAt = new Date().toISOString();
+  await storage.updateSimulation(simulationId, {
+    results: { ...((simulation.results as any) || {}), teardown: progress }
+  });
+}
+
+/**
+ * Archive everything the simulation created. With `dryRun` nothing is sent to HubSpot and
+ * the report lists what would be removed. Progress is saved on the simulation after each batch.
+ */
+export async function teardownSimulation(
+  simulationId: number,
+  options: { dryRun?: boolean; saveProgress?: boolean } = {}
+): Promise<TeardownProgress & { records: TeardownRecord[] }> {
+  const simulation = await storage.getSimulationById(simulationId);
+  if (!simulation) {
+    throw new Error(`Simulation ${simulationId} not found`);
+  }
+
+  const records = await collectSimulationRecords(simulationId);
+  const progress: TeardownProgress = {
+    status: 'running',
+    dryRun: !!options.dryRun,
+    startedAt: new Date().toISOString(),
+    total: records.length,
+    archived: 0,
+    failed: 0,
+    byType: {},
+    errors: []
+  };
+  for (const record of records) {
+    progress.byType[record.objectType] = progress.byType[record.objectType] || { total: 0, archived: 0, failed: 0 };
+    progress.byType[record.objectType].total++;
+  }
+
+  if (options.dryRun) {
+    progress.status = 'completed';
+    progress.finishedAt = new Date().toISOString();
+    return { ...progress, records };
+  }
+
+  // Whatever stops the teardown, its saved progress must not stay 'running'
+  const persist = options.saveProgress !== false;
+  try {
+    const session = await storage.getSession(simulation.userId);
+    const token = session?.hubspotToken;
+    if (!token) {
+      throw new Error('HubSpot token not available for teardown');
+    }
+
+    if (persist) await saveProgress(simulationId, progress);
+    console.log(`🧨 Tearing down simulation ${simulationId}: ${records.length} HubSpot records`);
+
+    const customObjectTypes = Array.from(new Set(records.map(record => record.objectType)))
+      .filter(objectType => !TEARDOWN_ORDER.includes(objectType));
+    for (const objectType of [...customObjectTypes, ...TEARDOWN_ORDER]) {
+      const ids = records.filter(record => record.objectType === objectType).map(record => record.id);
+
+      for (let i = 0; i < ids.length; i += ARCHIVE_BATCH_SIZE) {
+        const batch = ids.slice(i, i + ARCHIVE_BATCH_SIZE);
+        try {
+          await makeHubSpotRequest('POST', `/crm/v3/objects/${objectType}/batch/archive`, {
+            inputs: batch.map(id => ({ id }))
+          }, token);
+          progress.archived += batch.length;
+          progress.byType[objectType].archived += batch.length;
+        } catch (error: any) {
+          console.error(`❌ Teardown failed to archive ${batch.length} ${objectType}: ${error.message}`);
+          progress.failed += batch.length;
+          progress.byType[objectType].failed += batch.length;
+          progress.errors.push({ objectType, ids: batch, error: error.message });
+        }
+
+        if (persist) await saveProgress(simulationId, progress);
+      }
+    }
+
+    progress.status = progress.failed > 0 ? 'partially_failed' : 'completed';
+    progress.finishedAt = new Date().toISOString();
+    if (persist) await saveProgress(simulationId, progress);
+    console.log(`🧹 Teardown of simulation ${simulationId} ${progress.status}: ${progress.archived} archived, ${progress.failed} failed`);
+
+    return { ...progress, records };
+  } catch (error: any) {
+    progress.error = error.message;
+    throw error;
+  } finally {
+    if (progress.status === 'running') {
+      progress.status = 'failed';
+      progress.finishedAt = new Date().toISOString();
+      if (persist) {
+        await saveProgress(simulationId, progress).catch((error: any) => {
+          console.error(`Could not record failed teardown of simulation ${simulationId}:`, error.message);
+        });
+      }
+    }
+  }
+}
@@ -19,6 +19,13 @@ import {
   InsertHubspotStage,
   HubspotOwner,
   InsertHubspotOwner,
+  HubspotAssociationLabel,
+  InsertHubspotAssociationLabel,
+  HubspotMetadataChange,
+  InsertHubspotMetadataChange,
+  SimulationWarning,
+  LifecycleTemplateRecord,
+  InsertLifecycleTemplateRecord,
   users,
   sessions,
   playerTiers,
@@ -28,10 +35,21 @@ import {
   jobSteps,
   hubspotPipelines,
   hubspotStages,
-  hubspotOwners
+  hubspotOwners,
+  hubspotAssociationLabels,
+  hubspotMetadataChanges,
+  lifecycleTemplates
 } from "../shared/schema";
 import { db } from "./db";
-import { eq, and, sql, or, ne } from "drizzle-orm";
+import { DEAD_LETTER_STATUS } from "./retry-policy";
+import { mergeJobContext } from "./job-context";
+import { eq, and, sql, or, ne, desc, max, lt, lte, gt, inArray, notInArray, isNull, isNotNull, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// A pipeline to cache along with the stages that belong to it
+export type CachedHubspotPipelineInput = InsertHubspotPipeline & {
+  stages: Array<Omit<InsertHubspotStage, 'pipelineId'>>;
+};
 
 export interface IStorage {
   // User operations
@@ -51,6 +69,9 @@ export interface IStorage {
   getSimulationById(id: number): Promise<Simulation | undefined>;
   getSimulationsByUserId(userId: number): Promise<Simulation[]>;
   updateSimulation(id: number, simulationData: Partial<Simulation>): Promise<Simulation>;
+  finishSimulation(id: number, status: string, results: any, creditsUsed: number, completedAt: Date): Promise<Simulation | undefined>;
+  addSimulationWarning(id: number, warning: SimulationWarning): Promise<void>;
+  getUserIdsWithActiveSimulations(): Promise<number[]>;
   
   // API Token operations
   createApiToken(tokenData: InsertApiToken): Promise<ApiToken>;
@@ -78,22 +99,47 @@ export interface IStorage {
   // Job operations
   createJob(jobData: InsertJob): Promise<Job>;
   createJobSteps(jobStepsData: InsertJobStep[]): Promise<JobStep[]>;
-  getDueJobSteps(scheduledAt: Date): Promise<JobStep[]>;
+  claimDueJobSteps(workerId: string, now: Date, limit: number, leaseMs: number): Promise<JobStep[]>;
+  getNextJobStepDueAt(after: Date): Promise<Date | null>;
+  extendJobStepLease(stepId: number, workerId: string, leaseMs: number): Promise<boolean>;
+  recoverExpiredJobStepLeases(now: Date): Promise<number>;
+  getJobSteps(jobId: number): Promise<JobStep[]>;
+  getSimulationJobSteps(simulationId: number): Promise<JobStep[]>;
+  updateJobStatus(jobId: number, status: string): Promise<Job>;
+  retryJobStep(stepId: number, workerId: string, nextAttemptAt: Date, result: any): Promise<boolean>;
+  resumePausedJobSteps(simulationId: number, pausedAt: Date, resumedAt: Date, mode: 'shift' | 'compress'): Promise<number>;
+  getDeadLetterJobSteps(simulationId: number): Promise<JobStep[]>;
+  requeueDeadLetterJobSteps(simulationId: number, stepIds?: number[]): Promise<JobStep[]>;
   updateJobStepStatus(stepId: number, status: string, result?: any): Promise<JobStep>;
+  finishLeasedJobStep(stepId: number, workerId: string, status: string, result: any): Promise<boolean>;
+  unblockJobStep(stepId: number, scheduledAt: Date, result: any): Promise<boolean>;
+  updatePendingJobStepAction(stepId: number, actionTpl: any): Promise<boolean>;
   getJobById(jobId: number): Promise<Job | undefined>;
   
   // Job context operations for record ID resolution
   getJobContext(jobId: number): Promise<Record<string, string>>;
-  updateJobContext(jobId: number, context: Record<string, string>): Promise<Job>;
+  mergeJobContext(jobId: number, values: Record<string, string>): Promise<void>;
   
   // Pipeline and stage operations
-  cacheHubspotPipelines(userId: number, pipelines: InsertHubspotPipeline[]): Promise<HubspotPipeline[]>;
-  cacheHubspotStages(stages: InsertHubspotStage[]): Promise<HubspotStage[]>;
+  cacheHubspotPipelines(userId: number, pipelines: CachedHubspotPipelineInput[]): Promise<HubspotPipeline[]>;
   cacheHubspotOwners(owners: InsertHubspotOwner[]): Promise<void>;
   getHubspotPipelines(userId: number, objectType: string): Promise<HubspotPipeline[]>;
   getHubspotStages(pipelineId: number): Promise<HubspotStage[]>;
   getHubspotOwners(userId: number): Promise<HubspotOwner[]>;
+  deactivateMissingHubspotOwners(userId: number, activeHubspotIds: string[]): Promise<HubspotOwner[]>;
+  cacheHubspotAssociationLabels(userId: number, fromObjectType: string, toObjectType: string, labels: InsertHubspotAssociationLabel[]): Promise<HubspotAssociationLabel[]>;
+  getHubspotAssociationLabels(userId: number, fromObjectType: string, toObjectType: string): Promise<HubspotAssociationLabel[]>;
   clearHubspotCache(userId: number): Promise<void>;
+  recordHubspotMetadataChanges(changes: InsertHubspotMetadataChange[]): Promise<HubspotMetadataChange[]>;
+  getHubspotMetadataChanges(userId: number, limit?: number): Promise<HubspotMetadataChange[]>;
+  
+  // Lifecycle template operations
+  getLifecycleTemplates(userId: number): Promise<LifecycleTemplateRecord[]>;
+  getLifecycleTemplateById(id: number): Promise<LifecycleTemplateRecord | undefined>;
+  getLifecycleTemplateVersion(userId: number, name: string, outcome: string, version?: number): Promise<LifecycleTemplateRecord | undefined>;
+  createLifecycleTemplate(templateData: Omit<InsertLifecycleTemplateRecord, 'version'>): Promise<LifecycleTemplateRecord>;
+  deleteLifecycleTemplate(id: number): Promise<void>;
+  deleteLifecycleTemplatesByName(userId: number, name: string): Promise<number>;
   
   // Comprehensive user data reset operations
   resetUserData(userId: number): Promise<void>;
@@ -220,6 +266,36 @@ export class DatabaseStorage implements IStorage {
     return simulation;
   }
 
+  async finishSimulation(id: number, status: string, results: any, creditsUsed: number, completedAt: Date): Promise<Simulation | undefined> {
+    // Only a simulation that is still running can finish, so concurrent workers write the results once
+    const [simulation] = await db
+      .update(simulations)
+      .set({ status, results, creditsUsed, completedAt, updatedAt: new Date() })
+      .where(and(
+        eq(simulations.id, id),
+        inArray(simulations.status, ['running', 'processing'])
+      ))
+      .returning();
+    return simulation;
+  }
+
+  async addSimulationWarning(id: number, warning: SimulationWarning): Promise<void> {
+    // Appended in SQL so warnings from concurrent refreshes are all kept
+    await db.update(simulations)
+      .set({
+        warnings: sql`coalesce(${simulations.warnings}::jsonb, '[]'::jsonb) || ${JSON.stringify([warning])}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(eq(simulations.id, id));
+  }
+
+  async getUserIdsWithActiveSimulations(): Promise<number[]> {
+    const rows = await db.selectDistinct({ userId: simulations.userId })
+      .from(simulations)
+      .where(inArray(simulations.status, ['running', 'processing', 'paused']));
+    return rows.map(row => row.userId);
+  }
+
   async getSimulationsByUserId(userId: number): Promise<Simulation[]> {
     return await db.select().from(simulations).where(eq(simulations.userId, userId));
   }
@@ -339,39 +415,220 @@ export class DatabaseStorage implements IStorage {
     return insertedSteps;
   }
 
-  async getDueJobSteps(scheduledAt: Date): Promise<JobStep[]> {
-    const dueSteps = await db.select({
-      id: jobSteps.id,
-      jobId: jobSteps.jobId,
-      stepIndex: jobSteps.stepIndex,
-      templateDay: jobSteps.templateDay,
-      scaledDay: jobSteps.scaledDay,
-      scheduledAt: jobSteps.scheduledAt,
-      typeOfAction: jobSteps.typeOfAction,
-      recordType: jobSteps.recordType,
-      recordIdTpl: jobSteps.recordIdTpl,
-      associationsTpl: jobSteps.associationsTpl,
-      originalSource: jobSteps.originalSource,
-      actionTpl: jobSteps.actionTpl,
-      reasonTpl: jobSteps.reasonTpl,
-      status: jobSteps.status,
-      result: jobSteps.result
+  async claimDueJobSteps(workerId: string, now: Date, limit: number, leaseMs: number): Promise<JobStep[]> {
+    // Prerequisite steps (dependsOn holds their step indexes) that have not completed yet
+    const prerequisiteStep = alias(jobSteps, 'prerequisite_step');
+    const waitingOnPrerequisite = db.select({ id: prerequisiteStep.id })
+      .from(prerequisiteStep)
+      .where(and(
+        eq(prerequisiteStep.jobId, jobSteps.jobId),
+        sql`${prerequisiteStep.stepIndex} in (select json_array_elements_text(${jobSteps.dependsOn})::int)`,
+        ne(prerequisiteStep.status, 'completed')
+      ));
+
+    // Steps scheduled without dependencies run one at a time per job in schedule order:
+    // they wait for a step still running or an earlier pending one
+    const blockingStep = alias(jobSteps, 'blocking_step');
+    const waitingOnEarlierStep = db.select({ id: blockingStep.id })
+      .from(blockingStep)
+      .where(and(
+        eq(blockingStep.jobId, jobSteps.jobId),
+        ne(blockingStep.id, jobSteps.id),
+        or(
+          eq(blockingStep.status, 'processing'),
+          and(
+            eq(blockingStep.status, 'pending'),
+            or(
+              lt(blockingStep.scheduledAt, jobSteps.scheduledAt),
+              and(eq(blockingStep.scheduledAt, jobSteps.scheduledAt), lt(blockingStep.stepIndex, jobSteps.stepIndex))
+            )
+          )
+        )
+      ));
+
+    // Rows locked by a concurrent claim are skipped rather than waited on
+    const dueStepIds = db.select({ id: jobSteps.id })
+      .from(jobSteps)
+      .innerJoin(jobs, eq(jobSteps.jobId, jobs.id))
+      .innerJoin(simulations, eq(jobs.simulationId, simulations.id))
+      .where(and(
+        eq(jobSteps.status, 'pending'),
+        lte(jobSteps.scheduledAt, now),
+        // Steps waiting out a retry backoff
+        or(isNull(jobSteps.nextAttemptAt), lte(jobSteps.nextAttemptAt, now)),
+        or(
+          eq(simulations.status, 'running'),
+          eq(simulations.status, 'processing')
+        ),
+        // Explicitly exclude stopped simulations to prevent race conditions
+        ne(simulations.status, 'stopped'),
+        or(
+          and(isNotNull(jobSteps.dependsOn), notExists(waitingOnPrerequisite)),
+          and(isNull(jobSteps.dependsOn), notExists(waitingOnEarlierStep))
+        )
+      ))
+      .orderBy(jobSteps.scheduledAt, jobSteps.stepIndex)
+      .limit(limit)
+      .for('update', { of: jobSteps, skipLocked: true });
+
+    const claimedSteps = await db.update(jobSteps)
+      .set({
+        status: 'processing',
+        leasedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        attempts: sql`${jobSteps.attempts} + 1`
+      })
+      .where(inArray(jobSteps.id, dueStepIds))
+      .returning();
+
+    return claimedSteps.sort((a, b) => (a.scheduledAt?.getTime() || 0) - (b.scheduledAt?.getTime() || 0));
+  }
+
+  async getNextJobStepDueAt(after: Date): Promise<Date | null> {
+    const [next] = await db.select({
+      dueAt: sql`min(coalesce(${jobSteps.nextAttemptAt}, ${jobSteps.scheduledAt}))`.mapWith(jobSteps.scheduledAt)
     })
     .from(jobSteps)
     .innerJoin(jobs, eq(jobSteps.jobId, jobs.id))
     .innerJoin(simulations, eq(jobs.simulationId, simulations.id))
     .where(and(
       eq(jobSteps.status, 'pending'),
-      sql`${jobSteps.scheduledAt} <= ${scheduledAt}`,
+      or(
+        and(isNull(jobSteps.nextAttemptAt), gt(jobSteps.scheduledAt, after)),
+        gt(jobSteps.nextAttemptAt, after)
+      ),
       or(
         eq(simulations.status, 'running'),
         eq(simulations.status, 'processing')
-      ),
-      // Explicitly exclude stopped simulations to prevent race conditions
-      ne(simulations.status, 'stopped')
-    ))
-    .orderBy(jobSteps.scheduledAt);
-    return dueSteps;
+      )
+    ));
+    return next?.dueAt || null;
+  }
+
+  async extendJobStepLease(stepId: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const extended = await db.update(jobSteps)
+      .set({ leaseExpiresAt: new Date(Date.now() + leaseMs) })
+      .where(and(
+        eq(jobSteps.id, stepId),
+        eq(jobSteps.status, 'processing'),
+        eq(jobSteps.leasedBy, workerId)
+      ))
+      .returning({ id: jobSteps.id });
+    return extended.length > 0;
+  }
+
+  async recoverExpiredJobStepLeases(now: Date): Promise<number> {
+    const recovered = await db.update(jobSteps)
+      .set({ status: 'pending', leasedBy: null, leaseExpiresAt: null })
+      .where(and(
+        eq(jobSteps.status, 'processing'),
+        or(
+          lt(jobSteps.leaseExpiresAt, now),
+          isNull(jobSteps.leaseExpiresAt) // Left behind by a runner without leases
+        )
+      ))
+      .returning({ id: jobSteps.id });
+    return recovered.length;
+  }
+
+  async getJobSteps(jobId: number): Promise<JobStep[]> {
+    return await db.select()
+      .from(jobSteps)
+      .where(eq(jobSteps.jobId, jobId))
+      .orderBy(jobSteps.scheduledAt, jobSteps.stepIndex);
+  }
+
+  async getSimulationJobSteps(simulationId: number): Promise<JobStep[]> {
+    return await db.select()
+      .from(jobSteps)
+      .where(inArray(jobSteps.jobId, db.select({ id: jobs.id }).from(jobs).where(eq(jobs.simulationId, simulationId))))
+      .orderBy(jobSteps.jobId, jobSteps.stepIndex);
+  }
+
+  async updateJobStatus(jobId: number, status: string): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status })
+      .where(eq(jobs.id, jobId))
+      .returning();
+    return job;
+  }
+
+  async retryJobStep(stepId: number, workerId: string, nextAttemptAt: Date, result: any): Promise<boolean> {
+    // Only the worker still holding the lease may reschedule the step
+    const updated = await db.update(jobSteps)
+      .set({ status: 'pending', nextAttemptAt, result, leasedBy: null, leaseExpiresAt: null })
+      .where(and(
+        eq(jobSteps.id, stepId),
+        eq(jobSteps.status, 'processing'),
+        eq(jobSteps.leasedBy, workerId)
+      ))
+      .returning({ id: jobSteps.id });
+    return updated.length > 0;
+  }
+
+  async getDeadLetterJobSteps(simulationId: number): Promise<JobStep[]> {
+    return await db.select()
+      .from(jobSteps)
+      .where(and(
+        eq(jobSteps.status, DEAD_LETTER_STATUS),
+        inArray(jobSteps.jobId, db.select({ id: jobs.id }).from(jobs).where(eq(jobs.simulationId, simulationId)))
+      ))
+      .orderBy(jobSteps.scheduledAt);
+  }
+
+  async requeueDeadLetterJobSteps(simulationId: number, stepIds?: number[]): Promise<JobStep[]> {
+    return await db.update(jobSteps)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: null })
+      .where(and(
+        eq(jobSteps.status, DEAD_LETTER_STATUS),
+        inArray(jobSteps.jobId, db.select({ id: jobs.id }).from(jobs).where(eq(jobs.simulationId, simulationId))),
+        stepIds ? inArray(jobSteps.id, stepIds) : undefined
+      ))
+      .returning();
+  }
+
+  async resumePausedJobSteps(simulationId: number, pausedAt: Date, resumedAt: Date, mode: 'shift' | 'compress'): Promise<number> {
+    const simulationJobIds = db.select({ id: jobs.id }).from(jobs).where(eq(jobs.simulationId, simulationId));
+    const pausedMs = Math.max(0, resumedAt.getTime() - pausedAt.getTime());
+    const pausedInterval = sql`(${pausedMs}::double precision * interval '1 millisecond')`;
+
+    // Shift: every remaining step moves forward by the paused interval
+    let scheduledAt = sql`${jobSteps.scheduledAt} + ${pausedInterval}`;
+
+    if (mode === 'compress') {
+      // Compress: what was left at pause time is squeezed into the time left until the planned end
+      const [planned] = await db.select({ endAt: max(jobSteps.scheduledAt) })
+        .from(jobSteps)
+        .where(and(inArray(jobSteps.status, ['paused', 'blocked']), inArray(jobSteps.jobId, simulationJobIds)));
+      const remainingMs = planned?.endAt ? planned.endAt.getTime() - pausedAt.getTime() : 0;
+      const availableMs = planned?.endAt ? Math.max(0, planned.endAt.getTime() - resumedAt.getTime()) : 0;
+      const factor = remainingMs > 0 ? availableMs / remainingMs : 0;
+
+      scheduledAt = sql`${resumedAt.toISOString()}::timestamp + greatest(extract(epoch from (${jobSteps.scheduledAt} - ${pausedAt.toISOString()}::timestamp)), 0) * ${factor}::double precision * interval '1 second'`;
+    }
+
+    const resumed = await db.update(jobSteps)
+      .set({
+        status: 'pending',
+        scheduledAt,
+        // Retry backoff is relative to the failure, so it always moves by the paused interval
+        nextAttemptAt: sql`${jobSteps.nextAttemptAt} + ${pausedInterval}`
+      })
+      .where(and(
+        eq(jobSteps.status, 'paused'),
+        inArray(jobSteps.jobId, simulationJobIds)
+      ))
+      .returning({ id: jobSteps.id });
+
+    // Blocked steps stay blocked but move with the rest of the schedule, ready for when they are unblocked
+    await db.update(jobSteps)
+      .set({ scheduledAt })
+      .where(and(
+        eq(jobSteps.status, 'blocked'),
+        inArray(jobSteps.jobId, simulationJobIds)
+      ));
+    return resumed.length;
   }
 
   async updateJobStepStatus(stepId: number, status: string, result?: any): Promise<JobStep> {
@@ -379,6 +636,11 @@ export class DatabaseStorage implements IStorage {
     if (result !== undefined) {
       updateData.result = result;
     }
+    // The lease only lives as long as the step is running
+    if (status !== 'processing') {
+      updateData.leasedBy = null;
+      updateData.leaseExpiresAt = null;
+    }
     
     const [updatedStep] = await db.update(jobSteps)
       .set(updateData)
@@ -387,6 +649,39 @@ export class DatabaseStorage implements IStorage {
     return updatedStep;
   }
 
+  async finishLeasedJobStep(stepId: number, workerId: string, status: string, result: any): Promise<boolean> {
+    // A worker that lost its lease has its result dropped; the step belongs to whoever holds it now
+    const updated = await db.update(jobSteps)
+      .set({ status, result, leasedBy: null, leaseExpiresAt: null })
+      .where(and(
+        eq(jobSteps.id, stepId),
+        eq(jobSteps.status, 'processing'),
+        eq(jobSteps.leasedBy, workerId)
+      ))
+      .returning({ id: jobSteps.id });
+    return updated.length > 0;
+  }
+
+  async unblockJobStep(stepId: number, scheduledAt: Date, result: any): Promise<boolean> {
+    const updated = await db.update(jobSteps)
+      .set({ status: 'pending', scheduledAt, nextAttemptAt: null, result })
+      .where(and(eq(jobSteps.id, stepId), eq(jobSteps.status, 'blocked')))
+      .returning({ id: jobSteps.id });
+    return updated.length > 0;
+  }
+
+  async updatePendingJobStepAction(stepId: number, actionTpl: any): Promise<boolean> {
+    // A step that was claimed in the meantime keeps the action it is running with
+    const updated = await db.update(jobSteps)
+      .set({ actionTpl })
+      .where(and(
+        eq(jobSteps.id, stepId),
+        inArray(jobSteps.status, ['pending', 'paused', 'blocked'])
+      ))
+      .returning({ id: jobSteps.id });
+    return updated.length > 0;
+  }
+
   async getJobById(jobId: number): Promise<Job | undefined> {
     const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
     return job;
@@ -397,35 +692,27 @@ export class DatabaseStorage implements IStorage {
     return job?.context as Record<string, string> || {};
   }
 
-  async updateJobContext(jobId: number, context: Record<string, string>): Promise<Job> {
-    const [result] = await db
-      .update(jobs)
-      .set({ context })
-      .where(eq(jobs.id, jobId))
-      .returning();
-    return result;
+  async mergeJobContext(jobId: number, values: Record<string, string>): Promise<void> {
+    await mergeJobContext(db, jobId, values);
   }
 
   // Pipeline and stage operations
-  async cacheHubspotPipelines(userId: number, pipelines: InsertHubspotPipeline[]): Promise<HubspotPipeline[]> {
-    // Clear existing pipelines for this user first
-    await db.delete(hubspotPipelines).where(eq(hubspotPipelines.userId, userId));
-    
-    if (pipelines.length === 0) {
-      return [];
-    }
-    
-    const insertedPipelines = await db.insert(hubspotPipelines).values(pipelines).returning();
-    return insertedPipelines;
-  }
-
-  async cacheHubspotStages(stages: InsertHubspotStage[]): Promise<HubspotStage[]> {
-    if (stages.length === 0) {
-      return [];
-    }
-    
-    const insertedStages = await db.insert(hubspotStages).values(stages).returning();
-    return insertedStages;
+  async cacheHubspotPipelines(userId: number, pipelines: CachedHubspotPipelineInput[]): Promise<HubspotPipeline[]> {
+    // Replace the user's pipelines and their stages together, so stage validation running
+    // alongside a refresh sees either the old set or the new one, never an empty cache
+    return await db.transaction(async (tx) => {
+      await tx.delete(hubspotPipelines).where(eq(hubspotPipelines.userId, userId));
+      
+      const insertedPipelines: HubspotPipeline[] = [];
+      for (const { stages, ...pipeline } of pipelines) {
+        const [inserted] = await tx.insert(hubspotPipelines).values(pipeline).returning();
+        if (stages.length > 0) {
+          await tx.insert(hubspotStages).values(stages.map(stage => ({ ...stage, pipelineId: inserted.id })));
+        }
+        insertedPipelines.push(inserted);
+      }
+      return insertedPipelines;
+    });
   }
 
   async getHubspotPipelines(userId: number, objectType: string): Promise<HubspotPipeline[]> {
@@ -473,9 +760,134 @@ export class DatabaseStorage implements IStorage {
     return owners;
   }
 
+  async deactivateMissingHubspotOwners(userId: number, activeHubspotIds: string[]): Promise<HubspotOwner[]> {
+    // Owners HubSpot no longer lists are deactivated or removed from the portal
+    return await db.update(hubspotOwners)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(and(
+        eq(hubspotOwners.userId, userId),
+        eq(hubspotOwners.isActive, true),
+        activeHubspotIds.length > 0 ? notInArray(hubspotOwners.hubspotId, activeHubspotIds) : undefined
+      ))
+      .returning();
+  }
+
+  async cacheHubspotAssociationLabels(
+    userId: number,
+    fromObjectType: string,
+    toObjectType: string,
+    labels: InsertHubspotAssociationLabel[]
+  ): Promise<HubspotAssociationLabel[]> {
+    const pair = and(
+      eq(hubspotAssociationLabels.userId, userId),
+      eq(hubspotAssociationLabels.fromObjectType, fromObjectType),
+      eq(hubspotAssociationLabels.toObjectType, toObjectType)
+    );
+    
+    // Replace the cached types for this object type pair; steps discovering the same pair at
+    // once leave one row per type
+    return await db.transaction(async (tx) => {
+      await tx.delete(hubspotAssociationLabels).where(pair);
+      if (labels.length > 0) {
+        await tx.insert(hubspotAssociationLabels).values(labels).onConflictDoNothing();
+      }
+      return await tx.select().from(hubspotAssociationLabels)
+        .where(pair)
+        .orderBy(hubspotAssociationLabels.associationTypeId);
+    });
+  }
+
+  async getHubspotAssociationLabels(userId: number, fromObjectType: string, toObjectType: string): Promise<HubspotAssociationLabel[]> {
+    const labels = await db.select().from(hubspotAssociationLabels)
+      .where(and(
+        eq(hubspotAssociationLabels.userId, userId),
+        eq(hubspotAssociationLabels.fromObjectType, fromObjectType),
+        eq(hubspotAssociationLabels.toObjectType, toObjectType)
+      ))
+      .orderBy(hubspotAssociationLabels.associationTypeId);
+    return labels;
+  }
+
   async clearHubspotCache(userId: number): Promise<void> {
     await db.delete(hubspotPipelines).where(eq(hubspotPipelines.userId, userId));
     await db.delete(hubspotOwners).where(eq(hubspotOwners.userId, userId));
+    await db.delete(hubspotAssociationLabels).where(eq(hubspotAssociationLabels.userId, userId));
+    await db.delete(hubspotMetadataChanges).where(eq(hubspotMetadataChanges.userId, userId));
+  }
+
+  async recordHubspotMetadataChanges(changes: InsertHubspotMetadataChange[]): Promise<HubspotMetadataChange[]> {
+    if (changes.length === 0) {
+      return [];
+    }
+    return await db.insert(hubspotMetadataChanges).values(changes).returning();
+  }
+
+  async getHubspotMetadataChanges(userId: number, limit: number = 100): Promise<HubspotMetadataChange[]> {
+    return await db.select().from(hubspotMetadataChanges)
+      .where(eq(hubspotMetadataChanges.userId, userId))
+      .orderBy(desc(hubspotMetadataChanges.detectedAt), desc(hubspotMetadataChanges.id))
+      .limit(limit);
+  }
+
+  // Lifecycle template operations
+  async getLifecycleTemplates(userId: number): Promise<LifecycleTemplateRecord[]> {
+    const templates = await db.select().from(lifecycleTemplates)
+      .where(eq(lifecycleTemplates.userId, userId))
+      .orderBy(lifecycleTemplates.name, lifecycleTemplates.outcome, desc(lifecycleTemplates.version));
+    return templates;
+  }
+
+  async getLifecycleTemplateById(id: number): Promise<LifecycleTemplateRecord | undefined> {
+    const [template] = await db.select().from(lifecycleTemplates).where(eq(lifecycleTemplates.id, id));
+    return template;
+  }
+
+  async getLifecycleTemplateVersion(userId: number, name: string, outcome: string, version?: number): Promise<LifecycleTemplateRecord | undefined> {
+    const conditions = [
+      eq(lifecycleTemplates.userId, userId),
+      eq(lifecycleTemplates.name, name),
+      eq(lifecycleTemplates.outcome, outcome)
+    ];
+    if (version !== undefined) {
+      conditions.push(eq(lifecycleTemplates.version, version));
+    }
+    
+    // Latest version first when no specific version is requested
+    const [template] = await db.select().from(lifecycleTemplates)
+      .where(and(...conditions))
+      .orderBy(desc(lifecycleTemplates.version))
+      .limit(1);
+    return template;
+  }
+
+  async createLifecycleTemplate(templateData: Omit<InsertLifecycleTemplateRecord, 'version'>): Promise<LifecycleTemplateRecord> {
+    // Uploads of the same template at once can pick the same version; the unique index on
+    // (userId, name, outcome, version) rejects all but one, and the others take the next version
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.getLifecycleTemplateVersion(templateData.userId, templateData.name, templateData.outcome);
+      try {
+        const [template] = await db.insert(lifecycleTemplates)
+          .values({ ...templateData, version: (latest?.version || 0) + 1 })
+          .returning();
+        return template;
+      } catch (error: any) {
+        // 23505: unique_violation
+        if (error?.code !== '23505' || attempt >= 5) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async deleteLifecycleTemplate(id: number): Promise<void> {
+    await db.delete(lifecycleTemplates).where(eq(lifecycleTemplates.id, id));
+  }
+
+  async deleteLifecycleTemplatesByName(userId: number, name: string): Promise<number> {
+    const deleted = await db.delete(lifecycleTemplates)
+      .where(and(eq(lifecycleTemplates.userId, userId), eq(lifecycleTemplates.name, name)))
+      .returning();
+    return deleted.length;
   }
 
   /**
@@ -498,11 +910,17 @@ export class DatabaseStorage implements IStorage {
         .returning();
       console.log(`🔑 Deleted ${deletedTokens.length} API tokens`);
       
-      // Step 3: Clear HubSpot cache (pipelines, stages, owners)
+      // Step 3: Clear HubSpot cache (pipelines, stages, owners, association labels, detected changes)
       await this.clearHubspotCache(userId);
       console.log(`🗃️ Cleared HubSpot cache data`);
       
-      // Step 4: Reset session data (keep session but clear all configuration)
+      // Step 4: Delete uploaded lifecycle templates
+      const deletedTemplates = await db.delete(lifecycleTemplates)
+        .where(eq(lifecycleTemplates.userId, userId))
+        .returning();
+      console.log(`📚 Deleted ${deletedTemplates.length} lifecycle templates`);
+      
+      // Step 5: Reset session data (keep session but clear all configuration)
       await db.update(sessions)
         .set({
           hubspotToken: null,
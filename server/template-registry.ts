@@ -0,0 +1,299 @@
+/**
+ * Lifecycle Template Registry
+ * Discovers won/lost lifecycle CSV templates per industry from a directory,
+ * validates them once at startup and serves them to the job scheduler
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ValidationError } from './errors';
+import {
+  CsvRow,
+  DemoCsvRow,
+  TemplateIssue,
+  TemplateKind,
+  detectTemplateKind,
+  formatTemplateIssues,
+  parseDemoTemplate,
+  parseLifecycleTemplate
+} from './csv-template';
+
+export type { CsvRow } from './csv-template';
+
+export interface LifecycleTemplate {
+  industry: string;
+  outcome: 'won' | 'lost';
+  fileName: string;
+  rows: CsvRow[];
+  baseCycleDays: number;
+}
+
+// Default durations when a simulation does not pick its own
+export const LIFECYCLE_TARGET_CYCLE_DAYS = 90;
+export const DEMO_TEMPLATE_CYCLE_DAYS = 1 / 24; // The demo template is authored as a 1 hour run
+
+// Custom durations may range from one minute to a year
+export const MIN_TARGET_CYCLE_DAYS = 1 / (24 * 60);
+export const MAX_TARGET_CYCLE_DAYS = 365;
+
+// Demo mode template (36 timed sets)
+export const DEMO_TEMPLATE_FILE = 'simulation_timing_1h_36sets_with_payloads_1755371217278.csv';
+
+// Templates live next to the other shipped assets unless overridden
+const TEMPLATE_DIR = process.env.LIFECYCLE_TEMPLATE_DIR || join(process.cwd(), 'attached_assets');
+
+// <Industry>_Cycle-ClosedWon[_timestamp].csv / <Industry>_Cycle-ClosedLost[_timestamp].csv
+const TEMPLATE_FILE_PATTERN = /^([A-Za-z0-9-]+)_Cycle-Closed(Won|Lost)(?:_\d+)?\.csv$/i;
+
+// Industry keys that reuse another industry's templates
+const INDUSTRY_ALIASES: Record<string, string> = {
+  'business': 'ecommerce'
+};
+
+// Registry keyed by `${industry}:${outcome}`
+const templates = new Map<string, LifecycleTemplate>();
+let registryLoaded = false;
+let demoTemplate: { fileName: string; rows: DemoCsvRow[] } | null = null;
+
+function getRegistryKey(industry: string, outcome: string): string {
+  return `${industry}:${outcome}`;
+}
+
+function normalizeIndustry(industry: string): string {
+  const key = (industry || '').toLowerCase().trim();
+  return INDUSTRY_ALIASES[key] || key;
+}
+
+/**
+ * Parse and validate lifecycle CSV content. Row problems carry their source line.
+ */
+export function loadLifecycleTemplate(csvContent: string): { rows: CsvRow[]; errors: TemplateIssue[] } {
+  const { rows, errors } = parseLifecycleTemplate(csvContent);
+
+  if (errors.length === 0) {
+    if (rows.length === 0) {
+      errors.push({ message: 'Template has no rows' });
+    } else if (Math.max(...rows.map(row => row.templateDay)) <= 0) {
+      errors.push({ message: 'Template missing templateDay values' });
+    }
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Default target duration for a simulation that does not pick one
+ */
+export function getDefaultCycleDays(industry: string, hasCustomTemplate: boolean = false): number {
+  return normalizeIndustry(industry) === 'demo' && !hasCustomTemplate ? DEMO_TEMPLATE_CYCLE_DAYS : LIFECYCLE_TARGET_CYCLE_DAYS;
+}
+
+/**
+ * Load and validate the demo mode template, cached after the first read
+ */
+export function loadDemoTemplate(templateDir: string = TEMPLATE_DIR): { fileName: string; rows: DemoCsvRow[] } {
+  if (demoTemplate) return demoTemplate;
+
+  let csvContent: string;
+  try {
+    csvContent = readFileSync(join(templateDir, DEMO_TEMPLATE_FILE), 'utf-8');
+    console.log(`✅ Loaded Demo Mode CSV template: ${DEMO_TEMPLATE_FILE}`);
+  } catch (error) {
+    console.error(`❌ Failed to load Demo Mode CSV template: ${DEMO_TEMPLATE_FILE}`, error);
+    throw new Error(`Demo Mode CSV template not found: ${DEMO_TEMPLATE_FILE}`);
+  }
+
+  // Any row problem rejects the whole template
+  const { rows, errors } = parseDemoTemplate(csvContent);
+  if (errors.length > 0) {
+    console.error(`❌ Demo Mode CSV template ${DEMO_TEMPLATE_FILE} has ${errors.length} problems:`, formatTemplateIssues(errors));
+    throw new ValidationError('INVALID_TEMPLATE', `Demo Mode CSV template ${DEMO_TEMPLATE_FILE} is invalid`, {
+      fileName: DEMO_TEMPLATE_FILE,
+      errors
+    });
+  }
+
+  demoTemplate = { fileName: DEMO_TEMPLATE_FILE, rows };
+  return demoTemplate;
+}
+
+/**
+ * Build a lifecycle template from uploaded CSV content, throwing when it does not validate
+ */
+export function createLifecycleTemplate(industry: string, outcome: 'won' | 'lost', fileName: string, csvContent: string): LifecycleTemplate {
+  const { rows, errors } = loadLifecycleTemplate(csvContent);
+  if (errors.length > 0) {
+    throw new Error(`Lifecycle template ${fileName} is invalid: ${formatTemplateIssues(errors).join('; ')}`);
+  }
+
+  return {
+    industry,
+    outcome,
+    fileName,
+    rows,
+    baseCycleDays: Math.max(...rows.map(row => row.templateDay))
+  };
+}
+
+/**
+ * Scaled timeline of a template as the scheduler would lay it out
+ */
+export function previewLifecycleTimeline(
+  rows: CsvRow[],
+  targetCycleDays: number = LIFECYCLE_TARGET_CYCLE_DAYS,
+  startAt: Date = new Date()
+): Array<{ templateDay: number; scaledDay: number; scheduledAt: string; typeOfAction: string; recordType: string; recordIdTpl: string }> {
+  const baseCycleDays = Math.max(...rows.map(row => row.templateDay));
+  const scalingFactor = targetCycleDays / baseCycleDays;
+
+  return rows
+    .map(row => {
+      const scaledHours = row.templateDay * 24 * scalingFactor;
+      return {
+        templateDay: row.templateDay,
+        scaledDay: Math.floor(scaledHours / 24),
+        scheduledAt: new Date(startAt.getTime() + scaledHours * 60 * 60 * 1000).toISOString(),
+        typeOfAction: row.typeOfAction,
+        recordType: row.recordType,
+        recordIdTpl: row.recordIdTpl
+      };
+    })
+    .sort((a, b) => a.scaledDay - b.scaledDay);
+}
+
+/**
+ * Dry-run a template without registering or scheduling it
+ */
+export function lintTemplate(csvContent: string, kind: TemplateKind = detectTemplateKind(csvContent)): {
+  kind: TemplateKind;
+  valid: boolean;
+  rowCount: number;
+  baseCycleDays?: number;
+  errors: TemplateIssue[];
+} {
+  if (kind === 'demo') {
+    const { rows, errors } = parseDemoTemplate(csvContent);
+    return { kind, valid: errors.length === 0, rowCount: rows.length, errors };
+  }
+
+  const { rows, errors } = loadLifecycleTemplate(csvContent);
+  return {
+    kind,
+    valid: errors.length === 0,
+    rowCount: rows.length,
+    baseCycleDays: rows.length > 0 ? Math.max(...rows.map(row => row.templateDay)) : undefined,
+    errors
+  };
+}
+
+/**
+ * Discover and validate lifecycle templates. Invalid files are skipped and reported.
+ */
+export function loadTemplateRegistry(templateDir: string = TEMPLATE_DIR): {
+  loaded: number;
+  invalid: Array<{ fileName: string; problems: string[] }>;
+} {
+  templates.clear();
+  const invalid: Array<{ fileName: string; problems: string[] }> = [];
+
+  let fileNames: string[] = [];
+  try {
+    fileNames = readdirSync(templateDir).sort();
+  } catch (error: any) {
+    console.error(`❌ Failed to read lifecycle template directory ${templateDir}:`, error.message);
+    registryLoaded = true;
+    return { loaded: 0, invalid };
+  }
+
+  for (const fileName of fileNames) {
+    const match = fileName.match(TEMPLATE_FILE_PATTERN);
+    if (!match) continue;
+
+    const industry = normalizeIndustry(match[1]);
+    const outcome = match[2].toLowerCase() as 'won' | 'lost';
+
+    let csvContent: string;
+    try {
+      csvContent = readFileSync(join(templateDir, fileName), 'utf-8');
+    } catch (error: any) {
+      invalid.push({ fileName, problems: [`Unreadable template: ${error.message}`] });
+      continue;
+    }
+
+    const { rows, errors } = loadLifecycleTemplate(csvContent);
+    if (errors.length > 0) {
+      const problems = formatTemplateIssues(errors);
+      console.warn(`⚠️ Skipping invalid lifecycle template ${fileName}:`, problems);
+      invalid.push({ fileName, problems });
+      continue;
+    }
+
+    const key = getRegistryKey(industry, outcome);
+    if (templates.has(key)) {
+      // Files are sorted, so a later timestamp suffix replaces an earlier one
+      console.warn(`⚠️ Lifecycle template ${fileName} replaces ${templates.get(key)!.fileName} for ${industry}/${outcome}`);
+    }
+
+    templates.set(key, {
+      industry,
+      outcome,
+      fileName,
+      rows,
+      baseCycleDays: Math.max(...rows.map(row => row.templateDay))
+    });
+  }
+
+  // An industry is only usable when both outcome variants exist
+  const industries = new Set(Array.from(templates.values()).map(t => t.industry));
+  for (const industry of Array.from(industries)) {
+    for (const outcome of ['won', 'lost']) {
+      if (!templates.has(getRegistryKey(industry, outcome))) {
+        console.warn(`⚠️ Industry '${industry}' has no closed-${outcome} template and will not be offered`);
+      }
+    }
+  }
+
+  registryLoaded = true;
+  console.log(`📚 Loaded ${templates.size} lifecycle templates for industries: ${getRegisteredIndustries().join(', ') || 'none'}`);
+
+  return { loaded: templates.size, invalid };
+}
+
+function ensureRegistryLoaded(): void {
+  if (!registryLoaded) {
+    loadTemplateRegistry();
+  }
+}
+
+/**
+ * Get the lifecycle template for an industry and outcome
+ */
+export function getLifecycleTemplate(industry: string, outcome: 'won' | 'lost'): LifecycleTemplate | undefined {
+  ensureRegistryLoaded();
+  return templates.get(getRegistryKey(normalizeIndustry(industry), outcome));
+}
+
+/**
+ * Industries that have both a won and a lost lifecycle template
+ */
+export function getRegisteredIndustries(): string[] {
+  ensureRegistryLoaded();
+  const industries = new Set(Array.from(templates.values()).map(t => t.industry));
+  return Array.from(industries)
+    .filter(industry => templates.has(getRegistryKey(industry, 'won')) && templates.has(getRegistryKey(industry, 'lost')))
+    .sort();
+}
+
+/**
+ * Summaries of all registered lifecycle templates
+ */
+export function listLifecycleTemplates(): Array<{ industry: string; outcome: string; fileName: string; rowCount: number; baseCycleDays: number }> {
+  ensureRegistryLoaded();
+  return Array.from(templates.values()).map(template => ({
+    industry: template.industry,
+    outcome: template.outcome,
+    fileName: template.fileName,
+    rowCount: template.rows.length,
+    baseCycleDays: template.baseCycleDays
+  }));
+}
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextBusinessTime, shiftIntoBusinessHours, validateCalendarPolicy } from './time-utils';
+
+const newYork = { timezone: 'America/New_York', workingHours: { start: '09:00', end: '17:00' } };
+
+test('times inside the working window are kept and early ones move to the start of the day', () => {
+  // Tuesday 10 March 2026, 10:30 and 07:00 in New York (EDT)
+  assert.equal(nextBusinessTime(new Date('2026-03-10T14:30:00Z'), newYork).toISOString(), '2026-03-10T14:30:00.000Z');
+  assert.equal(nextBusinessTime(new Date('2026-03-10T11:00:00Z'), newYork).toISOString(), '2026-03-10T13:00:00.000Z');
+});
+
+test('evenings and weekends move to the next working morning across a DST change', () => {
+  // Friday 6 March 18:00 EST; clocks go forward on Sunday 8 March, so Monday 09:00 is EDT
+  assert.equal(nextBusinessTime(new Date('2026-03-06T23:00:00Z'), newYork).toISOString(), '2026-03-09T13:00:00.000Z');
+  // Friday 30 October 18:00 EDT; clocks go back on Sunday 1 November, so Monday 09:00 is EST
+  assert.equal(nextBusinessTime(new Date('2026-10-30T22:00:00Z'), newYork).toISOString(), '2026-11-02T14:00:00.000Z');
+});
+
+test('holidays and non-working days are skipped', () => {
+  const policy = { ...newYork, holidays: ['2026-03-09'] };
+  assert.equal(nextBusinessTime(new Date('2026-03-07T15:00:00Z'), policy).toISOString(), '2026-03-10T13:00:00.000Z');
+
+  // A Sunday-to-Thursday week in UTC: Friday moves to Sunday
+  const sundayWeek = { workingDays: [0, 1, 2, 3, 4] };
+  assert.equal(nextBusinessTime(new Date('2026-03-13T12:00:00Z'), sundayWeek).toISOString(), '2026-03-15T09:00:00.000Z');
+});
+
+test('shifted times keep the order of the schedule', () => {
+  // Monday 10:00 UTC, the Saturday before it and Monday 08:00, given out of order
+  const shifted = shiftIntoBusinessHours([new Date('2026-03-09T10:00:00Z'), new Date('2026-03-07T12:00:00Z'), new Date('2026-03-09T08:00:00Z')], {});
+  assert.deepEqual(shifted.map(time => time.toISOString()), [
+    '2026-03-09T10:00:00.000Z',
+    '2026-03-09T09:00:00.000Z',
+    '2026-03-09T10:00:00.000Z'
+  ]);
+});
+
+test('steps from a closed night are spread over the morning with their relative spacing', () => {
+  // 18:00, 20:00, 23:00 and 02:00 overnight in UTC with 09:00-17:00 working hours
+  const night = ['2026-03-10T18:00:00Z', '2026-03-10T20:00:00Z', '2026-03-10T23:00:00Z', '2026-03-11T02:00:00Z'].map(time => new Date(time));
+  const shifted = shiftIntoBusinessHours(night, {});
+
+  // An 8 hour span squeezed into the first half of the 8 hour window
+  assert.deepEqual(shifted.map(time => time.toISOString()), [
+    '2026-03-11T09:00:00.000Z',
+    '2026-03-11T10:00:00.000Z',
+    '2026-03-11T11:30:00.000Z',
+    '2026-03-11T13:00:00.000Z'
+  ]);
+
+  // A short gap keeps its spacing as it was
+  const evening = shiftIntoBusinessHours([new Date('2026-03-10T18:00:00Z'), new Date('2026-03-10T18:20:00Z')], {});
+  assert.deepEqual(evening.map(time => time.toISOString()), ['2026-03-11T09:00:00.000Z', '2026-03-11T09:20:00.000Z']);
+});
+
+test('invalid calendar policies are reported', () => {
+  assert.deepEqual(validateCalendarPolicy(undefined), []);
+  assert.deepEqual(validateCalendarPolicy(newYork), []);
+  assert.deepEqual(validateCalendarPolicy({
+    timezone: 'Mars/Olympus',
+    workingHours: { start: '17:00', end: '09:00' },
+    workingDays: [7],
+    holidays: ['9 March']
+  }), [
+    "Unknown timezone 'Mars/Olympus'",
+    'workingHours start must be before end',
+    'workingDays must be a non-empty list of days 0 (Sunday) to 6 (Saturday)',
+    'holidays must be a list of YYYY-MM-DD dates'
+  ]);
+});
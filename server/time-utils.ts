@@ -2,6 +2,8 @@
  * Time utility functions for simulation scheduling
  */
 
+import type { SimulationConfig } from '../shared/schema';
+
 /**
  * Calculate the offset for a specific simulation set
  * @param contactSeq - The sequence number of the contact set (1-based)
@@ -14,4 +16,194 @@ export function calculateSetOffset(contactSeq: number, setCount: number, duratio
   const setSpacingHours = targetCycleHours / setCount;
   const offsetHours = (contactSeq - 1) * setSpacingHours;
   return offsetHours * 60 * 60 * 1000;
-}
\ No newline at end of file
+}
+
+export type CalendarPolicy = NonNullable<SimulationConfig['calendarPolicy']>;
+
+const DEFAULT_WORKING_HOURS = { start: '09:00', end: '17:00' };
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Steps moved out of a night or weekend are spread over at most this share of the next working window
+const SHIFTED_SPREAD_FRACTION = 0.5;
+
+function parseTimeOfDay(value: string): number {
+  const [, hours, minutes] = value.match(TIME_OF_DAY_PATTERN)!;
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+/**
+ * Validate a calendar policy, returning a list of problems (empty when valid)
+ */
+export function validateCalendarPolicy(policy: any): string[] {
+  const problems: string[] = [];
+  if (policy === undefined || policy === null) return problems;
+
+  if (typeof policy !== 'object') {
+    return ['calendarPolicy must be an object'];
+  }
+
+  if (policy.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: policy.timezone });
+    } catch {
+      problems.push(`Unknown timezone '${policy.timezone}'`);
+    }
+  }
+
+  if (policy.workingHours !== undefined) {
+    const { start, end } = policy.workingHours || {};
+    if (!TIME_OF_DAY_PATTERN.test(start) || !TIME_OF_DAY_PATTERN.test(end)) {
+      problems.push('workingHours start and end must be HH:MM');
+    } else if (parseTimeOfDay(start) >= parseTimeOfDay(end)) {
+      problems.push('workingHours start must be before end');
+    }
+  }
+
+  if (policy.workingDays !== undefined) {
+    if (!Array.isArray(policy.workingDays) || policy.workingDays.length === 0 ||
+        policy.workingDays.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      problems.push('workingDays must be a non-empty list of days 0 (Sunday) to 6 (Saturday)');
+    }
+  }
+
+  if (policy.holidays !== undefined) {
+    if (!Array.isArray(policy.holidays) || policy.holidays.some((day: any) => !/^\d{4}-\d{2}-\d{2}$/.test(day))) {
+      problems.push('holidays must be a list of YYYY-MM-DD dates');
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Local calendar date, weekday and minute of day of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string): { year: number; month: number; day: number; weekday: number; minuteOfDay: number; dateKey: string } {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minuteOfDay: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`
+  };
+}
+
+/**
+ * The instant a local wall-clock time occurs in a timezone
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minuteOfDay: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+  let instant = wallClock;
+
+  // Two passes settle the offset across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const observed = Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minuteOfDay);
+    instant += wallClock - observed;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Earliest instant at or after `date` that falls inside the policy's working window
+ */
+export function nextBusinessTime(date: Date, policy: CalendarPolicy): Date {
+  const timeZone = policy.timezone || 'UTC';
+  const hours = policy.workingHours || DEFAULT_WORKING_HOURS;
+  const workingDays = policy.workingDays?.length ? policy.workingDays : DEFAULT_WORKING_DAYS;
+  const holidays = new Set(policy.holidays || []);
+  const startMinute = parseTimeOfDay(hours.start);
+  const endMinute = parseTimeOfDay(hours.end);
+
+  let candidate = date;
+  // A year of lookahead covers any combination of working days and holidays
+  for (let attempt = 0; attempt < 370; attempt++) {
+    const parts = getZonedParts(candidate, timeZone);
+    const isWorkingDay = workingDays.includes(parts.weekday) && !holidays.has(parts.dateKey);
+
+    if (isWorkingDay && parts.minuteOfDay < endMinute) {
+      if (parts.minuteOfDay >= startMinute) {
+        return candidate;
+      }
+      return zonedTimeToUtc(parts.year, parts.month, parts.day, startMinute, timeZone);
+    }
+
+    // Move to the start of the next local day
+    const nextDay = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+    candidate = zonedTimeToUtc(nextDay.getUTCFullYear(), nextDay.getUTCMonth() + 1, nextDay.getUTCDate(), 0, timeZone);
+  }
+
+  return date;
+}
+
+/**
+ * Length of the working window that opens at `opening`
+ */
+function getWindowLengthMs(opening: Date, policy: CalendarPolicy): number {
+  const timeZone = policy.timezone || 'UTC';
+  const hours = policy.workingHours || DEFAULT_WORKING_HOURS;
+  const parts = getZonedParts(opening, timeZone);
+  const close = zonedTimeToUtc(parts.year, parts.month, parts.day, parseTimeOfDay(hours.end), timeZone);
+  return Math.max(0, close.getTime() - opening.getTime());
+}
+
+/**
+ * Shift scheduled times into working windows. Times are processed chronologically and
+ * never move before an earlier step's shifted time, so step order is preserved. Steps
+ * that fell in the same closed period keep their relative spacing from the window's
+ * opening, compressed to fit its first half, rather than all landing on the opening instant.
+ */
+export function shiftIntoBusinessHours(times: Date[], policy: CalendarPolicy): Date[] {
+  const order = times.map((time, index) => index).sort((a, b) => times[a].getTime() - times[b].getTime());
+  const shifted: Date[] = new Array(times.length);
+  let previous = 0;
+
+  for (let position = 0; position < order.length;) {
+    const first = new Date(Math.max(times[order[position]].getTime(), previous));
+    const opening = nextBusinessTime(first, policy);
+    if (opening.getTime() === first.getTime()) {
+      shifted[order[position]] = opening;
+      previous = opening.getTime();
+      position++;
+      continue;
+    }
+
+    // Every following step closed out until the same opening moves with this one
+    let end = position + 1;
+    while (end < order.length && times[order[end]].getTime() < opening.getTime() &&
+           nextBusinessTime(times[order[end]], policy).getTime() === opening.getTime()) {
+      end++;
+    }
+
+    const spanMs = times[order[end - 1]].getTime() - first.getTime();
+    // They also finish by the time the next step was already due, so it is not pushed back
+    let availableMs = getWindowLengthMs(opening, policy) * SHIFTED_SPREAD_FRACTION;
+    if (end < order.length) {
+      availableMs = Math.max(0, Math.min(availableMs, times[order[end]].getTime() - opening.getTime()));
+    }
+    const factor = spanMs > availableMs ? availableMs / spanMs : 1;
+    for (let i = position; i < end; i++) {
+      const offsetMs = Math.max(0, times[order[i]].getTime() - first.getTime());
+      shifted[order[i]] = new Date(opening.getTime() + Math.round(offsetMs * factor));
+    }
+    previous = shifted[order[end - 1]].getTime();
+    position = end;
+  }
+
+  return shifted;
+}
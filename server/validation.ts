@@ -6,9 +6,15 @@ import {
   PersonaSchema, 
   CompanySchema, 
   DealSchema, 
-  TicketSchema 
+  TicketSchema,
+  TaskSchema,
+  CallSchema,
+  MeetingSchema,
+  EmailSchema,
+  ProductSchema
 } from './llm-guardrails';
 import { ValidationError } from './errors';
+import type { z } from 'zod';
 
 /**
  * Recursively trim all string values in an object
@@ -38,9 +44,10 @@ export function trimStringsDeep<T>(obj: T): T {
 }
 
 /**
- * Validate data using appropriate schema and throw ValidationError on failure
+ * Validate data using appropriate schema and throw ValidationError on failure.
+ * Record types only known at runtime (custom objects) pass their own schema.
  */
-export function validateDataOrThrow(data: any, actionType: string): any {
+export function validateDataOrThrow(data: any, actionType: string, customSchema?: z.ZodTypeAny): any {
   if (!data || typeof data !== 'object') {
     throw new ValidationError(
       'INVALID_DATA_STRUCTURE',
@@ -76,10 +83,10 @@ export function validateDataOrThrow(data: any, actionType: string): any {
   checkForWhitespaceOnly(trimmedData);
 
   // Determine which schema to use based on action type
-  let schema;
-  let dataKey;
+  let schema: z.ZodTypeAny | undefined = customSchema;
+  let dataKey: string | undefined;
 
-  switch (actionType) {
+  switch (customSchema ? undefined : actionType) {
     case 'create_contact':
     case 'update_contact':
       schema = PersonaSchema;
@@ -100,9 +107,31 @@ export function validateDataOrThrow(data: any, actionType: string): any {
       schema = TicketSchema;
       dataKey = 'tickets';
       break;
+    case 'create_task':
+      schema = TaskSchema;
+      dataKey = 'tasks';
+      break;
+    case 'log_call':
+      schema = CallSchema;
+      dataKey = 'calls';
+      break;
+    case 'log_meeting':
+      schema = MeetingSchema;
+      dataKey = 'meetings';
+      break;
+    case 'log_email':
+      schema = EmailSchema;
+      dataKey = 'emails';
+      break;
+    case 'create_product_catalog':
+      schema = ProductSchema;
+      dataKey = 'products';
+      break;
     default:
       // For general validation, try to validate the structure as-is
-      return trimmedData;
+      if (!schema) {
+        return trimmedData;
+      }
   }
 
   try {
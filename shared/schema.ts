@@ -12,6 +12,10 @@ export interface SimulationConfig {
     deals: number;
     tickets: number;
     notes: number;
+    tasks?: number;
+    calls?: number;
+    meetings?: number;
+    emails?: number;
   };
   totalSets?: number;
   duration_days?: number;
@@ -19,6 +23,41 @@ export interface SimulationConfig {
   theme?: string;
   industry?: string;
   demoDetailsSamples?: string[];
+  customTemplate?: {
+    name: string;
+    versions?: { won?: number; lost?: number }; // Template version per outcome, pinned when the simulation starts
+  };
+  outcomeModel?: {
+    industryWinRates?: Record<string, number>; // 0-1 close rate per industry key
+    themeWinRates?: Record<string, number>; // Overrides the industry rate for a theme
+    seed?: string | number; // Same seed + settings draws the same outcomes
+    winRate?: number; // Resolved when the simulation starts
+    winRateSource?: 'theme' | 'industry' | 'default';
+  };
+  calendarPolicy?: {
+    timezone?: string; // IANA zone, e.g. 'America/New_York' (default UTC)
+    workingHours?: { start: string; end: string }; // 'HH:MM' local time, end exclusive (default 09:00-17:00)
+    workingDays?: number[]; // 0 = Sunday ... 6 = Saturday (default Monday-Friday)
+    holidays?: string[]; // 'YYYY-MM-DD' local dates
+  };
+  backfill?: boolean; // Schedule ends now - every step runs immediately with past-dated HubSpot dates
+  productCatalog?: {
+    source: 'generated' | 'portal'; // Generated once per theme/industry, or the portal's existing products
+    productIds?: string[]; // Portal products to use (default all priced products)
+  };
+  crmTargets?: {
+    dealPipelineId?: string; // Pipeline new deals are created in (default: the generated or default pipeline)
+    ticketPipelineId?: string; // Pipeline new tickets are created in
+    owners?: Array<{ id: string; weight: number }>; // HubSpot owners records are assigned to, in proportion to weight
+  };
+}
+
+// Notice attached to a running simulation, e.g. when its portal's pipelines or owners changed
+export interface SimulationWarning {
+  type: 'metadata_change';
+  message: string;
+  detectedAt: string;
+  remappedSteps: number;
 }
 
 // Users table
@@ -58,11 +97,12 @@ export const simulations = pgTable('simulations', {
   industry: varchar('industry', { length: 100 }).notNull(),
   frequency: varchar('frequency', { length: 50 }).notNull(),
   config: json('config').$type<SimulationConfig>().notNull(),
-  status: varchar('status', { length: 50 }).default('pending'), // pending, running, completed, failed
+  status: varchar('status', { length: 50 }).default('pending'), // pending, running, completed, partially_failed, failed
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   results: json('results'),
   creditsUsed: integer('credits_used').default(0),
+  warnings: json('warnings').$type<SimulationWarning[]>(),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -105,7 +145,7 @@ export const jobs = pgTable('jobs', {
   baseCycleDays: integer('base_cycle_days'),
   jobStartAt: timestamp('job_start_at'),
   createdAt: timestamp('created_at').defaultNow(),
-  status: varchar('status', { length: 50 }).default('pending'), // pending/running/done
+  status: varchar('status', { length: 50 }).default('pending'), // pending/running/done/failed
   metadata: json('metadata'),
   context: json('context').$type<Record<string, string>>() // Record ID resolution context
 });
@@ -126,7 +166,12 @@ export const jobSteps = pgTable('job_steps', {
   actionTpl: json('action_tpl'),
   reasonTpl: text('reason_tpl'),
   status: varchar('status', { length: 50 }),
-  result: json('result')
+  result: json('result'),
+  leasedBy: varchar('leased_by', { length: 255 }), // Worker currently running the step
+  leaseExpiresAt: timestamp('lease_expires_at'), // Lease is recovered after this if the worker stops renewing it
+  attempts: integer('attempts').notNull().default(0), // Runs so far, counted when the step is claimed
+  nextAttemptAt: timestamp('next_attempt_at'), // Backoff after a transient failure; scheduledAt keeps the planned time
+  dependsOn: json('depends_on').$type<number[]>() // Step indexes in the same job that must complete first
 });
 
 // HubSpot pipelines and stages cache tables
@@ -153,6 +198,23 @@ export const hubspotStages = pgTable('hubspot_stages', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// HubSpot association types cache - one row per type (default or labeled) defined for an object type pair
+export const hubspotAssociationLabels = pgTable('hubspot_association_labels', {
+  id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  fromObjectType: varchar('from_object_type', { length: 100 }).notNull(), // contacts, deals, 2-1234567, etc.
+  toObjectType: varchar('to_object_type', { length: 100 }).notNull(),
+  associationTypeId: integer('association_type_id').notNull(),
+  category: varchar('category', { length: 50 }).notNull(), // HUBSPOT_DEFINED, USER_DEFINED, INTEGRATOR_DEFINED
+  label: varchar('label', { length: 255 }), // Null for the unlabeled (default) type
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    userPairTypeUnique: unique().on(table.userId, table.fromObjectType, table.toObjectType, table.associationTypeId)
+  };
+});
+
 // HubSpot owners cache table for email-to-ID resolution
 export const hubspotOwners = pgTable('hubspot_owners', {
   id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
@@ -170,6 +232,39 @@ export const hubspotOwners = pgTable('hubspot_owners', {
   };
 });
 
+// Pipelines, stages and owners found added, renamed or gone when the HubSpot cache was refreshed
+export const hubspotMetadataChanges = pgTable('hubspot_metadata_changes', {
+  id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  entity: varchar('entity', { length: 50 }).notNull(), // pipeline, stage, owner
+  objectType: varchar('object_type', { length: 50 }), // deals or tickets for pipelines and stages
+  changeType: varchar('change_type', { length: 50 }).notNull(), // added, removed, renamed, deactivated
+  hubspotId: varchar('hubspot_id', { length: 255 }).notNull(),
+  pipelineId: varchar('pipeline_id', { length: 255 }), // HubSpot ID of a stage's pipeline
+  label: varchar('label', { length: 255 }), // Current label, or the last known one when removed
+  previousLabel: varchar('previous_label', { length: 255 }),
+  replacementId: varchar('replacement_id', { length: 255 }), // Nearest valid equivalent that pending steps were moved to
+  detectedAt: timestamp('detected_at').defaultNow(),
+});
+
+// User uploaded lifecycle templates - each upload of a name/outcome pair adds a new version
+export const lifecycleTemplates = pgTable('lifecycle_templates', {
+  id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  outcome: varchar('outcome', { length: 50 }).notNull(), // won/lost
+  version: integer('version').notNull().default(1),
+  industry: varchar('industry', { length: 100 }),
+  content: text('content').notNull(),
+  rowCount: integer('row_count').notNull(),
+  baseCycleDays: integer('base_cycle_days').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    userNameOutcomeVersionUnique: unique().on(table.userId, table.name, table.outcome, table.version)
+  };
+});
+
 // Note: Simulation execution tables removed (scheduledJobs, cachedPersonas, hubspotRecords, hubspotAssociations)
 // Only configuration storage remains, plus new jobs/jobSteps tables for job tracking
 
@@ -179,6 +274,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   simulations: many(simulations),
   apiTokens: many(apiTokens),
   hubspotPipelines: many(hubspotPipelines),
+  lifecycleTemplates: many(lifecycleTemplates),
 }));
 
 export const sessionsRelations = relations(sessions, ({ one }) => ({
@@ -240,6 +336,13 @@ export const hubspotOwnersRelations = relations(hubspotOwners, ({ one }) => ({
   }),
 }));
 
+export const lifecycleTemplatesRelations = relations(lifecycleTemplates, ({ one }) => ({
+  user: one(users, {
+    fields: [lifecycleTemplates.userId],
+    references: [users.id],
+  }),
+}));
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
@@ -259,8 +362,14 @@ export type HubspotPipeline = typeof hubspotPipelines.$inferSelect;
 export type InsertHubspotPipeline = typeof hubspotPipelines.$inferInsert;
 export type HubspotStage = typeof hubspotStages.$inferSelect;
 export type InsertHubspotStage = typeof hubspotStages.$inferInsert;
+export type HubspotAssociationLabel = typeof hubspotAssociationLabels.$inferSelect;
+export type InsertHubspotAssociationLabel = typeof hubspotAssociationLabels.$inferInsert;
 export type HubspotOwner = typeof hubspotOwners.$inferSelect;
 export type InsertHubspotOwner = typeof hubspotOwners.$inferInsert;
+export type HubspotMetadataChange = typeof hubspotMetadataChanges.$inferSelect;
+export type InsertHubspotMetadataChange = typeof hubspotMetadataChanges.$inferInsert;
+export type LifecycleTemplateRecord = typeof lifecycleTemplates.$inferSelect;
+export type InsertLifecycleTemplateRecord = typeof lifecycleTemplates.$inferInsert;
 
 // Zod schemas with passcode validation
 export const insertUserSchema = createInsertSchema(users).omit({ 